@@ -101,9 +101,17 @@ export async function POST(request: NextRequest) {
 
   console.log("[v0] Starting streamed race:", raceConfig.id)
 
+  // Cancel the race (and any in-flight model calls) once the client ends early or disconnects
+  const abortController = new AbortController()
+  request.signal.addEventListener("abort", () => abortController.abort())
+
   const encoder = new TextEncoder()
 
   const stream = new ReadableStream({
+    cancel() {
+      console.log("[v0] Client disconnected, cancelling race")
+      abortController.abort()
+    },
     async start(controller) {
       try {
         console.log("[v0] Stream started, sending config...")
@@ -176,15 +184,15 @@ export async function POST(request: NextRequest) {
               console.error("[v0] Failed to send race complete:", error)
             }
           },
-        })
+        }, abortController.signal)
 
         console.log("[v0] Starting race engine...")
         // Run race
         await engine.start()
 
         console.log("[v0] Race complete, closing stream")
-        // Close stream
-        controller.close()
+        // Close stream (a cancelled stream is already closed)
+        if (!abortController.signal.aborted) controller.close()
       } catch (error) {
         console.error("[v0] Stream error:", error)
         if (error instanceof Error) {
@@ -205,7 +213,7 @@ export async function POST(request: NextRequest) {
         } catch (encodeError) {
           console.error("[v0] Failed to send error to client:", encodeError)
         }
-        controller.close()
+        if (!abortController.signal.aborted) controller.close()
       }
     },
   })
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { isValidRunId, loadRunOrPublished } from "@/lib/run-store"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/runs/:id
+ * Load a stored run ("published" for the results on the site)
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  if (!isValidRunId(id)) {
+    return NextResponse.json({ error: "Invalid run ID" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(loadRunOrPublished(id))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load run"
+    return NextResponse.json({ error: message }, { status: message.startsWith("Run not found") ? 404 : 500 })
+  }
+}
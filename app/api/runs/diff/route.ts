@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { diffBenchmarkRuns } from "@/lib/benchmark-diff"
+import { isValidRunId, loadRunOrPublished } from "@/lib/run-store"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/runs/diff?base=<runId>&head=<runId>
+ * Compare two runs per model and per word ("published" for the results on the site)
+ */
+export function GET(request: NextRequest) {
+  const base = request.nextUrl.searchParams.get("base")
+  const head = request.nextUrl.searchParams.get("head")
+  if (!base || !head) {
+    return NextResponse.json({ error: "Both base and head run IDs are required" }, { status: 400 })
+  }
+  if (!isValidRunId(base) || !isValidRunId(head)) {
+    return NextResponse.json({ error: "Invalid run ID" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(diffBenchmarkRuns(loadRunOrPublished(base), loadRunOrPublished(head)))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load runs"
+    return NextResponse.json({ error: message }, { status: message.startsWith("Run not found") ? 404 : 500 })
+  }
+}
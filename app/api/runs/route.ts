@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { listRuns } from "@/lib/run-store"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/runs
+ * List stored benchmark runs, newest first
+ */
+export function GET() {
+  return NextResponse.json({ runs: listRuns() })
+}
@@ -1,8 +1,32 @@
 import type { NextRequest } from "next/server"
-import type { ModelConfig, WordleConfig, WordleState, WordleGuess, WordleGameState, WordleRaceResult } from "@/lib/types"
-import { DEFAULT_MODELS, PUBLIC_MAX_MODELS } from "@/lib/constants"
-import { WordleEngine } from "@/lib/wordle-engine"
-import { getRandomWord } from "@/lib/wordle-words"
+import type {
+  ModelConfig,
+  WordleConfig,
+  WordleState,
+  WordleGuess,
+  WordleGameState,
+  WordleRaceResult,
+  WordleHardMode,
+  WordleHostMode,
+} from "@/lib/types"
+import { BASELINE_MODELS, DEFAULT_MODELS, PUBLIC_MAX_MODELS, isBaselineModel } from "@/lib/constants"
+import { WordleEngine, type WordleCallbacks } from "@/lib/wordle-engine"
+import { MultiWordleEngine } from "@/lib/multi-wordle-engine"
+import {
+  SUPPORTED_BOARD_COUNTS,
+  UNLIMITED_GUESS_CAP,
+  DEFAULT_INVALID_GUESS_RETRIES,
+  MAX_INVALID_GUESS_RETRIES,
+  DEFAULT_WORD_LENGTH,
+  SUPPORTED_WORD_LENGTHS,
+  isSupportedWordLength,
+  getDefaultMaxGuesses,
+} from "@/lib/wordle-utils"
+import { generateSeed } from "@/lib/random"
+import { getProvider } from "@/lib/providers"
+import { isSolverStrategy } from "@/lib/solvers"
+import { getHonestAvgGuesses } from "@/lib/benchmark-data"
+import { getDailyKey, getDailySeed, getSeededWords } from "@/lib/wordle-words"
 
 export const runtime = "nodejs"
 export const maxDuration = 300
@@ -17,8 +41,20 @@ interface StartWordleRequest {
   models?: ModelConfig[] // Now accepts full ModelConfig objects with custom prompts
   targetWord?: string // Optional - for testing/reproducibility
   includeUser?: boolean // If true, send targetWord to client for user participation
+  hardMode?: WordleHardMode // Optional - check guesses against revealed hints
+  wordLength?: number // Optional - 4 to 8 letters, default 5
+  maxGuesses?: number // Optional - guess limit, default depends on boardCount, 0 = unlimited
+  boardCount?: number // Optional - 1, 2, 4 or 8 boards, default 1
+  host?: WordleHostMode // Optional - "absurdle" picks no word up front, default "fixed"
+  lyingFeedback?: boolean // Optional - one tile per feedback row is a lie (Fibble)
+  seed?: number // Optional - seed for word selection and lies, random if omitted
+  daily?: boolean // Optional - play today's daily word (seed derived from the UTC date)
+  invalidGuessRetries?: number // Optional - extra attempts per turn after an invalid answer, default 2
 }
 
+const HARD_MODES: WordleHardMode[] = ["off", "track", "enforce"]
+const HOST_MODES: WordleHostMode[] = ["fixed", "absurdle"]
+
 /**
  * POST /api/wordle/stream
  * Start a Wordle race with Server-Sent Events streaming
@@ -51,6 +87,15 @@ export async function POST(request: NextRequest) {
       name: body.name,
       models: body.models,
       hasTargetWord: !!body.targetWord,
+      hardMode: body.hardMode,
+      wordLength: body.wordLength,
+      maxGuesses: body.maxGuesses,
+      boardCount: body.boardCount,
+      host: body.host,
+      lyingFeedback: body.lyingFeedback,
+      seed: body.seed,
+      daily: body.daily,
+      invalidGuessRetries: body.invalidGuessRetries,
     })
   } catch (error) {
     console.error("[wordle] Failed to parse request body:", error)
@@ -69,7 +114,7 @@ export async function POST(request: NextRequest) {
       // Old format: string[]
       const selectedModelIds = body.models as unknown as string[]
       models = selectedModelIds
-        .map((id) => DEFAULT_MODELS.find((m) => m.id === id))
+        .map((id) => [...DEFAULT_MODELS, ...BASELINE_MODELS].find((m) => m.id === id))
         .filter((m): m is ModelConfig => m !== undefined)
     } else {
       // New format: ModelConfig[]
@@ -90,16 +135,136 @@ export async function POST(request: NextRequest) {
     })
   }
 
-  // Enforce model cap for public deployments
-  if (!unrestricted && models.length > PUBLIC_MAX_MODELS) {
-    models = models.slice(0, PUBLIC_MAX_MODELS)
+  // Models may only name providers from the server's registry - base URLs and keys never come from the client
+  const unknownProvider = models.find((m) => m.provider && !getProvider(m.provider))
+  if (unknownProvider) {
+    return new Response(
+      JSON.stringify({ error: `Unknown provider "${unknownProvider.provider}" for model ${unknownProvider.id}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  const unknownSolver = models.find((m) => isBaselineModel(m) && !isSolverStrategy(m.modelString.split("?")[0]))
+  if (unknownSolver) {
+    return new Response(
+      JSON.stringify({ error: `Unknown solver "${unknownSolver.modelString}" for model ${unknownSolver.id}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  // Enforce model cap for public deployments (solver baselines make no API calls, so they don't count)
+  const llmModels = models.filter((m) => !isBaselineModel(m))
+  if (!unrestricted && llmModels.length > PUBLIC_MAX_MODELS) {
+    const allowed = new Set(llmModels.slice(0, PUBLIC_MAX_MODELS))
+    models = models.filter((m) => isBaselineModel(m) || allowed.has(m))
   }
 
   console.log("[wordle] Selected models:", models.map((m) => m.id))
 
-  // Select target word
-  const targetWord = body.targetWord || getRandomWord()
-  console.log("[wordle] Target word:", targetWord)
+  const wordLength = body.wordLength ?? DEFAULT_WORD_LENGTH
+  if (!isSupportedWordLength(wordLength)) {
+    return new Response(
+      JSON.stringify({ error: `Word length must be one of ${SUPPORTED_WORD_LENGTHS.join(", ")}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  if (body.targetWord && body.targetWord.trim().length !== wordLength) {
+    return new Response(
+      JSON.stringify({ error: `Target word must be exactly ${wordLength} letters` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  const boardCount = body.boardCount ?? 1
+  if (!SUPPORTED_BOARD_COUNTS.includes(boardCount)) {
+    return new Response(
+      JSON.stringify({ error: `Board count must be one of ${SUPPORTED_BOARD_COUNTS.join(", ")}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  if (boardCount > 1 && (body.targetWord || body.includeUser)) {
+    return new Response(
+      JSON.stringify({ error: "Custom target words and playing along are only supported with a single board" }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  // The multi-board engine doesn't check hints, so hard mode would silently be ignored
+  if (boardCount > 1 && body.hardMode && body.hardMode !== "off") {
+    return new Response(
+      JSON.stringify({ error: "Hard mode is only supported with a single board" }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  const host = body.host ?? "fixed"
+  if (!HOST_MODES.includes(host)) {
+    return new Response(
+      JSON.stringify({ error: `Host must be one of ${HOST_MODES.join(", ")}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  // The absurdle host has no word to share or override until the game is over
+  if (host === "absurdle" && (boardCount > 1 || body.targetWord || body.includeUser)) {
+    return new Response(
+      JSON.stringify({ error: "The absurdle host only supports a single board without a custom target word or playing along" }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  const lyingFeedback = body.lyingFeedback === true
+  if (lyingFeedback && (boardCount > 1 || body.includeUser || (body.hardMode && body.hardMode !== "off"))) {
+    return new Response(
+      JSON.stringify({ error: "Lying feedback only supports a single board without hard mode or playing along" }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  if (body.seed !== undefined && (!Number.isInteger(body.seed) || body.seed < 0 || body.seed >= 2 ** 32)) {
+    return new Response(
+      JSON.stringify({ error: "Seed must be an integer between 0 and 4294967295" }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  // The daily word is the same for everyone, so it can't be combined with a custom word or seed
+  if (body.daily && (host === "absurdle" || body.targetWord || body.seed !== undefined)) {
+    return new Response(
+      JSON.stringify({ error: "The daily word can't be combined with the absurdle host, a custom target word or a seed" }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+  const daily = body.daily ? getDailyKey() : undefined
+  const seed = daily ? getDailySeed(daily) : body.seed ?? generateSeed()
+
+  const maxGuesses = body.maxGuesses ?? getDefaultMaxGuesses(boardCount)
+  if (!Number.isInteger(maxGuesses) || maxGuesses < 0 || maxGuesses > UNLIMITED_GUESS_CAP) {
+    return new Response(
+      JSON.stringify({ error: `Guess limit must be between 1 and ${UNLIMITED_GUESS_CAP}, or 0 for unlimited` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  const invalidGuessRetries = body.invalidGuessRetries ?? DEFAULT_INVALID_GUESS_RETRIES
+  if (!Number.isInteger(invalidGuessRetries) || invalidGuessRetries < 0 || invalidGuessRetries > MAX_INVALID_GUESS_RETRIES) {
+    return new Response(
+      JSON.stringify({ error: `Invalid guess retries must be between 0 and ${MAX_INVALID_GUESS_RETRIES}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  // Select target word(s) from the seed - multi-board games get distinct words
+  const targetWords = boardCount > 1 ? getSeededWords(seed, boardCount, wordLength) : undefined
+  const targetWord = host === "absurdle"
+    ? ""
+    : targetWords?.[0] || body.targetWord?.trim().toLowerCase() || getSeededWords(seed, 1, wordLength)[0]
+  console.log("[wordle] Target word:", targetWords?.join(", ") ?? (targetWord || "(absurdle host)"))
+  // Only a seed that picked the word or the lies can replay the race, so only that one is recorded
+  const seedChoseWord = host !== "absurdle" && !body.targetWord
+  const recordedSeed = seedChoseWord || lyingFeedback ? seed : undefined
 
   // Create Wordle config (don't send target word to client initially)
   const wordleConfig: WordleConfig = {
@@ -107,26 +272,49 @@ export async function POST(request: NextRequest) {
     name: body.name || `Wordle Race ${new Date().toLocaleString()}`,
     models,
     targetWord,
-    wordLength: 5,
-    maxGuesses: 6,
+    wordLength,
+    maxGuesses,
+    hardMode: body.hardMode && HARD_MODES.includes(body.hardMode) ? body.hardMode : "off",
+    boardCount,
+    targetWords,
+    host,
+    lyingFeedback,
+    seed: recordedSeed,
+    daily,
+    invalidGuessRetries,
     createdAt: Date.now(),
   }
 
   console.log("[wordle] Starting streamed Wordle race:", wordleConfig.id)
 
+  // Cancel the race (and any in-flight model calls) once the client ends early or disconnects
+  const abortController = new AbortController()
+  request.signal.addEventListener("abort", () => abortController.abort())
+
   const encoder = new TextEncoder()
 
   const stream = new ReadableStream({
+    cancel() {
+      console.log("[wordle] Client disconnected, cancelling race")
+      abortController.abort()
+    },
     async start(controller) {
       try {
         console.log("[wordle] Stream started, sending config...")
-        // Send config - include target word if user is participating
-        const clientConfig: Omit<WordleConfig, "targetWord"> & { targetWord?: string } = {
+        // Send config - include target word if user is participating. The seed picks the hidden
+        // word(s), so it's only sent with the final race result
+        const clientConfig: Omit<WordleConfig, "targetWord" | "targetWords" | "seed"> & { targetWord?: string } = {
           id: wordleConfig.id,
           name: wordleConfig.name,
           models: wordleConfig.models,
           wordLength: wordleConfig.wordLength,
           maxGuesses: wordleConfig.maxGuesses,
+          hardMode: wordleConfig.hardMode,
+          boardCount: wordleConfig.boardCount,
+          host: wordleConfig.host,
+          lyingFeedback: wordleConfig.lyingFeedback,
+          daily: wordleConfig.daily,
+          invalidGuessRetries: wordleConfig.invalidGuessRetries,
           createdAt: wordleConfig.createdAt,
         }
         if (body.includeUser) {
@@ -137,7 +325,7 @@ export async function POST(request: NextRequest) {
         console.log("[wordle] Creating WordleEngine...")
         // Track previous reasoning text per model to send incremental deltas
         const previousReasoning = new Map<string, string>()
-        const engine = new WordleEngine(wordleConfig, {
+        const callbacks: WordleCallbacks = {
           onStateChange: (state: WordleState) => {
             try {
               // Convert Map to object for JSON serialization
@@ -217,20 +405,34 @@ export async function POST(request: NextRequest) {
           onRaceComplete: (result: WordleRaceResult) => {
             try {
               console.log("[wordle] Race complete, sending result")
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "complete", result })}\n\n`))
+              // Lying-feedback results carry each model's honest benchmark average, worked out here
+              // so the client never loads the benchmark file
+              const finalResult: WordleRaceResult = result.lyingFeedback
+                ? {
+                    ...result,
+                    modelResults: result.modelResults.map((modelResult) => ({
+                      ...modelResult,
+                      honestAvgGuesses: getHonestAvgGuesses(modelResult.modelId, wordleConfig),
+                    })),
+                  }
+                : result
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "complete", result: finalResult })}\n\n`))
             } catch (error) {
               console.error("[wordle] Failed to send race complete:", error)
             }
           },
-        })
+        }
+        const engine = boardCount > 1
+          ? new MultiWordleEngine(wordleConfig, callbacks, abortController.signal)
+          : new WordleEngine(wordleConfig, callbacks, abortController.signal)
 
         console.log("[wordle] Starting Wordle engine...")
         // Run race
         await engine.start()
 
         console.log("[wordle] Race complete, closing stream")
-        // Close stream
-        controller.close()
+        // Close stream (a cancelled stream is already closed)
+        if (!abortController.signal.aborted) controller.close()
       } catch (error) {
         console.error("[wordle] Stream error:", error)
         if (error instanceof Error) {
@@ -251,7 +453,7 @@ export async function POST(request: NextRequest) {
         } catch (encodeError) {
           console.error("[wordle] Failed to send error to client:", encodeError)
         }
-        controller.close()
+        if (!abortController.signal.aborted) controller.close()
       }
     },
   })
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { isValidWord } from "@/lib/wordle-words"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/wordle/words/:word
+ * Whether a word is accepted as a guess - the word lists are too big to send to the browser
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ word: string }> }) {
+  const { word } = await params
+  return NextResponse.json({ word, valid: isValidWord(word) })
+}
@@ -1,6 +1,6 @@
 import { Suspense } from "react"
 import { BenchmarkShowcase } from "@/components/benchmark/benchmark-showcase"
-import { loadBenchmarkResults } from "@/lib/benchmark-data"
+import { listRuns, loadSelectedRun } from "@/lib/run-store"
 import type { Metadata } from "next"
 
 export const metadata: Metadata = {
@@ -12,8 +12,11 @@ export const metadata: Metadata = {
   },
 }
 
-export default function HomePage() {
-  const data = loadBenchmarkResults()
+export default async function HomePage({ searchParams }: { searchParams: Promise<{ run?: string }> }) {
+  const { run } = await searchParams
+  const runs = listRuns()
+  // ?run=<id> shows a stored run instead of the published results
+  const { data, selectedRun } = loadSelectedRun(run, runs)
 
   return (
     <Suspense fallback={
@@ -21,7 +24,7 @@ export default function HomePage() {
         <div className="text-muted-foreground">Loading benchmark data...</div>
       </div>
     }>
-      <BenchmarkShowcase data={data} />
+      <BenchmarkShowcase data={data} runs={runs} selectedRun={selectedRun} />
     </Suspense>
   )
 }
@@ -321,6 +321,8 @@ export default function HomePage() {
                     isRunning={isWordleRunning}
                     onSubmitGuess={wordleSubmitUserGuess}
                     targetWord={wordleTargetWord || wordleResult?.targetWord}
+                    wordLength={wordleConfig.wordLength}
+                    maxGuesses={wordleConfig.maxGuesses}
                   />
                 )}
                 
@@ -344,6 +346,9 @@ export default function HomePage() {
                         blurred={wordleIncludeUser && blurAI && wordleState?.status === "running" && (!wordleUserGameState?.solved && !wordleUserGameState?.failed)}
                         currentGuessThinking={wordleCurrentGuessThinking.get(model.id) || ""}
                         gameStartedAt={wordleState.startedAt}
+                        wordLength={wordleConfig.wordLength}
+                        maxGuesses={wordleConfig.maxGuesses}
+                        boardCount={wordleConfig.boardCount}
                       />
                     )
                   })}
@@ -3,6 +3,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { getModelColor } from "@/lib/benchmark-data"
 import type { BenchmarkModelResult } from "@/lib/benchmark-types"
+import type { ConfidenceInterval } from "@/lib/benchmark-stats"
 
 interface BenchmarkBarChartProps {
   title: string
@@ -12,6 +13,7 @@ interface BenchmarkBarChartProps {
   formatValue: (value: number) => string
   invertBar?: boolean // lower is better (e.g., avg guesses)
   maxValue?: number
+  getInterval?: (model: BenchmarkModelResult) => ConfidenceInterval | undefined // drawn as an error bar
 }
 
 export function BenchmarkBarChart({
@@ -22,6 +24,7 @@ export function BenchmarkBarChart({
   formatValue,
   invertBar = false,
   maxValue: customMaxValue,
+  getInterval,
 }: BenchmarkBarChartProps) {
   if (models.length === 0) return null
 
@@ -29,6 +32,15 @@ export function BenchmarkBarChart({
   const maxValue = customMaxValue ?? Math.max(...values)
   const minValue = Math.min(...values)
 
+  // Bar length as a percentage of the track
+  const toWidth = (value: number) =>
+    maxValue > 0
+      ? invertBar
+        ? ((maxValue - value) / (maxValue - minValue || 1)) * 100
+        : (value / maxValue) * 100
+      : 0
+  const clamp = (width: number) => Math.max(0, Math.min(100, width))
+
   // Sort models by value
   const sorted = [...models].sort((a, b) => {
     const va = getValue(a)
@@ -47,12 +59,11 @@ export function BenchmarkBarChart({
       <CardContent className="space-y-2">
         {sorted.map((model, index) => {
           const value = getValue(model)
-          const barWidth = maxValue > 0
-            ? invertBar
-              ? ((maxValue - value) / (maxValue - minValue || 1)) * 100
-              : (value / maxValue) * 100
-            : 0
+          const barWidth = toWidth(value)
           const color = getModelColor(model.id)
+          const interval = getInterval?.(model)
+          // The ends swap places on inverted bars
+          const intervalEnds = interval ? [clamp(toWidth(interval[0])), clamp(toWidth(interval[1]))].sort((a, b) => a - b) : undefined
 
           return (
             <div key={model.id} className="space-y-1">
@@ -63,18 +74,36 @@ export function BenchmarkBarChart({
                   </span>
                   {model.name}
                 </span>
-                <span className="text-muted-foreground whitespace-nowrap font-mono text-xs">
+                <span
+                  className="text-muted-foreground whitespace-nowrap font-mono text-xs"
+                  title={interval ? `95% CI ${formatValue(interval[0])} - ${formatValue(interval[1])}` : undefined}
+                >
                   {formatValue(value)}
+                  {interval && (
+                    <span className="ml-1 opacity-70">
+                      [{formatValue(interval[0])}-{formatValue(interval[1])}]
+                    </span>
+                  )}
                 </span>
               </div>
-              <div className="h-2 bg-muted rounded-full overflow-hidden">
-                <div
-                  className="h-full rounded-full transition-all duration-500"
-                  style={{
-                    width: `${Math.max(2, barWidth)}%`,
-                    backgroundColor: color,
-                  }}
-                />
+              <div className="relative">
+                <div className="h-2 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full rounded-full transition-all duration-500"
+                    style={{
+                      width: `${Math.max(2, barWidth)}%`,
+                      backgroundColor: color,
+                    }}
+                  />
+                </div>
+                {intervalEnds && (
+                  <div
+                    className="absolute top-1/2 h-2.5 -translate-y-1/2 border-x border-foreground/70"
+                    style={{ left: `${intervalEnds[0]}%`, width: `${intervalEnds[1] - intervalEnds[0]}%` }}
+                  >
+                    <div className="absolute inset-x-0 top-1/2 border-t border-foreground/70" />
+                  </div>
+                )}
               </div>
             </div>
           )
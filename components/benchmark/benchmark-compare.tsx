@@ -0,0 +1,146 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { compareModels, SIGNIFICANCE_LEVEL } from "@/lib/benchmark-stats"
+import { getModelColor } from "@/lib/benchmark-data"
+import type { BenchmarkModelResult } from "@/lib/benchmark-types"
+import { Scale } from "lucide-react"
+
+interface BenchmarkCompareProps {
+  models: BenchmarkModelResult[] // in leaderboard order, the first two are compared by default
+}
+
+function formatPValue(p: number): string {
+  return p < 0.001 ? "< 0.001" : p.toFixed(3)
+}
+
+function SignificanceBadge({ pValue }: { pValue: number }) {
+  return pValue < SIGNIFICANCE_LEVEL ? (
+    <Badge variant="outline" className="text-green-500 border-green-500/30">Significant</Badge>
+  ) : (
+    <Badge variant="outline" className="text-muted-foreground">Not significant</Badge>
+  )
+}
+
+export function BenchmarkCompare({ models }: BenchmarkCompareProps) {
+  const [modelAId, setModelAId] = useState(models[0]?.id ?? "")
+  const [modelBId, setModelBId] = useState(models[1]?.id ?? "")
+
+  const modelA = models.find((m) => m.id === modelAId)
+  const modelB = models.find((m) => m.id === modelBId)
+  const comparison = useMemo(
+    () => (modelA && modelB && modelA.id !== modelB.id ? compareModels(modelA, modelB) : undefined),
+    [modelA, modelB]
+  )
+
+  if (models.length < 2) return null
+
+  const select = (id: string, value: string, onChange: (value: string) => void, label: string) => (
+    <div className="space-y-2 flex-1 min-w-0">
+      <Label htmlFor={id}>{label}</Label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full p-2 rounded-lg border border-border bg-muted text-foreground"
+      >
+        {models.map((model) => (
+          <option key={model.id} value={model.id}>
+            {model.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+
+  return (
+    <Card className="bg-card/50 backdrop-blur border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-foreground text-sm sm:text-base">
+          <Scale className="w-5 h-5" />
+          Head-to-Head Comparison
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row gap-3">
+          {select("compare-model-a", modelAId, setModelAId, "Model A")}
+          {select("compare-model-b", modelBId, setModelBId, "Model B")}
+        </div>
+
+        {!comparison ? (
+          <p className="text-sm text-muted-foreground">Pick two different models to compare.</p>
+        ) : comparison.sharedGames === 0 ? (
+          <p className="text-sm text-muted-foreground">These models have no games in common.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Solve outcomes */}
+            <div className="rounded-lg border border-border p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-foreground text-sm">Solve rate</span>
+                <SignificanceBadge pValue={comparison.solves.pValue} />
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div className="text-muted-foreground">Shared games</div>
+                <div className="font-mono text-foreground">{comparison.solves.pairs}</div>
+                <div className="text-muted-foreground">Both solved</div>
+                <div className="font-mono text-foreground">{comparison.solves.bothSolved}</div>
+                <div className="text-muted-foreground">Only <span style={{ color: getModelColor(modelA!.id) }}>{modelA!.name}</span></div>
+                <div className="font-mono text-foreground">{comparison.solves.onlyA}</div>
+                <div className="text-muted-foreground">Only <span style={{ color: getModelColor(modelB!.id) }}>{modelB!.name}</span></div>
+                <div className="font-mono text-foreground">{comparison.solves.onlyB}</div>
+                <div className="text-muted-foreground">Difference (A - B)</div>
+                <div className="font-mono text-foreground">
+                  {comparison.solves.winRateDifference > 0 ? "+" : ""}
+                  {comparison.solves.winRateDifference.toFixed(1)} pts
+                </div>
+                <div className="text-muted-foreground">Odds ratio</div>
+                <div className="font-mono text-foreground">
+                  {comparison.solves.oddsRatio === undefined
+                    ? "-"
+                    : Number.isFinite(comparison.solves.oddsRatio)
+                      ? comparison.solves.oddsRatio.toFixed(2)
+                      : "∞"}
+                </div>
+                <div className="text-muted-foreground">McNemar p</div>
+                <div className="font-mono text-foreground">{formatPValue(comparison.solves.pValue)}</div>
+              </div>
+            </div>
+
+            {/* Guess counts */}
+            <div className="rounded-lg border border-border p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-foreground text-sm">Guesses when both solved</span>
+                {comparison.guesses && <SignificanceBadge pValue={comparison.guesses.pValue} />}
+              </div>
+              {comparison.guesses ? (
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <div className="text-muted-foreground">Games</div>
+                  <div className="font-mono text-foreground">{comparison.guesses.pairs}</div>
+                  <div className="text-muted-foreground">Mean difference (A - B)</div>
+                  <div className="font-mono text-foreground">
+                    {comparison.guesses.meanDifference > 0 ? "+" : ""}
+                    {comparison.guesses.meanDifference.toFixed(2)}
+                  </div>
+                  <div className="text-muted-foreground">Rank-biserial r</div>
+                  <div className="font-mono text-foreground">{comparison.guesses.rankBiserial.toFixed(2)}</div>
+                  <div className="text-muted-foreground">Permutation p</div>
+                  <div className="font-mono text-foreground">{formatPValue(comparison.guesses.pValue)}</div>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">No shared game was solved by both models.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Paired tests on the games both models played. Differences are significant at p &lt; {SIGNIFICANCE_LEVEL}; negative
+          guess differences favour model A. With many pairs compared, some will look significant by chance.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,7 +3,8 @@
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { BarChart3 } from "lucide-react"
-import { getModelColor } from "@/lib/benchmark-data"
+import { getModelColor, getGuessBuckets } from "@/lib/benchmark-data"
+import { DEFAULT_MAX_GUESSES } from "@/lib/wordle-utils"
 import type { BenchmarkModelResult } from "@/lib/benchmark-types"
 import {
   BarChart,
@@ -30,11 +31,13 @@ function useIsMobile(breakpoint = 640) {
 interface BenchmarkGuessDistributionProps {
   models: BenchmarkModelResult[]
   topN?: number
+  maxGuesses?: number // 0 = unlimited
 }
 
 export function BenchmarkGuessDistribution({
   models,
   topN = 8,
+  maxGuesses = DEFAULT_MAX_GUESSES,
 }: BenchmarkGuessDistributionProps) {
   const isMobile = useIsMobile()
   const effectiveTopN = isMobile ? Math.min(topN, 5) : topN
@@ -48,13 +51,10 @@ export function BenchmarkGuessDistribution({
   if (topModels.length === 0) return null
 
   // Build chart data: one entry per guess count
-  const chartData = [1, 2, 3, 4, 5, 6].map((guessNum) => {
+  const chartData = getGuessBuckets(topModels, maxGuesses).map((guessNum) => {
     const entry: Record<string, number | string> = { guess: `${guessNum}` }
     topModels.forEach((model) => {
-      entry[model.name] =
-        model.stats.guessDistribution[
-          guessNum as keyof typeof model.stats.guessDistribution
-        ] || 0
+      entry[model.name] = model.stats.guessDistribution[guessNum] || 0
     })
     return entry
   })
@@ -4,20 +4,22 @@ import { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { getModelColor } from "@/lib/benchmark-data"
+import { getModelColor, getGuessBuckets } from "@/lib/benchmark-data"
+import { DEFAULT_MAX_GUESSES } from "@/lib/wordle-utils"
 import type { BenchmarkModelResult, BenchmarkLeaderboardEntry } from "@/lib/benchmark-types"
 import { ChevronDown, ChevronUp, ArrowUpDown, Eye, EyeOff } from "lucide-react"
 import { cn } from "@/lib/utils"
 
-type SortKey = "rank" | "winRate" | "avgGuesses" | "medianTimeMs" | "totalCost" | "score" | "tokens"
+type SortKey = "rank" | "winRate" | "avgGuesses" | "medianTimeMs" | "totalCost" | "score" | "tokens" | "consistencyRate" | "rating"
 type SortDir = "asc" | "desc"
 
 interface BenchmarkLeaderboardProps {
   leaderboard: BenchmarkLeaderboardEntry[]
   models: BenchmarkModelResult[]
+  maxGuesses?: number // 0 = unlimited
 }
 
-export function BenchmarkLeaderboard({ leaderboard, models }: BenchmarkLeaderboardProps) {
+export function BenchmarkLeaderboard({ leaderboard, models, maxGuesses = DEFAULT_MAX_GUESSES }: BenchmarkLeaderboardProps) {
   const [sortKey, setSortKey] = useState<SortKey>("rank")
   const [sortDir, setSortDir] = useState<SortDir>("asc")
   const [expandedModel, setExpandedModel] = useState<string | null>(null)
@@ -50,6 +52,8 @@ export function BenchmarkLeaderboard({ leaderboard, models }: BenchmarkLeaderboa
       case "medianTimeMs": va = a.medianTimeMs; vb = b.medianTimeMs; break
       case "totalCost": va = a.totalCost; vb = b.totalCost; break
       case "score": va = a.score; vb = b.score; break
+      case "consistencyRate": va = a.consistencyRate ?? -1; vb = b.consistencyRate ?? -1; break
+      case "rating": va = a.rating ?? -Infinity; vb = b.rating ?? -Infinity; break
       case "tokens":
         const ma = models.find(m => m.id === a.modelId)
         const mb = models.find(m => m.id === b.modelId)
@@ -112,7 +116,7 @@ export function BenchmarkLeaderboard({ leaderboard, models }: BenchmarkLeaderboa
       </CardHeader>
       <CardContent>
         {/* Table header */}
-        <div className="grid grid-cols-[1.25rem_1fr_2.5rem_2.5rem_2.5rem] sm:grid-cols-[3rem_1fr_5rem_5rem_5rem_5rem_5rem] gap-1.5 sm:gap-2 pb-2 border-b border-border mb-2">
+        <div className="grid grid-cols-[1.25rem_1fr_2.5rem_2.5rem_2.5rem] sm:grid-cols-[3rem_1fr_5rem_5rem_5rem_5rem_5rem_5rem_5rem] gap-1.5 sm:gap-2 pb-2 border-b border-border mb-2">
           <SortHeader label="#" colKey="rank" />
           <span className="text-xs font-medium text-muted-foreground">Model</span>
           <SortHeader label="Win" colKey="winRate" className="sm:hidden" />
@@ -121,6 +125,8 @@ export function BenchmarkLeaderboard({ leaderboard, models }: BenchmarkLeaderboa
           <SortHeader label="Guesses" colKey="avgGuesses" className="hidden sm:flex" />
           <SortHeader label="Time" colKey="medianTimeMs" className="hidden sm:flex" />
           <SortHeader label="Tokens" colKey="tokens" className="hidden sm:flex" />
+          <SortHeader label="Consist." colKey="consistencyRate" className="hidden sm:flex" />
+          <SortHeader label="Rating" colKey="rating" className="hidden sm:flex" />
           <SortHeader label="Sc." colKey="score" className="sm:hidden" />
           <SortHeader label="Score" colKey="score" className="hidden sm:flex" />
         </div>
@@ -136,7 +142,7 @@ export function BenchmarkLeaderboard({ leaderboard, models }: BenchmarkLeaderboa
               <div key={entry.modelId}>
                 <button
                   onClick={() => setExpandedModel(isExpanded ? null : entry.modelId)}
-                  className="w-full grid grid-cols-[1.25rem_1fr_2.5rem_2.5rem_2.5rem] sm:grid-cols-[3rem_1fr_5rem_5rem_5rem_5rem_5rem] gap-1.5 sm:gap-2 items-center py-2 px-1 rounded hover:bg-muted/50 transition-colors text-left"
+                  className="w-full grid grid-cols-[1.25rem_1fr_2.5rem_2.5rem_2.5rem] sm:grid-cols-[3rem_1fr_5rem_5rem_5rem_5rem_5rem_5rem_5rem] gap-1.5 sm:gap-2 items-center py-2 px-1 rounded hover:bg-muted/50 transition-colors text-left"
                 >
                   <div>{getRankBadge(entry.rank)}</div>
                   <div className="flex items-center gap-1.5 sm:gap-2 min-w-0">
@@ -147,16 +153,37 @@ export function BenchmarkLeaderboard({ leaderboard, models }: BenchmarkLeaderboa
                     <span className="text-xs sm:text-sm font-medium text-foreground break-words line-clamp-2 sm:truncate">
                       {entry.modelName}
                     </span>
+                    {entry.baseline && (
+                      <Badge variant="secondary" className="hidden sm:inline-flex text-[10px] px-1.5 py-0">
+                        Baseline
+                      </Badge>
+                    )}
                     {isExpanded
                       ? <ChevronUp className="w-3 h-3 text-muted-foreground flex-shrink-0" />
                       : <ChevronDown className="w-3 h-3 text-muted-foreground flex-shrink-0" />
                     }
                   </div>
-                  <div className="text-xs sm:text-sm text-foreground font-mono">
+                  <div
+                    className="text-xs sm:text-sm text-foreground font-mono"
+                    title={entry.winRateCI ? `95% CI ${entry.winRateCI[0].toFixed(0)}-${entry.winRateCI[1].toFixed(0)}%` : undefined}
+                  >
                     {entry.winRate != null ? `${entry.winRate.toFixed(0)}%` : "-"}
+                    {entry.winRateCI && (
+                      <div className="hidden sm:block text-[10px] text-muted-foreground">
+                        {entry.winRateCI[0].toFixed(0)}-{entry.winRateCI[1].toFixed(0)}
+                      </div>
+                    )}
                   </div>
-                  <div className="text-xs sm:text-sm text-foreground font-mono">
+                  <div
+                    className="text-xs sm:text-sm text-foreground font-mono"
+                    title={entry.avgGuessesCI ? `95% CI ${entry.avgGuessesCI[0].toFixed(2)}-${entry.avgGuessesCI[1].toFixed(2)}` : undefined}
+                  >
                     {entry.avgGuesses != null ? entry.avgGuesses.toFixed(2) : "-"}
+                    {entry.avgGuessesCI && (
+                      <div className="hidden sm:block text-[10px] text-muted-foreground">
+                        {entry.avgGuessesCI[0].toFixed(1)}-{entry.avgGuessesCI[1].toFixed(1)}
+                      </div>
+                    )}
                   </div>
                   <div className="hidden sm:block text-sm text-foreground font-mono">
                     {entry.medianTimeMs != null && entry.medianTimeMs > 0 ? `${(entry.medianTimeMs / 1000).toFixed(1)}s` : "-"}
@@ -167,6 +194,23 @@ export function BenchmarkLeaderboard({ leaderboard, models }: BenchmarkLeaderboa
                       : "-"
                     }
                   </div>
+                  <div
+                    className="hidden sm:block text-sm text-foreground font-mono"
+                    title="Guesses that respected every hint shown so far"
+                  >
+                    {entry.consistencyRate != null ? `${entry.consistencyRate.toFixed(0)}%` : "-"}
+                  </div>
+                  <div
+                    className="hidden sm:block text-sm text-foreground font-mono"
+                    title={entry.rating != null
+                      ? `Head-to-head rating #${entry.ratingRank}, 95% interval ±${entry.ratingError?.toFixed(0)}`
+                      : undefined}
+                  >
+                    {entry.rating != null ? entry.rating.toFixed(0) : "-"}
+                    {entry.ratingError != null && (
+                      <div className="text-[10px] text-muted-foreground">±{entry.ratingError.toFixed(0)}</div>
+                    )}
+                  </div>
                   <div className="text-xs sm:text-sm font-bold font-mono" style={{ color }}>
                     {entry.score != null ? entry.score.toFixed(1) : "-"}
                   </div>
@@ -181,8 +225,8 @@ export function BenchmarkLeaderboard({ leaderboard, models }: BenchmarkLeaderboa
                         Guess Distribution
                       </h4>
                       <div className="space-y-1">
-                        {([1, 2, 3, 4, 5, 6] as const).map((n) => {
-                          const count = modelData.stats.guessDistribution[n]
+                        {getGuessBuckets([modelData], maxGuesses).map((n) => {
+                          const count = modelData.stats.guessDistribution[n] ?? 0
                           const maxCount = Math.max(
                             ...Object.values(modelData.stats.guessDistribution)
                           )
@@ -240,6 +284,40 @@ export function BenchmarkLeaderboard({ leaderboard, models }: BenchmarkLeaderboa
                           }
                         </div>
                       </div>
+                      {modelData.stats.totalReasoningTokens !== undefined && (
+                        <div>
+                          <div className="text-muted-foreground" title="Part of the total spent on hidden reasoning">Reasoning Tokens</div>
+                          <div className="font-medium text-foreground">
+                            {modelData.stats.totalReasoningTokens.toLocaleString()}
+                            {modelData.stats.totalTokens > 0 &&
+                              ` (${((modelData.stats.totalReasoningTokens / modelData.stats.totalTokens) * 100).toFixed(0)}%)`}
+                          </div>
+                        </div>
+                      )}
+                      {modelData.stats.totalCachedPromptTokens !== undefined && (
+                        <div>
+                          <div className="text-muted-foreground" title="Prompt tokens served from the provider's cache">Cached Tokens</div>
+                          <div className="font-medium text-foreground">{modelData.stats.totalCachedPromptTokens.toLocaleString()}</div>
+                        </div>
+                      )}
+                      <div>
+                        <div className="text-muted-foreground" title="Expected information of each guess as a share of the best guess">Guess Skill</div>
+                        <div className="font-medium text-foreground">
+                          {modelData.stats.avgSkill !== undefined
+                            ? `${modelData.stats.avgSkill.toFixed(0)}%`
+                            : "N/A"
+                          }
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-muted-foreground" title="Bits per guess gained beyond what was expected">Luck</div>
+                        <div className="font-medium text-foreground">
+                          {modelData.stats.avgLuck !== undefined
+                            ? `${modelData.stats.avgLuck >= 0 ? "+" : ""}${modelData.stats.avgLuck.toFixed(2)} bits`
+                            : "N/A"
+                          }
+                        </div>
+                      </div>
                     </div>
                   </div>
                 )}
@@ -11,12 +11,16 @@ import { BenchmarkPodium } from "./benchmark-podium"
 import { BenchmarkLeaderboard } from "./benchmark-leaderboard"
 import { BenchmarkGuessDistribution } from "./benchmark-guess-distribution"
 import { BenchmarkWordDifficulty } from "./benchmark-word-difficulty"
+import { BenchmarkCompare } from "./benchmark-compare"
 import {
   filterValidModels,
   computeBenchmarkAnalysis,
   buildLeaderboard,
+  getBenchmarkMaxGuesses,
+  getGuessBuckets,
 } from "@/lib/benchmark-data"
 import type { BenchmarkResults, BenchmarkTab } from "@/lib/benchmark-types"
+import type { RunSummary } from "@/lib/run-store"
 import {
   Trophy,
   Target,
@@ -26,29 +30,49 @@ import {
   Zap,
   Grid3x3,
   Download,
+  Scale,
 } from "lucide-react"
 import Link from "next/link"
 
 interface BenchmarkShowcaseProps {
   data: BenchmarkResults
+  runs?: RunSummary[] // stored runs for the run selector, newest first
+  selectedRun?: string // stored run being shown, undefined = published results
 }
 
-export function BenchmarkShowcase({ data }: BenchmarkShowcaseProps) {
+function buildUrl(tab: BenchmarkTab, run?: string): string {
+  const params = new URLSearchParams()
+  if (tab !== "overview") params.set("tab", tab)
+  if (run) params.set("run", run)
+  const query = params.toString()
+  return query ? `/?${query}` : "/"
+}
+
+export function BenchmarkShowcase({ data, runs = [], selectedRun }: BenchmarkShowcaseProps) {
   const searchParams = useSearchParams()
   const router = useRouter()
   const initialTab = (searchParams.get("tab") as BenchmarkTab) || "overview"
   const [activeTab, setActiveTab] = useState<BenchmarkTab>(initialTab)
 
+  const maxGuesses = getBenchmarkMaxGuesses(data)
   const validModels = useMemo(() => filterValidModels(data.models), [data.models])
-  const leaderboard = useMemo(() => buildLeaderboard(validModels), [validModels])
+  const leaderboard = useMemo(() => buildLeaderboard(validModels, maxGuesses), [validModels, maxGuesses])
   const analysis = useMemo(() => computeBenchmarkAnalysis(data), [data])
-  const allLeaderboard = useMemo(() => buildLeaderboard(data.models), [data.models])
+  const allLeaderboard = useMemo(() => buildLeaderboard(data.models, maxGuesses), [data.models, maxGuesses])
+  const guessBuckets = useMemo(() => getGuessBuckets(validModels, maxGuesses), [validModels, maxGuesses])
+  const rankedModels = useMemo(
+    () => allLeaderboard.flatMap((entry) => data.models.filter((m) => m.id === entry.modelId)),
+    [allLeaderboard, data.models]
+  )
 
   const handleTabChange = (value: string) => {
     const tab = value as BenchmarkTab
     setActiveTab(tab)
-    const url = tab === "overview" ? "/" : `/?tab=${tab}`
-    router.replace(url, { scroll: false })
+    router.replace(buildUrl(tab, selectedRun), { scroll: false })
+  }
+
+  const handleRunChange = (runId: string) => {
+    router.push(buildUrl(activeTab, runId || undefined), { scroll: false })
   }
 
   const handleExport = () => {
@@ -91,6 +115,22 @@ export function BenchmarkShowcase({ data }: BenchmarkShowcaseProps) {
             </div>
 
             <div className="flex items-center gap-2">
+              {runs.length > 0 && (
+                <select
+                  aria-label="Benchmark run"
+                  value={selectedRun ?? ""}
+                  onChange={(e) => handleRunChange(e.target.value)}
+                  className="p-1.5 rounded-lg border border-border bg-muted text-foreground text-xs max-w-[12rem]"
+                >
+                  <option value="">Published results</option>
+                  {runs.map((run) => (
+                    <option key={run.id} value={run.id}>
+                      {new Date(run.runDate).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" })}
+                      {" "}&middot; {run.totalModels} models
+                    </option>
+                  ))}
+                </select>
+              )}
               <Button asChild variant="ghost" size="sm">
                 <Link href="/race" className="flex items-center gap-2">
                   <Grid3x3 className="w-4 h-4" />
@@ -137,6 +177,10 @@ export function BenchmarkShowcase({ data }: BenchmarkShowcaseProps) {
               <Zap className="w-3 h-3 sm:w-4 sm:h-4" />
               Combined
             </TabsTrigger>
+            <TabsTrigger value="compare" className="gap-1 text-xs sm:text-sm">
+              <Scale className="w-3 h-3 sm:w-4 sm:h-4" />
+              Compare
+            </TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -204,6 +248,7 @@ export function BenchmarkShowcase({ data }: BenchmarkShowcaseProps) {
             <BenchmarkLeaderboard
               leaderboard={allLeaderboard}
               models={data.models}
+              maxGuesses={maxGuesses}
             />
 
             {/* Word difficulty */}
@@ -222,6 +267,7 @@ export function BenchmarkShowcase({ data }: BenchmarkShowcaseProps) {
               getValue={(m) => m.stats.winRate}
               formatValue={(v) => `${v.toFixed(0)}%`}
               maxValue={100}
+              getInterval={(m) => leaderboard.find((e) => e.modelId === m.id)?.winRateCI}
             />
           </TabsContent>
 
@@ -234,9 +280,10 @@ export function BenchmarkShowcase({ data }: BenchmarkShowcaseProps) {
               getValue={(m) => m.stats.avgGuesses}
               formatValue={(v) => v.toFixed(2)}
               invertBar={true}
-              maxValue={6}
+              maxValue={guessBuckets.length}
+              getInterval={(m) => leaderboard.find((e) => e.modelId === m.id)?.avgGuessesCI}
             />
-            <BenchmarkGuessDistribution models={validModels} />
+            <BenchmarkGuessDistribution models={validModels} maxGuesses={maxGuesses} />
           </TabsContent>
 
           {/* Speed Tab */}
@@ -278,8 +325,14 @@ export function BenchmarkShowcase({ data }: BenchmarkShowcaseProps) {
             <BenchmarkLeaderboard
               leaderboard={allLeaderboard}
               models={data.models}
+              maxGuesses={maxGuesses}
             />
           </TabsContent>
+
+          {/* Compare Tab */}
+          <TabsContent value="compare" className="mt-6">
+            <BenchmarkCompare models={rankedModels} />
+          </TabsContent>
         </Tabs>
       </div>
 
@@ -9,22 +9,35 @@ import { Input } from "./ui/input"
 import { Button } from "./ui/button"
 import { CheckCircle2, XCircle, Send, Clock } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { formatGuessLimit, getGuessLimit } from "@/lib/wordle-utils"
 
 interface UserWordleLaneProps {
   gameState: WordleGameState
   isRunning: boolean
   onSubmitGuess: (word: string) => void
   targetWord?: string | null // Only shown after race completes
+  wordLength?: number
+  maxGuesses?: number
 }
 
-export function UserWordleLane({ gameState, isRunning, onSubmitGuess, targetWord }: UserWordleLaneProps) {
+// The word lists stay on the server, so guesses are checked there
+async function isDictionaryWord(word: string): Promise<boolean> {
+  const response = await fetch(`/api/wordle/words/${encodeURIComponent(word)}`)
+  if (!response.ok) throw new Error(`Word check failed (${response.status})`)
+  const { valid } = (await response.json()) as { valid: boolean }
+  return valid
+}
+
+export function UserWordleLane({ gameState, isRunning, onSubmitGuess, targetWord, wordLength = 5, maxGuesses = 6 }: UserWordleLaneProps) {
   const [inputValue, setInputValue] = useState("")
   const [error, setError] = useState("")
+  const [checking, setChecking] = useState(false)
 
-  const handleSubmit = (e?: React.FormEvent) => {
+  const handleSubmit = async (e?: React.FormEvent) => {
     if (e) {
       e.preventDefault()
     }
+    if (checking) return
     
     const trimmed = inputValue.trim().toLowerCase()
     
@@ -33,12 +46,12 @@ export function UserWordleLane({ gameState, isRunning, onSubmitGuess, targetWord
       return
     }
     
-    if (trimmed.length !== 5) {
-      setError("Word must be exactly 5 letters")
+    if (trimmed.length !== wordLength) {
+      setError(`Word must be exactly ${wordLength} letters`)
       return
     }
     
-    if (!/^[a-z]{5}$/.test(trimmed)) {
+    if (!/^[a-z]+$/.test(trimmed)) {
       setError("Word must contain only letters")
       return
     }
@@ -48,6 +61,21 @@ export function UserWordleLane({ gameState, isRunning, onSubmitGuess, targetWord
       return
     }
 
+    if (trimmed !== targetWord.toLowerCase()) {
+      setChecking(true)
+      try {
+        if (!(await isDictionaryWord(trimmed))) {
+          setError("Not in word list")
+          return
+        }
+      } catch {
+        setError("Couldn't check the word, try again")
+        return
+      } finally {
+        setChecking(false)
+      }
+    }
+
     setError("")
     onSubmitGuess(trimmed)
     setInputValue("")
@@ -60,7 +88,7 @@ export function UserWordleLane({ gameState, isRunning, onSubmitGuess, targetWord
     }
   }
 
-  const canGuess = isRunning && !gameState.solved && !gameState.failed && gameState.guesses.length < 6
+  const canGuess = isRunning && !gameState.solved && !gameState.failed && gameState.guesses.length < getGuessLimit(maxGuesses)
 
   return (
     <Card className="bg-card/50 backdrop-blur border-border border-2 border-primary/50">
@@ -84,7 +112,7 @@ export function UserWordleLane({ gameState, isRunning, onSubmitGuess, targetWord
           </div>
 
           {/* Wordle board */}
-          <WordleBoard gameState={gameState} isRunning={canGuess} />
+          <WordleBoard gameState={gameState} isRunning={canGuess} wordLength={wordLength} maxGuesses={maxGuesses} />
 
           {/* Guess input */}
           {canGuess && (
@@ -93,13 +121,13 @@ export function UserWordleLane({ gameState, isRunning, onSubmitGuess, targetWord
                 <Input
                   value={inputValue}
                   onChange={(e) => {
-                    const trimmed = e.target.value.replace(/[^a-zA-Z]/g, "").toLowerCase().slice(0, 5)
+                    const trimmed = e.target.value.replace(/[^a-zA-Z]/g, "").toLowerCase().slice(0, wordLength)
                     setInputValue(trimmed)
                     setError("")
                   }}
                   onKeyDown={handleKeyDown}
-                  placeholder="Enter 5-letter word"
-                  maxLength={5}
+                  placeholder={`Enter ${wordLength}-letter word`}
+                  maxLength={wordLength}
                   autoComplete="off"
                   spellCheck={false}
                   className={cn(
@@ -110,7 +138,7 @@ export function UserWordleLane({ gameState, isRunning, onSubmitGuess, targetWord
                 />
                 <Button
                   type="submit"
-                  disabled={inputValue.length !== 5 || !canGuess || !targetWord}
+                  disabled={inputValue.length !== wordLength || !canGuess || !targetWord || checking}
                   className="bg-primary text-primary-foreground hover:bg-primary/90"
                 >
                   <Send className="w-4 h-4" />
@@ -132,7 +160,7 @@ export function UserWordleLane({ gameState, isRunning, onSubmitGuess, targetWord
             <div className="flex items-center gap-1">
               <span>Guesses:</span>
               <span className="font-semibold text-foreground">
-                {gameState.guesses.length}/6
+                {gameState.guesses.length}/{formatGuessLimit(maxGuesses)}
               </span>
             </div>
             {(gameState.timeToSolveMs !== undefined || gameState.guesses.length > 0) && (
@@ -2,15 +2,23 @@
 
 import type { WordleGameState, WordleFeedback } from "@/lib/types"
 import { cn } from "@/lib/utils"
+import { summarizeBoards } from "@/lib/wordle-utils"
 
 interface WordleBoardProps {
   gameState: WordleGameState
   isRunning: boolean
+  wordLength?: number
+  maxGuesses?: number // 0 = unlimited
+  compact?: boolean // small tiles for multi-board layouts
 }
 
-export function WordleBoard({ gameState, isRunning }: WordleBoardProps) {
-  const rows = Array(6).fill(null)
-  const cols = Array(5).fill(null)
+export function WordleBoard({ gameState, isRunning, wordLength = 5, maxGuesses = 6, compact = false }: WordleBoardProps) {
+  const cols = Array(wordLength).fill(null)
+  // Shrink tiles for longer words so lanes keep their width
+  const tileSize = compact
+    ? wordLength <= 5 ? "w-6 h-6 text-xs" : "w-5 h-5 text-[10px]"
+    : wordLength <= 5 ? "w-12 h-12 text-lg" : wordLength === 6 ? "w-10 h-10 text-base" : "w-8 h-8 text-sm"
+  const gap = compact ? "gap-0.5" : "gap-1.5"
 
   const getTileColor = (feedback: WordleFeedback | null): string => {
     if (!feedback) {
@@ -33,26 +41,51 @@ export function WordleBoard({ gameState, isRunning }: WordleBoardProps) {
     )
     .sort((a, b) => a.guessIndex - b.guessIndex)
 
+  // Unlimited games grow one row at a time instead of showing a fixed grid
+  const rowCount = maxGuesses > 0 ? maxGuesses : Math.max(6, sortedGuesses.length + (isRunning ? 1 : 0))
+  const rows = Array(rowCount).fill(null)
+
   return (
-    <div className="grid grid-rows-6 gap-1.5 p-2">
+    <div className={cn("grid", gap, compact ? "p-1" : "p-2")}>
       {rows.map((_, rowIndex) => {
         const guess = sortedGuesses[rowIndex]
         const isCurrentRow = rowIndex === sortedGuesses.length && isRunning && !gameState.solved && !gameState.failed
+        const brokeHardMode = !!guess?.hardModeViolations?.length
+        const invalid = !!guess?.invalid
 
         return (
-          <div key={rowIndex} className="grid grid-cols-5 gap-1.5">
+          <div
+            key={rowIndex}
+            className={cn(
+              "grid",
+              gap,
+              brokeHardMode && "rounded ring-2 ring-red-500/60 ring-offset-1",
+              invalid && "rounded ring-2 ring-amber-500/60 ring-offset-1",
+            )}
+            style={{ gridTemplateColumns: `repeat(${wordLength}, minmax(0, 1fr))` }}
+            title={
+              invalid
+                ? `Invalid guess: ${guess!.invalidReason ?? "not accepted"}`
+                : brokeHardMode ? `Hard mode: ${guess!.hardModeViolations!.join("; ")}` : undefined
+            }
+          >
             {cols.map((_, colIndex) => {
               const feedback = guess?.feedback[colIndex] || null
               const letter = guess?.word[colIndex]?.toUpperCase() || ""
+              const lied = guess?.lieIndex === colIndex
 
               return (
                 <div
                   key={colIndex}
                   className={cn(
-                    "w-12 h-12 border-2 rounded flex items-center justify-center font-bold text-lg transition-all duration-300",
+                    "border-2 rounded flex items-center justify-center font-bold transition-all duration-300",
+                    tileSize,
                     getTileColor(feedback),
+                    (guess?.rejected || invalid) && "line-through opacity-60",
                     isCurrentRow && "border-primary/50 animate-pulse",
+                    lied && "border-dashed border-red-500",
                   )}
+                  title={lied ? `Lie: shown to the model as ${guess!.shownFeedback![colIndex]}` : undefined}
                 >
                   {letter}
                 </div>
@@ -65,3 +98,50 @@ export function WordleBoard({ gameState, isRunning }: WordleBoardProps) {
   )
 }
 
+
+interface MultiWordleBoardProps {
+  gameState: WordleGameState
+  isRunning: boolean
+  boardCount: number
+  wordLength?: number
+  maxGuesses?: number // 0 = unlimited
+}
+
+/**
+ * Dordle/Quordle/Octordle layout: one compact board per hidden word
+ * Each board shows the shared guesses up to the one that solved it
+ */
+export function MultiWordleBoard({ gameState, isRunning, boardCount, wordLength = 5, maxGuesses = 6 }: MultiWordleBoardProps) {
+  const { solvedAtGuess } = summarizeBoards(gameState.guesses, boardCount)
+
+  return (
+    <div className={cn("grid gap-2", boardCount >= 8 ? "grid-cols-4" : "grid-cols-2")}>
+      {Array.from({ length: boardCount }, (_, board) => {
+        const solved = solvedAtGuess[board] !== undefined
+        const boardState: WordleGameState = {
+          ...gameState,
+          guesses: gameState.guesses
+            .filter((guess) => (guess.boardFeedback?.[board]?.length ?? 0) > 0)
+            .map((guess) => ({ ...guess, feedback: guess.boardFeedback![board] })),
+          solved,
+        }
+
+        return (
+          <div
+            key={board}
+            className={cn("rounded border", solved ? "border-green-500/60" : "border-border")}
+            title={`Board ${board + 1}${solved ? ` - solved in ${solvedAtGuess[board]}` : ""}`}
+          >
+            <WordleBoard
+              gameState={boardState}
+              isRunning={isRunning && !solved}
+              wordLength={wordLength}
+              maxGuesses={maxGuesses}
+              compact
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -34,7 +34,7 @@ export function WordleHowItWorks() {
                 <h3 className="font-semibold text-foreground mb-2">Overview</h3>
                 <p className="text-sm text-muted-foreground">
                   In Wordle Mode, multiple AI models race to solve the same 5-letter word puzzle. Each model gets up to 6
-                  guesses, and after each guess, they receive Wordle-style feedback:
+                  guesses by default (8, 10 or unlimited can be picked in setup), and after each guess, they receive Wordle-style feedback:
                 </p>
                 <ul className="list-disc list-inside text-sm text-muted-foreground mt-2 space-y-1">
                   <li>
@@ -150,10 +150,10 @@ Your next guess (output only the 5-letter word):`}
                 <h3 className="font-semibold text-foreground mb-2">Technical Details</h3>
                 <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
                   <li>Each model runs independently and in parallel</li>
-                  <li>Guesses are validated to ensure they're 5-letter words</li>
+                  <li>Guesses are validated to ensure they have the right number of letters</li>
                   <li>Feedback is computed using standard Wordle rules</li>
                   <li>All models solve the same randomly selected target word</li>
-                  <li>The target word is chosen from a curated list of common 5-letter words</li>
+                  <li>The target word is chosen from a curated list of common 4- to 8-letter words (5 by default)</li>
                 </ul>
               </div>
             </div>
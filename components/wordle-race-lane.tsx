@@ -2,12 +2,13 @@
 
 import { useState, useEffect, useRef } from "react"
 import type { ModelConfig, WordleGameState } from "@/lib/types"
-import { WordleBoard } from "./wordle-board"
+import { WordleBoard, MultiWordleBoard } from "./wordle-board"
 import { Card, CardContent } from "./ui/card"
 import { Badge } from "./ui/badge"
 import { CheckCircle2, XCircle, Clock, Loader2, ChevronDown, ChevronUp } from "lucide-react"
 import { cn } from "@/lib/utils"
-import { MODEL_COLORS } from "@/lib/constants"
+import { MODEL_COLORS, isBaselineModel } from "@/lib/constants"
+import { formatGuessLimit, summarizeBoards } from "@/lib/wordle-utils"
 
 interface WordleRaceLaneProps {
   model: ModelConfig
@@ -17,9 +18,12 @@ interface WordleRaceLaneProps {
   blurred?: boolean
   currentGuessThinking?: string
   gameStartedAt?: number
+  wordLength?: number
+  maxGuesses?: number
+  boardCount?: number
 }
 
-export function WordleRaceLane({ model, gameState, isRunning, isModelWorking, blurred = false, currentGuessThinking = "", gameStartedAt }: WordleRaceLaneProps) {
+export function WordleRaceLane({ model, gameState, isRunning, isModelWorking, blurred = false, currentGuessThinking = "", gameStartedAt, wordLength = 5, maxGuesses = 6, boardCount = 1 }: WordleRaceLaneProps) {
   const [showThinking, setShowThinking] = useState(false)
   const [liveTime, setLiveTime] = useState(0)
   const color = MODEL_COLORS[model.id] || "#6366f1"
@@ -95,6 +99,7 @@ export function WordleRaceLane({ model, gameState, isRunning, isModelWorking, bl
   }, []) // Empty dependency array - interval runs continuously, refs provide latest values
   
   const totalTime = liveTime
+  const hardModeViolations = gameState.guesses.filter((g) => g.hardModeViolations && g.hardModeViolations.length > 0).length
   const baseModelId = model.baseModelId || model.id
   const hasThinkingText = currentGuessThinking.trim().length > 0
   const isThinkingEnabled = model.enableThinking === true
@@ -121,6 +126,11 @@ export function WordleRaceLane({ model, gameState, isRunning, isModelWorking, bl
             <div className="flex items-center gap-2">
               <div className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
               <span className="font-semibold text-foreground">{model.name || model.id}</span>
+              {isBaselineModel(model) && (
+                <Badge variant="secondary" className="text-xs">
+                  Baseline
+                </Badge>
+              )}
             </div>
             <div className="flex items-center gap-2">
               {isModelWorking && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
@@ -135,14 +145,29 @@ export function WordleRaceLane({ model, gameState, isRunning, isModelWorking, bl
           </div>
 
           {/* Wordle board */}
-          <WordleBoard gameState={gameState} isRunning={isRunning && !gameState.solved && !gameState.failed} />
+          {boardCount > 1 ? (
+            <MultiWordleBoard
+              gameState={gameState}
+              isRunning={isRunning && !gameState.solved && !gameState.failed}
+              boardCount={boardCount}
+              wordLength={wordLength}
+              maxGuesses={maxGuesses}
+            />
+          ) : (
+            <WordleBoard
+              gameState={gameState}
+              isRunning={isRunning && !gameState.solved && !gameState.failed}
+              wordLength={wordLength}
+              maxGuesses={maxGuesses}
+            />
+          )}
 
           {/* Stats */}
           <div className="flex items-center gap-4 text-sm text-muted-foreground">
             <div className="flex items-center gap-1">
               <span>Guesses:</span>
               <span className="font-semibold text-foreground">
-                {gameState.guesses.length}/{6}
+                {gameState.guesses.length}/{formatGuessLimit(maxGuesses)}
               </span>
             </div>
             {(totalTime > 0 || (isRunning && gameStartedAt)) && (
@@ -159,6 +184,16 @@ export function WordleRaceLane({ model, gameState, isRunning, isModelWorking, bl
             {gameState.failed && (
               <Badge variant="destructive">Failed</Badge>
             )}
+            {boardCount > 1 && (
+              <Badge variant="outline" className="text-xs">
+                {summarizeBoards(gameState.guesses, boardCount).boardsSolved}/{boardCount} boards
+              </Badge>
+            )}
+            {hardModeViolations > 0 && (
+              <Badge variant="outline" className="border-red-500 text-red-500">
+                {hardModeViolations} hard mode violation{hardModeViolations !== 1 ? "s" : ""}
+              </Badge>
+            )}
           </div>
 
           {/* Show thinking button only for models with reasoning enabled or active thoughts */}
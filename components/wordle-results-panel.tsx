@@ -6,7 +6,9 @@ import { Badge } from "./ui/badge"
 import { Button } from "./ui/button"
 import { Trophy, Clock, Target, ArrowUpDown, Zap, DollarSign, Coins, TrendingUp } from "lucide-react"
 import { useMemo, useState } from "react"
-import { calculateClosenessScore, calculateEstimatedCost, rankWordleResults } from "@/lib/wordle-utils"
+import { calculateClosenessScore, calculateConsistencyRate, rankWordleResults } from "@/lib/wordle-utils"
+import { calculateEstimatedCost } from "@/lib/pricing"
+import { calculateRatings, matchesFromRace } from "@/lib/ratings"
 
 type SortOption = "rank" | "time" | "tokens" | "cost"
 
@@ -15,6 +17,15 @@ interface Achievement {
   modelId: string
 }
 
+// e.g. "1,234 tokens (900 reasoning, 200 cached)", the breakdown only when the provider reported it
+function formatTokenSummary(result: WordleModelResult): string {
+  const parts = [
+    result.reasoningTokens ? `${result.reasoningTokens.toLocaleString()} reasoning` : undefined,
+    result.cachedPromptTokens ? `${result.cachedPromptTokens.toLocaleString()} cached` : undefined,
+  ].filter(Boolean)
+  return `${(result.totalTokens ?? 0).toLocaleString()} tokens${parts.length > 0 ? ` (${parts.join(", ")})` : ""}`
+}
+
 interface WordleResultsPanelProps {
   result: WordleRaceResult
   userGameState: WordleGameState | null
@@ -22,6 +33,7 @@ interface WordleResultsPanelProps {
 
 export function WordleResultsPanel({ result, userGameState }: WordleResultsPanelProps) {
   const [sortBy, setSortBy] = useState<SortOption>("rank")
+  const [reviewModelId, setReviewModelId] = useState<string | null>(null)
 
   // Calculate user ranking if participating
   const { userResult, allResults, achievements } = useMemo(() => {
@@ -30,7 +42,7 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
 
     if (userGameState) {
       // Determine if user didn't finish (not solved, not failed, but race is complete)
-      const didNotFinish = !userGameState.solved && !userGameState.failed && userGameState.guesses.length < 6
+      const didNotFinish = !userGameState.solved && !userGameState.failed
       
       // Calculate closeness for failed attempts
       let closenessScore: number | undefined
@@ -61,7 +73,7 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
       })
 
       if (totalPromptTokens > 0 || totalCompletionTokens > 0) {
-        totalCost = calculateEstimatedCost("user", totalPromptTokens, totalCompletionTokens)
+        totalCost = calculateEstimatedCost({ id: "user", modelString: "user" }, { input: totalPromptTokens, output: totalCompletionTokens })
       }
       
       // Create user result
@@ -76,6 +88,7 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
         presentLetters,
         totalTokens: totalTokens > 0 ? totalTokens : undefined,
         totalCost: totalCost > 0 ? totalCost : undefined,
+        consistencyRate: calculateConsistencyRate(userGameState.guesses),
         rank: 0, // Will be calculated
       }
       
@@ -152,6 +165,12 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
     return results
   }, [allResults, sortBy])
 
+  // Head-to-head ratings from this race, every pair of players (you included) is one match
+  const ratings = useMemo(
+    () => new Map(calculateRatings(matchesFromRace({ ...result, modelResults: allResults })).map((r) => [r.modelId, r])),
+    [result, allResults]
+  )
+
   const winner = result.modelResults.find((r) => r.rank === 1)
   const displayWinner = userResult?.rank === 1 ? userResult : winner
 
@@ -205,13 +224,22 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
         <CardHeader>
           <CardTitle className="text-foreground flex items-center gap-2">
             <Target className="w-5 h-5" />
-            Target Word
+            {result.targetWords && result.targetWords.length > 1 ? "Target Words" : "Target Word"}
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="text-4xl font-bold text-center font-mono text-foreground tracking-wider">
-            {result.targetWord.toUpperCase()}
+            {(result.targetWords ?? [result.targetWord]).map((w) => w.toUpperCase()).join(" · ")}
           </div>
+          {(result.daily || result.lyingFeedback || result.seed !== undefined) && (
+            <p className="text-xs text-muted-foreground text-center mt-2">
+              {[
+                result.daily && `Daily word · ${result.daily}`,
+                result.lyingFeedback && "Lying feedback",
+                !result.daily && result.seed !== undefined && `seed ${result.seed}`,
+              ].filter(Boolean).join(" · ")}
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -264,6 +292,9 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
           <div className="space-y-2">
             {sortedResults.map((modelResult) => {
               const isUser = modelResult.modelId === "user"
+              // Lying-feedback races compare against the honest benchmark average
+              const honestAvg = modelResult.honestAvgGuesses
+              const rating = ratings.get(modelResult.modelId)
               return (
                 <div
                   key={modelResult.modelId}
@@ -285,11 +316,54 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
                       <div className={`font-medium flex items-center ${isUser ? 'text-primary' : 'text-foreground'}`}>
                         {modelResult.modelName}
                         {getAchievementBadge(modelResult.modelId)}
+                        {modelResult.hardModeViolations !== undefined && modelResult.hardModeViolations > 0 && (
+                          <Badge variant="outline" className="border-red-500 text-red-500 ml-2">
+                            {modelResult.hardModeViolations} hard mode violation{modelResult.hardModeViolations !== 1 ? "s" : ""}
+                          </Badge>
+                        )}
+                        {modelResult.boardsSolved !== undefined && result.targetWords && result.targetWords.length > 1 && (
+                          <Badge variant="outline" className="ml-2">
+                            {modelResult.boardsSolved}/{result.targetWords.length} boards
+                          </Badge>
+                        )}
+                        {modelResult.invalidGuesses !== undefined && modelResult.invalidGuesses > 0 && (
+                          <Badge variant="outline" className="border-amber-500 text-amber-500 ml-2">
+                            {modelResult.invalidGuesses} invalid guess{modelResult.invalidGuesses !== 1 ? "es" : ""}
+                          </Badge>
+                        )}
+                        {modelResult.consistencyRate !== undefined && (
+                          <Badge
+                            variant="outline"
+                            className={`ml-2 ${modelResult.consistencyRate < 100 ? "border-amber-500 text-amber-500" : ""}`}
+                            title="Guesses that respected every hint shown so far: no grey letters, greens in place, yellows moved"
+                          >
+                            {modelResult.consistencyRate.toFixed(0)}% consistent
+                          </Badge>
+                        )}
+                        {rating && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2"
+                            title={`Head-to-head rating from this race, 95% interval ±${rating.ratingError.toFixed(0)}`}
+                          >
+                            {rating.rating.toFixed(0)} ±{rating.ratingError.toFixed(0)}
+                          </Badge>
+                        )}
+                        {modelResult.hostWord && modelResult.hostWord !== result.targetWord && (
+                          <Badge variant="outline" className="ml-2 font-mono" title="Word the absurdle host ended up with against this model">
+                            {modelResult.hostWord.toUpperCase()}
+                          </Badge>
+                        )}
                       </div>
                       <div className="text-xs text-muted-foreground">
                         {modelResult.solved ? (
                           <>
                             Solved in {modelResult.guessCount} guess{modelResult.guessCount !== 1 ? "es" : ""}
+                            {honestAvg !== undefined && (
+                              <span title="Average guesses in the honest-feedback benchmark">
+                                {" · "}honest avg {honestAvg.toFixed(1)} ({modelResult.guessCount >= honestAvg ? "+" : ""}{(modelResult.guessCount - honestAvg).toFixed(1)})
+                              </span>
+                            )}
                             {modelResult.timeToSolveMs && modelResult.timeToSolveMs > 0 && (
                               <>
                                 {" · "}
@@ -304,7 +378,7 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
                                 {" · "}
                                 <span className="flex items-center gap-1 inline-flex">
                                   <Coins className="w-3 h-3" />
-                                  {modelResult.totalTokens.toLocaleString()} tokens
+                                  {formatTokenSummary(modelResult)}
                                 </span>
                               </>
                             )}
@@ -349,7 +423,7 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
                                 {" · "}
                                 <span className="flex items-center gap-1 inline-flex">
                                   <Coins className="w-3 h-3" />
-                                  {modelResult.totalTokens.toLocaleString()} tokens
+                                  {formatTokenSummary(modelResult)}
                                 </span>
                               </>
                             )}
@@ -379,7 +453,7 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
                                 {" · "}
                                 <span className="flex items-center gap-1 inline-flex">
                                   <Coins className="w-3 h-3" />
-                                  {modelResult.totalTokens.toLocaleString()} tokens
+                                  {formatTokenSummary(modelResult)}
                                 </span>
                               </>
                             )}
@@ -395,6 +469,44 @@ export function WordleResultsPanel({ result, userGameState }: WordleResultsPanel
                           </>
                         )}
                       </div>
+                      {modelResult.avgSkill !== undefined && (
+                        <div className="text-xs text-muted-foreground">
+                          <span title="Expected information of each guess as a share of the best guess">
+                            Skill {modelResult.avgSkill.toFixed(0)}%
+                          </span>
+                          {modelResult.avgLuck !== undefined && (
+                            <span title="Bits per guess gained beyond what was expected">
+                              {" · "}Luck {modelResult.avgLuck >= 0 ? "+" : ""}{modelResult.avgLuck.toFixed(2)} bits
+                            </span>
+                          )}
+                          {modelResult.guessAnalysis && (
+                            <button
+                              type="button"
+                              className="ml-2 underline underline-offset-2 hover:text-foreground"
+                              onClick={() => setReviewModelId(reviewModelId === modelResult.modelId ? null : modelResult.modelId)}
+                            >
+                              {reviewModelId === modelResult.modelId ? "Hide review" : "Review guesses"}
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {reviewModelId === modelResult.modelId && modelResult.guessAnalysis && (
+                        <div className="mt-2 space-y-1 text-xs font-mono">
+                          {modelResult.guessAnalysis.map((a, i) => (
+                            <div key={i} className="flex flex-wrap gap-x-3">
+                              <span className="w-14 font-semibold text-foreground">{a.word.toUpperCase()}</span>
+                              <span title="Possible answers before and after this guess">
+                                {a.candidatesBefore} → {a.candidatesAfter}
+                              </span>
+                              <span title="Expected bits, with the best guess's expected bits">
+                                {a.expectedBits.toFixed(2)}/{a.bestExpectedBits.toFixed(2)} bits
+                                {a.bestGuess !== a.word && ` (best ${a.bestGuess.toUpperCase()})`}
+                              </span>
+                              <span title="Bits actually gained">got {a.actualBits.toFixed(2)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div>
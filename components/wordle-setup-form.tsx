@@ -5,15 +5,37 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
-import { DEFAULT_MODELS } from "@/lib/constants"
+import { BASELINE_MODELS, DEFAULT_MODELS } from "@/lib/constants"
+import {
+  DEFAULT_MAX_GUESSES,
+  DEFAULT_INVALID_GUESS_RETRIES,
+  UNLIMITED_GUESS_CAP,
+  DEFAULT_WORD_LENGTH,
+  SUPPORTED_WORD_LENGTHS,
+  getDefaultMaxGuesses,
+} from "@/lib/wordle-utils"
 import { PlayCircle, Loader2, Plus, Trash2 } from "lucide-react"
 import { CustomEntryDialog } from "@/components/custom-entry-dialog"
 import { getCustomEntries, deleteCustomEntry } from "@/lib/custom-entries"
 import { getSelectedModels, saveSelectedModels } from "@/lib/selected-models"
-import type { CustomEntry, ModelConfig } from "@/lib/types"
+import type { CustomEntry, ModelConfig, WordleHardMode, WordleHostMode, WordleRaceOptions } from "@/lib/types"
+
+// 0 = unlimited
+const BOARD_OPTIONS = [
+  { count: 1, label: "Wordle" },
+  { count: 2, label: "Dordle" },
+  { count: 4, label: "Quordle" },
+  { count: 8, label: "Octordle" },
+]
 
 interface WordleSetupFormProps {
-  onStart: (name: string, models: ModelConfig[], targetWord?: string, includeUser?: boolean) => void
+  onStart: (
+    name: string,
+    models: ModelConfig[],
+    targetWord?: string,
+    includeUser?: boolean,
+    options?: WordleRaceOptions,
+  ) => void
   isRunning: boolean
 }
 
@@ -25,10 +47,19 @@ export function WordleSetupForm({ onStart, isRunning }: WordleSetupFormProps) {
     return DEFAULT_MODELS.map((m) => m.id)
   })
   const [selectedCustomEntries, setSelectedCustomEntries] = useState<string[]>([])
-  const [wordMode, setWordMode] = useState<"random" | "custom">("random")
+  const [selectedBaselines, setSelectedBaselines] = useState<string[]>([])
+  const [wordMode, setWordMode] = useState<"random" | "daily" | "custom">("random")
   const [customWord, setCustomWord] = useState("")
   const [wordError, setWordError] = useState("")
   const [includeUser, setIncludeUser] = useState(false)
+  const [hardMode, setHardMode] = useState<WordleHardMode>("off")
+  const [wordLength, setWordLength] = useState(DEFAULT_WORD_LENGTH)
+  const [maxGuesses, setMaxGuesses] = useState(DEFAULT_MAX_GUESSES)
+  const [boardCount, setBoardCount] = useState(1)
+  const [host, setHost] = useState<WordleHostMode>("fixed")
+  const [lyingFeedback, setLyingFeedback] = useState(false)
+  const [seed, setSeed] = useState("")
+  const [invalidGuessRetries, setInvalidGuessRetries] = useState(DEFAULT_INVALID_GUESS_RETRIES)
   const [customEntries, setCustomEntries] = useState<CustomEntry[]>([])
   const [dialogOpen, setDialogOpen] = useState(false)
   const [editingEntry, setEditingEntry] = useState<CustomEntry | null>(null)
@@ -71,17 +102,17 @@ export function WordleSetupForm({ onStart, isRunning }: WordleSetupFormProps) {
 
   const handleStart = () => {
     // Validate custom word if selected
-    if (wordMode === "custom") {
+    if (boardCount === 1 && host === "fixed" && wordMode === "custom") {
       const trimmed = customWord.trim().toLowerCase()
       if (!trimmed) {
         setWordError("Please enter a word")
         return
       }
-      if (trimmed.length !== 5) {
-        setWordError("Word must be exactly 5 letters")
+      if (trimmed.length !== wordLength) {
+        setWordError(`Word must be exactly ${wordLength} letters`)
         return
       }
-      if (!/^[a-z]{5}$/.test(trimmed)) {
+      if (!/^[a-z]+$/.test(trimmed)) {
         setWordError("Word must contain only letters")
         return
       }
@@ -100,6 +131,9 @@ export function WordleSetupForm({ onStart, isRunning }: WordleSetupFormProps) {
       }
     })
     
+    // Solver baselines race as ordinary entries
+    BASELINE_MODELS.filter((m) => selectedBaselines.includes(m.id)).forEach((m) => modelConfigs.push({ ...m }))
+
     // Add custom entries as separate model configs with unique IDs
     // These will appear as separate entries in the race grid
     selectedCustomEntries.forEach((entryId) => {
@@ -118,18 +152,49 @@ export function WordleSetupForm({ onStart, isRunning }: WordleSetupFormProps) {
       }
     })
 
-    const targetWord = wordMode === "custom" ? customWord.trim().toLowerCase() : undefined
-    onStart("Wordle Race", modelConfigs, targetWord, includeUser)
+    // Multi-board games and the absurdle host always use seeded random words and are AI-only
+    // Lying feedback is single-board, AI-only and never combined with hard mode
+    const singleBoard = boardCount === 1
+    const fixedWord = singleBoard && host === "fixed"
+    const lying = singleBoard && lyingFeedback
+    const daily = fixedWord && wordMode === "daily"
+    const targetWord = fixedWord && wordMode === "custom" ? customWord.trim().toLowerCase() : undefined
+    onStart("Wordle Race", modelConfigs, targetWord, fixedWord && !lying && includeUser, {
+      hardMode: singleBoard && !lying ? hardMode : "off",
+      wordLength,
+      maxGuesses,
+      boardCount,
+      host: singleBoard ? host : "fixed",
+      lyingFeedback: lying,
+      seed: !daily && seed ? Number(seed) : undefined,
+      daily,
+      invalidGuessRetries,
+    })
   }
 
   const handleCustomWordChange = (value: string) => {
-    const trimmed = value.trim().toLowerCase().slice(0, 5)
+    const trimmed = value.trim().toLowerCase().slice(0, wordLength)
     setCustomWord(trimmed)
-    if (wordError && trimmed.length === 5 && /^[a-z]{5}$/.test(trimmed)) {
+    if (wordError && trimmed.length === wordLength && /^[a-z]+$/.test(trimmed)) {
       setWordError("")
     }
   }
 
+  const handleBoardCountChange = (count: number) => {
+    setBoardCount(count)
+    setMaxGuesses(getDefaultMaxGuesses(count))
+  }
+
+  // Standard limit for the board count, two longer variants and unlimited (0)
+  const defaultGuessLimit = getDefaultMaxGuesses(boardCount)
+  const guessLimitOptions = [defaultGuessLimit, defaultGuessLimit + 2, defaultGuessLimit + 4, 0]
+
+  const handleWordLengthChange = (length: number) => {
+    setWordLength(length)
+    setCustomWord((prev) => prev.slice(0, length))
+    setWordError("")
+  }
+
   const totalSelected = selectedModels.length + selectedCustomEntries.length
 
   const toggleModel = (modelId: string) => {
@@ -166,6 +231,12 @@ export function WordleSetupForm({ onStart, isRunning }: WordleSetupFormProps) {
     setSelectedCustomEntries([])
   }
 
+  const toggleBaseline = (modelId: string) => {
+    setSelectedBaselines((prev) =>
+      prev.includes(modelId) ? prev.filter((id) => id !== modelId) : [...prev, modelId],
+    )
+  }
+
   const toggleCustomEntry = (entryId: string) => {
     setSelectedCustomEntries((prev) => {
       if (prev.includes(entryId)) return prev.filter((id) => id !== entryId)
@@ -205,86 +276,299 @@ export function WordleSetupForm({ onStart, isRunning }: WordleSetupFormProps) {
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        {/* Word selection */}
-        <div className="space-y-3">
-          <Label className="text-foreground">Target Word</Label>
-          <div className="space-y-3">
-            {/* Random word option */}
-            <label className="flex items-center space-x-2 cursor-pointer">
-              <input
-                type="radio"
-                name="word-mode"
-                value="random"
-                checked={wordMode === "random"}
-                onChange={() => {
-                  setWordMode("random")
-                  setWordError("")
-                }}
+        {/* Board count */}
+        <div className="space-y-2">
+          <Label className="text-foreground">Boards</Label>
+          <div className="flex flex-wrap gap-2">
+            {BOARD_OPTIONS.map((option) => (
+              <Button
+                key={option.count}
+                type="button"
+                size="sm"
+                variant={boardCount === option.count ? "default" : "outline"}
+                onClick={() => handleBoardCountChange(option.count)}
                 disabled={isRunning}
-                className="w-4 h-4 text-primary"
-              />
-              <span className="text-foreground">Use random word from list</span>
-            </label>
-
-            {/* Custom word option */}
-            <label className="flex items-center space-x-2 cursor-pointer">
-              <input
-                type="radio"
-                name="word-mode"
-                value="custom"
-                checked={wordMode === "custom"}
-                onChange={() => {
-                  setWordMode("custom")
-                  setWordError("")
-                }}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          {boardCount > 1 && (
+            <p className="text-xs text-muted-foreground">
+              Every guess is played on all {boardCount} boards at once. Models are ranked by boards solved, then total guesses.
+            </p>
+          )}
+        </div>
+
+        {/* Word length */}
+        <div className="space-y-2">
+          <Label className="text-foreground">Word Length</Label>
+          <div className="flex flex-wrap gap-2">
+            {SUPPORTED_WORD_LENGTHS.map((length) => (
+              <Button
+                key={length}
+                type="button"
+                size="sm"
+                variant={wordLength === length ? "default" : "outline"}
+                onClick={() => handleWordLengthChange(length)}
                 disabled={isRunning}
-                className="w-4 h-4 text-primary"
-              />
-              <span className="text-foreground">Set custom word</span>
-            </label>
-
-            {/* Custom word input */}
-            {wordMode === "custom" && (
-              <div className="ml-6 space-y-2">
-                <Input
-                  id="custom-word"
-                  placeholder="Enter 5-letter word"
-                  value={customWord}
-                  onChange={(e) => handleCustomWordChange(e.target.value)}
-                  disabled={isRunning}
-                  className={`bg-muted text-foreground ${wordError ? "border-destructive" : ""}`}
-                  maxLength={5}
-                />
-                {wordError && (
-                  <p className="text-sm text-destructive">{wordError}</p>
-                )}
-                <p className="text-xs text-muted-foreground">
-                  Enter a 5-letter word for the AI models to solve
-                </p>
-              </div>
-            )}
+              >
+                {length} letters
+              </Button>
+            ))}
           </div>
         </div>
 
-        {/* User participation */}
+        {/* Guess limit */}
         <div className="space-y-2">
-          <label className="flex items-center space-x-2 cursor-pointer">
-            <input
-              type="checkbox"
-              checked={includeUser}
-              onChange={(e) => setIncludeUser(e.target.checked)}
-              disabled={isRunning}
-              className="w-4 h-4 text-primary rounded"
-            />
-            <span className="text-foreground">Join as player and race against AI</span>
-          </label>
-          {includeUser && (
-            <p className="text-xs text-muted-foreground ml-6">
-              You'll be able to make your own guesses and see how you rank against the AI models
+          <Label className="text-foreground">Guess Limit</Label>
+          <div className="flex flex-wrap gap-2">
+            {guessLimitOptions.map((limit) => (
+              <Button
+                key={limit}
+                type="button"
+                size="sm"
+                variant={maxGuesses === limit ? "default" : "outline"}
+                onClick={() => setMaxGuesses(limit)}
+                disabled={isRunning}
+              >
+                {limit > 0 ? `${limit} guesses` : "Unlimited"}
+              </Button>
+            ))}
+          </div>
+          {maxGuesses === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Models keep guessing until they solve it (stopped after {UNLIMITED_GUESS_CAP} guesses)
             </p>
           )}
         </div>
 
+        {/* Invalid guess retries */}
+        <div className="space-y-2">
+          <Label className="text-foreground">Retries for Invalid Words</Label>
+          <div className="flex flex-wrap gap-2">
+            {[0, 1, 2, 3].map((retries) => (
+              <Button
+                key={retries}
+                type="button"
+                size="sm"
+                variant={invalidGuessRetries === retries ? "default" : "outline"}
+                onClick={() => setInvalidGuessRetries(retries)}
+                disabled={isRunning}
+              >
+                {retries === 0 ? "None" : `${retries}`}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Answers that aren't in the word list or repeat a guess are sent back. If every retry fails, the turn is lost.
+          </p>
+        </div>
+
+        {/* Seed - the daily and custom words don't use one */}
+        {!(boardCount === 1 && host === "fixed" && wordMode !== "random") && (
+          <div className="space-y-2">
+            <Label htmlFor="race-seed" className="text-foreground">Seed</Label>
+            <Input
+              id="race-seed"
+              placeholder="Optional, random if empty"
+              value={seed}
+              onChange={(e) => setSeed(e.target.value.replace(/\D/g, ""))}
+              disabled={isRunning}
+              className="bg-muted text-foreground max-w-xs"
+              inputMode="numeric"
+              maxLength={9}
+            />
+            <p className="text-xs text-muted-foreground">
+              Picks the hidden word and any lies. Reuse a race's seed with the same settings to replay it.
+            </p>
+          </div>
+        )}
+
+        {boardCount === 1 && (
+          <>
+            {/* Host */}
+            <div className="space-y-2">
+              <Label className="text-foreground">Host</Label>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {([
+                  { value: "fixed", label: "Fixed word" },
+                  { value: "absurdle", label: "Adversarial (Absurdle)" },
+                ] as const).map((option) => (
+                  <label key={option.value} className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="host"
+                      value={option.value}
+                      checked={host === option.value}
+                      onChange={() => setHost(option.value)}
+                      disabled={isRunning}
+                      className="w-4 h-4 text-primary"
+                    />
+                    <span className="text-foreground text-sm">{option.label}</span>
+                  </label>
+                ))}
+              </div>
+              {host === "absurdle" && (
+                <p className="text-xs text-muted-foreground">
+                  No word is picked up front. After every guess the host keeps the largest group of words that still fits, so luck and memorized answers don't help.
+                </p>
+              )}
+            </div>
+
+            {host === "fixed" && (
+              <>
+              {/* Word selection */}
+              <div className="space-y-3">
+                <Label className="text-foreground">Target Word</Label>
+                <div className="space-y-3">
+                  {/* Random word option */}
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="word-mode"
+                      value="random"
+                      checked={wordMode === "random"}
+                      onChange={() => {
+                        setWordMode("random")
+                        setWordError("")
+                      }}
+                      disabled={isRunning}
+                      className="w-4 h-4 text-primary"
+                    />
+                    <span className="text-foreground">Use random word from list</span>
+                  </label>
+
+                  {/* Daily word option */}
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="word-mode"
+                      value="daily"
+                      checked={wordMode === "daily"}
+                      onChange={() => {
+                        setWordMode("daily")
+                        setWordError("")
+                      }}
+                      disabled={isRunning}
+                      className="w-4 h-4 text-primary"
+                    />
+                    <span className="text-foreground">Play today's daily word</span>
+                  </label>
+
+                  {/* Custom word option */}
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="word-mode"
+                      value="custom"
+                      checked={wordMode === "custom"}
+                      onChange={() => {
+                        setWordMode("custom")
+                        setWordError("")
+                      }}
+                      disabled={isRunning}
+                      className="w-4 h-4 text-primary"
+                    />
+                    <span className="text-foreground">Set custom word</span>
+                  </label>
+
+                  {/* Custom word input */}
+                  {wordMode === "custom" && (
+                    <div className="ml-6 space-y-2">
+                      <Input
+                        id="custom-word"
+                        placeholder={`Enter ${wordLength}-letter word`}
+                        value={customWord}
+                        onChange={(e) => handleCustomWordChange(e.target.value)}
+                        disabled={isRunning}
+                        className={`bg-muted text-foreground ${wordError ? "border-destructive" : ""}`}
+                        maxLength={wordLength}
+                      />
+                      {wordError && (
+                        <p className="text-sm text-destructive">{wordError}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Enter a {wordLength}-letter word for the AI models to solve
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* User participation */}
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeUser}
+                    onChange={(e) => setIncludeUser(e.target.checked)}
+                    disabled={isRunning || lyingFeedback}
+                    className="w-4 h-4 text-primary rounded"
+                  />
+                  <span className="text-foreground">Join as player and race against AI</span>
+                </label>
+                {includeUser && (
+                  <p className="text-xs text-muted-foreground ml-6">
+                    You'll be able to make your own guesses and see how you rank against the AI models
+                  </p>
+                )}
+              </div>
+              </>
+            )}
+
+            {/* Hard mode */}
+            <div className="space-y-2">
+              <Label className="text-foreground">Hard Mode</Label>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {([
+                  { value: "off", label: "Off" },
+                  { value: "track", label: "Count violations" },
+                  { value: "enforce", label: "Reject violating guesses" },
+                ] as const).map((option) => (
+                  <label key={option.value} className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="hard-mode"
+                      value={option.value}
+                      checked={hardMode === option.value}
+                      onChange={() => setHardMode(option.value)}
+                      disabled={isRunning || lyingFeedback}
+                      className="w-4 h-4 text-primary"
+                    />
+                    <span className="text-foreground text-sm">{option.label}</span>
+                  </label>
+                ))}
+              </div>
+              {hardMode !== "off" && (
+                <p className="text-xs text-muted-foreground">
+                  Every guess must keep green letters in place and reuse yellow letters.
+                  {hardMode === "enforce" && " Guesses that don't are rejected and still use up a turn."}
+                </p>
+              )}
+            </div>
+
+            {/* Lying feedback */}
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={lyingFeedback}
+                  onChange={(e) => setLyingFeedback(e.target.checked)}
+                  disabled={isRunning}
+                  className="w-4 h-4 text-primary rounded"
+                />
+                <span className="text-foreground">Lying feedback (Fibble)</span>
+              </label>
+              {lyingFeedback && (
+                <p className="text-xs text-muted-foreground ml-6">
+                  One tile in every feedback row the models see is wrong. Hard mode and playing along are turned off.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+
         {/* Model selection */}
         <div className="space-y-2">
           <div className="flex items-center justify-between">
@@ -337,6 +621,30 @@ export function WordleSetupForm({ onStart, isRunning }: WordleSetupFormProps) {
           )}
         </div>
 
+        {/* Solver baselines */}
+        <div className="space-y-2">
+          <Label className="text-foreground">Solver Baselines</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {BASELINE_MODELS.map((model) => (
+              <button
+                key={model.id}
+                onClick={() => toggleBaseline(model.id)}
+                disabled={isRunning}
+                className={`p-2 rounded-lg border text-sm transition-all ${
+                  selectedBaselines.includes(model.id)
+                    ? "border-primary bg-primary/10 text-foreground"
+                    : "border-border bg-muted text-muted-foreground hover:border-primary/50"
+                }`}
+              >
+                {model.name}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Classical solvers that play instantly without an API call - a reference point for the models. They don't count toward the model limit.
+          </p>
+        </div>
+
         {/* Custom Entries */}
         <div className="space-y-2">
           <div className="flex items-center justify-between">
@@ -415,7 +723,7 @@ export function WordleSetupForm({ onStart, isRunning }: WordleSetupFormProps) {
         {/* Start button */}
         <Button
           onClick={handleStart}
-          disabled={isRunning || selectedModels.length === 0 || (wordMode === "custom" && !customWord.trim())}
+          disabled={isRunning || selectedModels.length + selectedBaselines.length === 0 || (boardCount === 1 && host === "fixed" && wordMode === "custom" && !customWord.trim())}
           className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
           size="lg"
         >
@@ -7,6 +7,8 @@ import {
   calculateCompositeScore,
   buildLeaderboard,
   getModelColor,
+  getGuessBuckets,
+  getHonestAvgGuesses,
 } from "../benchmark-data"
 import type { BenchmarkModelResult, BenchmarkModelStats } from "../benchmark-types"
 
@@ -63,6 +65,24 @@ describe("loadBenchmarkResults", () => {
   })
 })
 
+describe("getHonestAvgGuesses", () => {
+  const data = loadBenchmarkResults()
+  const solver = data.models.find((m) => m.stats.gamesSolved > 0)!
+  const settings = { wordLength: 5, maxGuesses: 6, boardCount: 1, host: "fixed" as const }
+
+  it("returns the benchmark average for races on its settings", () => {
+    expect(getHonestAvgGuesses(solver.id, settings, data)).toBe(solver.stats.avgGuesses)
+    expect(getHonestAvgGuesses("no-such-model", settings, data)).toBeUndefined()
+  })
+
+  it("returns nothing for races the benchmark can't be compared with", () => {
+    expect(getHonestAvgGuesses(solver.id, { ...settings, wordLength: 6 }, data)).toBeUndefined()
+    expect(getHonestAvgGuesses(solver.id, { ...settings, boardCount: 2 }, data)).toBeUndefined()
+    expect(getHonestAvgGuesses(solver.id, { ...settings, maxGuesses: 8 }, data)).toBeUndefined()
+    expect(getHonestAvgGuesses(solver.id, { ...settings, host: "absurdle" }, data)).toBeUndefined()
+  })
+})
+
 describe("getModelColor", () => {
   it("returns correct color for known model", () => {
     const color = getModelColor("gpt-5")
@@ -125,6 +145,26 @@ describe("calculateCompositeScore", () => {
     expect(perfect).toBeLessThanOrEqual(100)
     expect(perfect).toBeGreaterThan(0)
   })
+
+  it("scales guess efficiency to the guess limit", () => {
+    const stats = { winRate: 80, avgGuesses: 6, medianTimeMs: 5000, gamesSolved: 40 }
+    // 6 guesses scores nothing with a limit of 6 but is efficient with a limit of 11
+    expect(calculateCompositeScore(stats, 11)).toBeCloseTo(calculateCompositeScore(stats) + 12.5)
+  })
+})
+
+describe("getGuessBuckets", () => {
+  it("covers 1 to the guess limit", () => {
+    expect(getGuessBuckets([], 6)).toEqual([1, 2, 3, 4, 5, 6])
+    expect(getGuessBuckets([], 10)).toHaveLength(10)
+  })
+
+  it("grows to the highest solved guess count for unlimited runs", () => {
+    const models = [
+      makeMockModel({ id: "a", name: "A", stats: { guessDistribution: { 3: 2, 9: 1, 12: 0 } } as any }),
+    ]
+    expect(getGuessBuckets(models, 0)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9])
+  })
 })
 
 describe("buildLeaderboard", () => {
@@ -148,6 +188,58 @@ describe("buildLeaderboard", () => {
     const lb = buildLeaderboard(models)
     expect(lb.map(e => e.rank)).toEqual([1, 2, 3])
   })
+
+  it("ranks solver baselines alongside the models and marks them", () => {
+    const models = [
+      makeMockModel({ id: "a", name: "A" }),
+      makeMockModel({ id: "solver-entropy", name: "Entropy Solver", baseline: true, stats: { winRate: 100, avgGuesses: 3.4, medianTimeMs: 5, gamesSolved: 10 } as any }),
+    ]
+    const lb = buildLeaderboard(models)
+    expect(lb[0]).toMatchObject({ modelId: "solver-entropy", baseline: true })
+    expect(lb[1].baseline).toBeUndefined()
+  })
+
+  it("carries the consistency rate when the run recorded it", () => {
+    const models = [
+      makeMockModel({ id: "a", name: "A", stats: { winRate: 50, avgGuesses: 4, medianTimeMs: 5000, gamesSolved: 5, consistencyRate: 87.5 } as any }),
+      makeMockModel({ id: "b", name: "B" }),
+    ]
+    const lb = buildLeaderboard(models)
+    expect(lb.find(e => e.modelId === "a")?.consistencyRate).toBe(87.5)
+    expect(lb.find(e => e.modelId === "b")?.consistencyRate).toBeUndefined()
+  })
+
+  it("uses stored confidence intervals or computes them from the games", () => {
+    const game = (word: string, solved: boolean) => ({ word, solved, guessCount: solved ? 3 : 6, timeMs: 1000, guesses: [], tokens: 0, cost: 0 })
+    const models = [
+      makeMockModel({ id: "a", name: "A", stats: { winRateCI: [40, 60], avgGuessesCI: [3, 4] } as any }),
+      makeMockModel({ id: "b", name: "B", games: [game("apple", true), game("brain", false), game("crane", true)] }),
+    ]
+    const lb = buildLeaderboard(models)
+    expect(lb.find(e => e.modelId === "a")).toMatchObject({ winRateCI: [40, 60], avgGuessesCI: [3, 4] })
+    const b = lb.find(e => e.modelId === "b")!
+    expect(b.winRateCI![0]).toBeLessThanOrEqual(b.winRateCI![1])
+    expect(b.avgGuessesCI).toEqual([3, 3])
+  })
+
+  it("adds a head-to-head rating and rank next to the composite score", () => {
+    const game = (word: string, solved: boolean, guessCount: number) => ({ word, solved, guessCount, timeMs: 1000, guesses: [], tokens: 0, cost: 0 })
+    const words = ["apple", "brain", "crane", "drink"]
+    const models = [
+      makeMockModel({ id: "slow-solver", name: "Slow", stats: { winRate: 100, avgGuesses: 4, medianTimeMs: 60000, gamesSolved: 4 } as any, games: words.map(w => game(w, true, 4)) }),
+      makeMockModel({ id: "fast-guesser", name: "Fast", stats: { winRate: 25, avgGuesses: 3, medianTimeMs: 500, gamesSolved: 1 } as any, games: words.map((w, i) => game(w, i < 1, i < 1 ? 3 : 6)) }),
+      makeMockModel({ id: "no-games", name: "None" }),
+    ]
+    const lb = buildLeaderboard(models)
+    const slow = lb.find(e => e.modelId === "slow-solver")!
+    const fast = lb.find(e => e.modelId === "fast-guesser")!
+
+    expect(slow.ratingRank).toBe(1)
+    expect(fast.ratingRank).toBe(2)
+    expect(slow.rating).toBeGreaterThan(fast.rating!)
+    expect(slow.ratingError).toBeGreaterThan(0)
+    expect(lb.find(e => e.modelId === "no-games")?.rating).toBeUndefined()
+  })
 })
 
 describe("calculateWordDifficulty", () => {
@@ -179,6 +271,24 @@ describe("calculateWordDifficulty", () => {
     expect(brain.solveRate).toBe(50)
     expect(brain.hardestFor).toContain("A")
   })
+
+  it("counts every trial of a word", () => {
+    const models = [
+      makeMockModel({
+        id: "a",
+        name: "A",
+        games: [
+          { word: "apple", trial: 0, solved: true, guessCount: 3, timeMs: 1000, guesses: [], tokens: 0, cost: 0 },
+          { word: "apple", trial: 1, solved: false, guessCount: 6, timeMs: 1000, guesses: [], tokens: 0, cost: 0 },
+          { word: "apple", trial: 2, solved: false, guessCount: 6, timeMs: 1000, guesses: [], tokens: 0, cost: 0 },
+        ],
+      }),
+    ]
+
+    const [apple] = calculateWordDifficulty(models, ["apple"])
+    expect(apple.solveRate).toBeCloseTo(100 / 3)
+    expect(apple.hardestFor).toEqual(["A"])
+  })
 })
 
 describe("computeBenchmarkAnalysis", () => {
@@ -191,4 +301,17 @@ describe("computeBenchmarkAnalysis", () => {
     expect(analysis.modelComparisons.mostAccurate.winRate).toBeGreaterThan(0)
     expect(analysis.modelComparisons.fastest.avgTimeMs).toBeGreaterThan(0)
   })
+
+  it("leaves solver baselines out of the superlatives", () => {
+    const data = loadBenchmarkResults()
+    const baseline = makeMockModel({
+      id: "solver-entropy",
+      name: "Entropy Solver",
+      baseline: true,
+      stats: { winRate: 100, avgGuesses: 3, medianTimeMs: 1, avgTimeMs: 1, totalCost: 0, gamesSolved: 50, gamesPlayed: 50 } as any,
+    })
+    const analysis = computeBenchmarkAnalysis({ ...data, models: [...data.models, baseline] })
+
+    expect(Object.values(analysis.modelComparisons).map((c) => c.modelId)).not.toContain("solver-entropy")
+  })
 })
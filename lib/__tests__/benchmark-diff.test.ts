@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest"
+import { diffBenchmarkRuns } from "../benchmark-diff"
+import type { BenchmarkGameResult, BenchmarkModelResult, BenchmarkModelStats, BenchmarkResults } from "../benchmark-types"
+
+function game(word: string, solved: boolean, trial = 0): BenchmarkGameResult {
+  return { word, trial, solved, guessCount: solved ? 4 : 6, timeMs: 1000, guesses: [], tokens: 0, cost: 0 }
+}
+
+function model(id: string, games: BenchmarkGameResult[], stats: Partial<BenchmarkModelStats> = {}): BenchmarkModelResult {
+  return {
+    id,
+    name: id.toUpperCase(),
+    modelString: id,
+    stats: { winRate: 50, avgGuesses: 4, medianTimeMs: 1000, avgTimeMs: 1000, totalTokens: 0, totalCost: 0, gamesPlayed: 2, gamesSolved: 1, guessDistribution: {}, ...stats },
+    games,
+  }
+}
+
+function run(runDate: string, models: BenchmarkModelResult[], words = ["apple", "brain"]): BenchmarkResults {
+  return {
+    metadata: { runDate, wordCount: words.length, version: "1.0", totalModels: models.length, totalGames: 0, totalCost: 0, runDurationMs: 0 },
+    words,
+    models,
+    leaderboard: [],
+  }
+}
+
+describe("diffBenchmarkRuns", () => {
+  const base = run("2026-01-01T00:00:00.000Z", [
+    model("a", [game("apple", true), game("brain", false)]),
+    model("b", [game("apple", true), game("brain", true)], { winRate: 100 }),
+    model("old", [game("apple", true)]),
+  ])
+  const head = run("2026-02-01T00:00:00.000Z", [
+    model("a", [game("apple", true), game("brain", true)], { winRate: 100, medianTimeMs: 800 }),
+    model("b", [game("apple", false), game("brain", true)], { winRate: 50 }),
+    model("new", [game("apple", true), game("brain", true)]),
+  ])
+
+  it("reports added, removed and changed models with stat deltas", () => {
+    const diff = diffBenchmarkRuns(base, head)
+    const byId = new Map(diff.models.map((m) => [m.modelId, m]))
+
+    expect(diff.base.runDate).toBe("2026-01-01T00:00:00.000Z")
+    expect(byId.get("new")?.status).toBe("added")
+    expect(byId.get("old")?.status).toBe("removed")
+    expect(byId.get("a")).toMatchObject({
+      status: "changed",
+      winRate: { base: 50, head: 100, delta: 50 },
+      medianTimeMs: { delta: -200 },
+      newlySolved: ["brain"],
+      newlyFailed: [],
+    })
+    expect(byId.get("b")).toMatchObject({ newlySolved: [], newlyFailed: ["apple"] })
+  })
+
+  it("compares words over the models in both runs", () => {
+    const diff = diffBenchmarkRuns(base, head)
+    const apple = diff.words.find((w) => w.word === "apple")!
+    const brain = diff.words.find((w) => w.word === "brain")!
+
+    expect(apple.solveRate).toEqual({ base: 100, head: 50, delta: -50 })
+    expect(apple.newlyFailedBy).toEqual(["b"])
+    expect(brain.solveRate).toEqual({ base: 50, head: 100, delta: 50 })
+    expect(brain.newlySolvedBy).toEqual(["a"])
+  })
+
+  it("treats a word solved in only some trials as neither solved nor failed", () => {
+    const mixed = run("2026-03-01T00:00:00.000Z", [
+      model("a", [game("apple", true), game("brain", false), game("brain", true, 1)]),
+    ])
+    const diff = diffBenchmarkRuns(run("2026-01-01T00:00:00.000Z", [model("a", [game("apple", true), game("brain", false)])]), mixed)
+    expect(diff.models[0]).toMatchObject({ newlySolved: [], newlyFailed: [] })
+  })
+
+  it("marks models with identical results unchanged", () => {
+    expect(diffBenchmarkRuns(base, base).models.every((m) => m.status === "unchanged")).toBe(true)
+  })
+})
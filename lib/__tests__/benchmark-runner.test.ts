@@ -0,0 +1,185 @@
+import { describe, it, expect, afterEach } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import {
+  DEFAULT_GAME_SETTINGS,
+  QUICK_WORD_COUNT,
+  benchmarkModel,
+  buildBenchmarkResults,
+  calculateModelStats,
+  remainingGames,
+  resolveWordSet,
+  restrictResults,
+  runBenchmarkGame,
+  selectModels,
+} from "../benchmark-runner"
+import { BASELINE_MODELS, DEFAULT_MODELS } from "../constants"
+import type { BenchmarkGameResult, BenchmarkModelResult } from "../benchmark-types"
+import type { ModelConfig } from "../types"
+
+function game(word: string, solved: boolean, guessCount = 4, overrides: Partial<BenchmarkGameResult> = {}): BenchmarkGameResult {
+  return { word, solved, guessCount, timeMs: 1000, guesses: [], tokens: 10, cost: 0.01, ...overrides }
+}
+
+function modelResult(id: string, games: BenchmarkGameResult[]): BenchmarkModelResult {
+  return { id, name: id.toUpperCase(), modelString: id, stats: calculateModelStats(games), games }
+}
+
+// Mock provider model that always answers the target word
+const mockModel = (id: string): ModelConfig => ({ id, name: `Mock ${id}`, modelString: "answer?latencyMs=0", provider: "mock" })
+
+describe("selectModels", () => {
+  const catalog = [...DEFAULT_MODELS, ...BASELINE_MODELS]
+
+  it("keeps every model without filters", () => {
+    expect(selectModels(catalog)).toEqual(catalog)
+  })
+
+  it("matches exact IDs and * patterns in catalog order", () => {
+    const selected = selectModels(catalog, { modelIds: ["solver-random", "claude-opus-4.6*"] })
+    expect(selected.map((m) => m.id)).toContain("claude-opus-4.6-thinking")
+    expect(selected.at(-1)!.id).toBe("solver-random")
+    expect(selected.every((m) => m.id === "solver-random" || m.id.startsWith("claude-opus-4.6"))).toBe(true)
+  })
+
+  it("filters by provider", () => {
+    expect(selectModels(catalog, { providers: ["baseline"] })).toEqual(BASELINE_MODELS)
+  })
+
+  it("requires a model to pass every filter", () => {
+    expect(selectModels(catalog, { modelIds: ["solver-*", "gpt-5.2"], providers: ["baseline"] })).toEqual(BASELINE_MODELS)
+  })
+
+  it("throws when an ID or pattern matches nothing", () => {
+    expect(() => selectModels(catalog, { modelIds: ["gpt-5.2", "no-such-*"] })).toThrow("No model matches: no-such-*")
+  })
+})
+
+describe("resolveWordSet", () => {
+  const tmpFiles: string[] = []
+  afterEach(() => {
+    tmpFiles.splice(0).forEach((file) => fs.rmSync(file, { force: true }))
+  })
+  const writeWords = (data: unknown) => {
+    const file = path.join(os.tmpdir(), `words-${Date.now()}-${tmpFiles.length}.json`)
+    fs.writeFileSync(file, JSON.stringify(data))
+    tmpFiles.push(file)
+    return file
+  }
+
+  it("loads the curated benchmark words and the quick subset", () => {
+    const words = resolveWordSet()
+    expect(words).toHaveLength(50)
+    expect(resolveWordSet("quick")).toEqual(words.slice(0, QUICK_WORD_COUNT))
+  })
+
+  it("reads comma-separated lists, lowercased and without duplicates", () => {
+    expect(resolveWordSet("CRANE, stone,crane")).toEqual(["crane", "stone"])
+    expect(resolveWordSet("cigar,rebut")).toEqual(["cigar", "rebut"])
+  })
+
+  it("reads word files holding an array or a words object", () => {
+    expect(resolveWordSet(writeWords(["apple", "stone"]))).toEqual(["apple", "stone"])
+    expect(resolveWordSet(writeWords({ words: ["crane"] }))).toEqual(["crane"])
+    expect(() => resolveWordSet(writeWords({ list: ["crane"] }))).toThrow('"words" array')
+  })
+
+  it("rejects words that can't be a 5-letter answer", () => {
+    expect(() => resolveWordSet("crane,pious,cranes")).toThrow("Not 5-letter answer words: pious, cranes")
+    expect(() => resolveWordSet(",")).toThrow("has no words")
+  })
+})
+
+describe("calculateModelStats", () => {
+  it("aggregates win rate, guesses, times and costs", () => {
+    const stats = calculateModelStats([
+      game("apple", true, 3, { timeMs: 3000 }),
+      game("brain", true, 5, { timeMs: 1000 }),
+      game("crane", false, 6, { timeMs: 9000 }),
+    ])
+
+    expect(stats.winRate).toBeCloseTo(66.67, 1)
+    expect(stats.avgGuesses).toBe(4)
+    expect(stats.medianTimeMs).toBe(3000)
+    expect(stats.avgTimeMs).toBe(2000)
+    expect(stats.totalCost).toBeCloseTo(0.03)
+    expect(stats.gamesPlayed).toBe(3)
+    expect(stats.gamesSolved).toBe(2)
+    expect(stats.guessDistribution).toEqual({ 1: 0, 2: 0, 3: 1, 4: 0, 5: 1, 6: 0 })
+    expect(stats.winRateCI).toBeDefined()
+  })
+
+  it("uses the guess limit for models that solved nothing", () => {
+    expect(calculateModelStats([game("apple", false, 8)], 8).avgGuesses).toBe(8)
+    expect(calculateModelStats([], 6).winRate).toBe(0)
+  })
+
+  it("reports consistency only when guesses were checked", () => {
+    expect(calculateModelStats([game("apple", true)]).consistencyRate).toBeUndefined()
+    const stats = calculateModelStats([game("apple", true, 4, { checkedGuesses: 4, inconsistentGuesses: 1 })])
+    expect(stats.consistencyRate).toBe(75)
+  })
+})
+
+describe("remainingGames", () => {
+  it("lists every trial of every word not yet played", () => {
+    const played = [game("apple", true, 3, { trial: 0 }), game("brain", true)]
+    expect(remainingGames(["apple", "brain"], 2, played)).toEqual([
+      { word: "apple", trial: 1 },
+      { word: "brain", trial: 1 },
+    ])
+  })
+})
+
+describe("restrictResults", () => {
+  const results = buildBenchmarkResults(
+    [modelResult("a", [game("apple", true, 2), game("brain", false, 6)]), modelResult("b", [game("apple", true, 4)])],
+    ["apple", "brain"],
+    { startTime: Date.now(), settings: DEFAULT_GAME_SETTINGS, trials: 1 }
+  )
+
+  it("drops models and rebuilds the leaderboard", () => {
+    const restricted = restrictResults(results, { modelIds: ["b"] })
+    expect(restricted.models.map((m) => m.id)).toEqual(["b"])
+    expect(restricted.leaderboard.map((e) => e.modelId)).toEqual(["b"])
+    expect(restricted.metadata.totalModels).toBe(1)
+    expect(restricted.metadata.totalGames).toBe(1)
+  })
+
+  it("recomputes stats over the kept words", () => {
+    const restricted = restrictResults(results, { words: ["apple"] })
+    expect(restricted.words).toEqual(["apple"])
+    expect(restricted.metadata.wordCount).toBe(1)
+    expect(restricted.models.find((m) => m.id === "a")!.stats.winRate).toBe(100)
+  })
+})
+
+describe("running games", () => {
+  it("plays a game and records its guesses", async () => {
+    const result = await runBenchmarkGame(mockModel("mock-answer"), "crane", DEFAULT_GAME_SETTINGS, 1)
+
+    expect(result).toMatchObject({ word: "crane", trial: 1, solved: true, guessCount: 1, guesses: ["crane"] })
+  })
+
+  it("plays only the missing games and reports progress", async () => {
+    const progress: number[] = []
+    const result = await benchmarkModel(mockModel("mock-answer"), {
+      words: ["crane", "stone"],
+      trials: 2,
+      settings: DEFAULT_GAME_SETTINGS,
+      concurrency: 2,
+      initialGames: [game("crane", true, 1, { trial: 0 })],
+      onGameComplete: (_, { completed, total }, partial) => {
+        expect(total).toBe(3)
+        progress.push(completed)
+        expect(partial.games).toHaveLength(completed + 1)
+      },
+    })
+
+    expect(progress).toEqual([1, 2, 3])
+    expect(result.games).toHaveLength(4)
+    expect(result.stats.winRate).toBe(100)
+    expect(new Set(result.games.map((g) => `${g.word}#${g.trial}`)).size).toBe(4)
+  })
+})
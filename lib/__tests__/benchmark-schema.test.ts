@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest"
+import {
+  BENCHMARK_SCHEMA_VERSION,
+  SCHEMA_VERSIONS,
+  getSchemaVersion,
+  migrateBenchmarkResults,
+  parseBenchmarkResults,
+} from "../benchmark-schema"
+import benchmarkResultsJson from "@/data/benchmark-results.json"
+
+// A minimal file in the original (version 1) format
+function makeV1Results() {
+  const stats = {
+    winRate: null,
+    avgGuesses: 6,
+    medianTimeMs: 0,
+    avgTimeMs: 0,
+    totalTokens: 0,
+    totalCost: 0,
+    gamesPlayed: 0,
+    gamesSolved: 0,
+    guessDistribution: { "1": 0, "2": 0 },
+  }
+  return {
+    metadata: { runDate: "2026-01-01T00:00:00.000Z", wordCount: 1, version: "1.0-partial", totalModels: 1, totalGames: 0, totalCost: 0, runDurationMs: 0 },
+    words: ["apple"],
+    models: [{ id: "a", name: "A", modelString: "test/a", stats, games: [] }],
+    leaderboard: [{ rank: 1, modelId: "a", modelName: "A", score: 0, winRate: null, avgGuesses: 6, medianTimeMs: 0, totalCost: 0 }],
+  }
+}
+
+describe("SCHEMA_VERSIONS", () => {
+  it("lists every version up to the current one", () => {
+    expect(SCHEMA_VERSIONS.map((v) => v.version)).toEqual(
+      Array.from({ length: BENCHMARK_SCHEMA_VERSION }, (_, i) => i + 1)
+    )
+  })
+})
+
+describe("migrateBenchmarkResults", () => {
+  it("treats files without a schema version as version 1", () => {
+    expect(getSchemaVersion(makeV1Results())).toBe(1)
+    expect(getSchemaVersion({ metadata: { schemaVersion: 2 } })).toBe(2)
+  })
+
+  it("upgrades version 1 files: null win rates become 0", () => {
+    const migrated = migrateBenchmarkResults(makeV1Results()) as ReturnType<typeof makeV1Results>
+    expect(getSchemaVersion(migrated)).toBe(BENCHMARK_SCHEMA_VERSION)
+    expect(migrated.models[0].stats.winRate).toBe(0)
+    expect(migrated.leaderboard[0].winRate).toBe(0)
+  })
+
+  it("does not change the input", () => {
+    const original = makeV1Results()
+    migrateBenchmarkResults(original)
+    expect(original).toEqual(makeV1Results())
+  })
+
+  it("rejects files from a newer schema", () => {
+    expect(() => migrateBenchmarkResults({ metadata: { schemaVersion: BENCHMARK_SCHEMA_VERSION + 1 } })).toThrow(/newer than the supported/)
+  })
+
+  it("passes through parts it can't upgrade for validation to report", () => {
+    expect(migrateBenchmarkResults({ models: [null, 3], leaderboard: "none" })).toEqual({
+      metadata: { schemaVersion: 2 },
+      models: [null, 3],
+      leaderboard: "none",
+    })
+    expect(migrateBenchmarkResults([])).toEqual([])
+  })
+})
+
+describe("parseBenchmarkResults", () => {
+  it("loads the published results", () => {
+    const results = parseBenchmarkResults(benchmarkResultsJson)
+    expect(results.metadata.schemaVersion).toBe(BENCHMARK_SCHEMA_VERSION)
+    expect(results.models.every((m) => typeof m.stats.winRate === "number")).toBe(true)
+  })
+
+  it("loads a current file unchanged", () => {
+    const current = parseBenchmarkResults(makeV1Results())
+    expect(parseBenchmarkResults(JSON.parse(JSON.stringify(current)))).toEqual(current)
+  })
+
+  it("lists each problem with its path", () => {
+    const broken = makeV1Results() as any
+    broken.models[0].games = [{ word: "apple", solved: "yes", guessCount: 3 }]
+    delete broken.metadata.runDate
+
+    let message = ""
+    try {
+      parseBenchmarkResults(broken, "runs/broken.json")
+    } catch (error) {
+      message = (error as Error).message
+    }
+    expect(message).toContain("Invalid runs/broken.json")
+    expect(message).toContain("metadata.runDate")
+    expect(message).toContain("models[0].games[0].solved")
+    expect(message).toContain("models[0].games[0].timeMs")
+  })
+
+  it("rejects anything that isn't an object", () => {
+    expect(() => parseBenchmarkResults(null)).toThrow(/expected a JSON object/)
+    expect(() => parseBenchmarkResults([])).toThrow(/expected a JSON object/)
+  })
+})
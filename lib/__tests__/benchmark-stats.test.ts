@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest"
+import {
+  bootstrapConfidenceInterval,
+  calculateConfidenceIntervals,
+  calculateAvgGuesses,
+  calculateWinRate,
+  compareModels,
+  groupGamesByWord,
+  mcnemarExactTest,
+  pairedPermutationTest,
+  rankBiserialCorrelation,
+} from "../benchmark-stats"
+import type { BenchmarkGameResult, BenchmarkModelResult } from "../benchmark-types"
+
+function game(word: string, solved: boolean, guessCount = 4, trial = 0): BenchmarkGameResult {
+  return { word, trial, solved, guessCount, timeMs: 1000, guesses: [], tokens: 0, cost: 0 }
+}
+
+const mixedGames = [
+  game("apple", true, 3), game("brain", false, 6), game("crane", true, 4), game("drink", true, 5),
+  game("eagle", false, 6), game("flute", true, 2), game("ghost", true, 4), game("house", false, 6),
+]
+
+describe("bootstrapConfidenceInterval", () => {
+  it("returns undefined when there is nothing to resample", () => {
+    expect(bootstrapConfidenceInterval([], () => 1)).toBeUndefined()
+    expect(bootstrapConfidenceInterval([[1]], () => undefined)).toBeUndefined()
+  })
+
+  it("gives the same interval for the same seed", () => {
+    const groups = [[1], [2], [3], [4], [5]]
+    const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length
+    expect(bootstrapConfidenceInterval(groups, mean, { seed: 7 })).toEqual(bootstrapConfidenceInterval(groups, mean, { seed: 7 }))
+  })
+})
+
+describe("groupGamesByWord", () => {
+  it("keeps every trial of a word together", () => {
+    const groups = groupGamesByWord([game("apple", true, 3, 0), game("brain", false), game("apple", false, 6, 1)])
+    expect(groups.map((g) => g.length)).toEqual([2, 1])
+  })
+})
+
+describe("calculateConfidenceIntervals", () => {
+  it("brackets the point estimates", () => {
+    const { winRateCI, avgGuessesCI } = calculateConfidenceIntervals(mixedGames)
+    const winRate = calculateWinRate(mixedGames)!
+    const avgGuesses = calculateAvgGuesses(mixedGames)!
+
+    expect(winRateCI![0]).toBeLessThanOrEqual(winRate)
+    expect(winRateCI![1]).toBeGreaterThanOrEqual(winRate)
+    expect(winRateCI![1]).toBeGreaterThan(winRateCI![0])
+    expect(avgGuessesCI![0]).toBeLessThanOrEqual(avgGuesses)
+    expect(avgGuessesCI![1]).toBeGreaterThanOrEqual(avgGuesses)
+  })
+
+  it("is deterministic for the same games", () => {
+    expect(calculateConfidenceIntervals(mixedGames)).toEqual(calculateConfidenceIntervals([...mixedGames]))
+  })
+
+  it("has zero width when every game has the same outcome", () => {
+    const games = ["apple", "brain", "crane"].map((w) => game(w, true, 4))
+    expect(calculateConfidenceIntervals(games)).toEqual({ winRateCI: [100, 100], avgGuessesCI: [4, 4] })
+  })
+
+  it("leaves avg guesses open when nothing was solved", () => {
+    const { winRateCI, avgGuessesCI } = calculateConfidenceIntervals([game("apple", false), game("brain", false)])
+    expect(winRateCI).toEqual([0, 0])
+    expect(avgGuessesCI).toBeUndefined()
+    expect(calculateConfidenceIntervals([])).toEqual({ winRateCI: undefined, avgGuessesCI: undefined })
+  })
+})
+
+describe("mcnemarExactTest", () => {
+  it("matches the two-sided binomial test on the discordant games", () => {
+    expect(mcnemarExactTest(0, 0)).toBe(1)
+    expect(mcnemarExactTest(3, 3)).toBe(1)
+    expect(mcnemarExactTest(10, 0)).toBeCloseTo(2 / 1024)
+    expect(mcnemarExactTest(0, 10)).toBeCloseTo(2 / 1024)
+    expect(mcnemarExactTest(8, 2)).toBeCloseTo(0.109375)
+  })
+})
+
+describe("pairedPermutationTest", () => {
+  it("enumerates sign flips exactly for few pairs", () => {
+    expect(pairedPermutationTest([0, 0])).toBe(1)
+    expect(pairedPermutationTest([-1, -1, -1, -1, -1])).toBeCloseTo(2 / 32)
+    expect(pairedPermutationTest([1, -1])).toBe(1)
+  })
+
+  it("samples with a seed for many pairs", () => {
+    const differences = Array.from({ length: 30 }, (_, i) => (i % 3 === 0 ? 1 : -1))
+    const p = pairedPermutationTest(differences, 5)
+    expect(p).toBe(pairedPermutationTest(differences, 5))
+    expect(p).toBeGreaterThan(0)
+    expect(p).toBeLessThanOrEqual(1)
+    expect(pairedPermutationTest(Array(30).fill(-1), 5)).toBeLessThan(0.001)
+  })
+})
+
+describe("rankBiserialCorrelation", () => {
+  it("is -1 or 1 when every difference points one way and uses average ranks for ties", () => {
+    expect(rankBiserialCorrelation([-1, -2, 0])).toBe(-1)
+    expect(rankBiserialCorrelation([3, 1])).toBe(1)
+    expect(rankBiserialCorrelation([])).toBe(0)
+    // ranks 1.5, 1.5, 3: positive 1.5 + 3, negative 1.5
+    expect(rankBiserialCorrelation([1, -1, 2])).toBeCloseTo(0.5)
+  })
+})
+
+describe("compareModels", () => {
+  const model = (id: string, games: BenchmarkGameResult[]): BenchmarkModelResult => ({
+    id,
+    name: id,
+    modelString: id,
+    stats: {} as BenchmarkModelResult["stats"],
+    games,
+  })
+
+  it("pairs games by word and trial and ignores unshared ones", () => {
+    const a = model("a", [game("apple", true, 3), game("apple", true, 4, 1), game("brain", true, 3), game("crane", false, 6)])
+    const b = model("b", [game("apple", true, 5), game("brain", false, 6), game("crane", false, 6), game("drink", true, 2)])
+    const result = compareModels(a, b)
+
+    expect(result.sharedGames).toBe(3)
+    expect(result.solves).toMatchObject({ pairs: 3, bothSolved: 1, onlyA: 1, onlyB: 0, oddsRatio: Infinity })
+    expect(result.solves.winRateDifference).toBeCloseTo(100 / 3)
+    expect(result.guesses).toMatchObject({ pairs: 1, meanDifference: -2, rankBiserial: -1, pValue: 1 })
+  })
+
+  it("finds a consistent gap significant", () => {
+    const words = Array.from({ length: 12 }, (_, i) => `word${i}`)
+    const a = model("a", words.map((w) => game(w, true, 3)))
+    const b = model("b", words.map((w, i) => game(w, i < 2, i < 2 ? 5 : 6)))
+    const result = compareModels(a, b)
+
+    expect(result.solves.pValue).toBeLessThan(0.05)
+    expect(result.guesses?.pairs).toBe(2)
+  })
+
+  it("leaves guesses out when no shared game was solved by both", () => {
+    const result = compareModels(model("a", [game("apple", true, 3)]), model("b", [game("apple", false, 6)]))
+    expect(result.guesses).toBeUndefined()
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { Cassette, getCassetteSettings, type CassetteSettings } from "../cassettes"
+import { runModelOnClue, type RunClueParams } from "../ai-runner"
+import type { Clue, ModelConfig } from "../types"
+
+const clue: Clue = { id: "wordle-guess-0", clue: "", answer: "crane", length: 5, caseRule: "lower" }
+const model: ModelConfig = { id: "mock-1", name: "Mock", modelString: "canned:slate?latencyMs=5", provider: "mock" }
+
+function run(cassette: CassetteSettings, overrides: Partial<RunClueParams> = {}) {
+  const progress: string[] = []
+  const result = runModelOnClue({
+    raceId: "race",
+    roundId: "round",
+    clue,
+    model,
+    mode: "plain",
+    cassette,
+    onModelProgress: (_, __, text) => progress.push(text),
+    ...overrides,
+  })
+  return result.then((r) => ({ ...r, progress }))
+}
+
+describe("cassettes", () => {
+  const tmpDirs: string[] = []
+  afterEach(() => {
+    tmpDirs.splice(0).forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }))
+  })
+
+  it("records text, reasoning, usage and timing", async () => {
+    const cassette = new Cassette()
+    await run({ mode: "record", cassette, speed: 1 })
+
+    const [entry] = cassette.getEntries()
+    expect(entry).toMatchObject({ modelId: "mock-1", provider: "mock" })
+    expect(entry.prompt).toContain("Length: 5")
+    const types = entry.events.map((e) => e.part.type)
+    expect(types).toContain("reasoning-delta")
+    expect(types).toContain("text-delta")
+    expect(entry.events.at(-1)!.part).toMatchObject({ type: "finish", usage: { outputTokens: expect.any(Number) } })
+    expect(entry.events.at(-1)!.t).toBeGreaterThanOrEqual(entry.events[0].t)
+  })
+
+  it("replays a recording exactly without the provider", async () => {
+    const cassette = new Cassette()
+    const recorded = await run({ mode: "record", cassette, speed: 1 })
+
+    // A model the mock would answer differently still replays the recorded stream
+    const replayed = await run(
+      { mode: "replay", cassette: new Cassette(undefined, cassette.getEntries()), speed: 0 },
+      { model: { ...model, modelString: "canned:xxxxx" } },
+    )
+
+    expect(replayed.error).toBeUndefined()
+    expect(replayed.attempt.output).toBe(recorded.attempt.output)
+    expect(replayed.attempt.tokenUsage).toEqual(recorded.attempt.tokenUsage)
+    expect(replayed.progress).toEqual(recorded.progress)
+  })
+
+  it("keeps the original timing unless sped up", async () => {
+    const cassette = new Cassette()
+    await run({ mode: "record", cassette, speed: 1 })
+    const recordedMs = cassette.getEntries()[0].events.at(-1)!.t
+
+    const replayed = await run({ mode: "replay", cassette: new Cassette(undefined, cassette.getEntries()), speed: 1 })
+    expect(replayed.attempt.e2eMs).toBeGreaterThanOrEqual(recordedMs * 0.8)
+  })
+
+  it("plays repeated prompts in order until they run out", async () => {
+    const cassette = new Cassette()
+    await run({ mode: "record", cassette, speed: 1 }, { model: { ...model, modelString: "canned:slate?latencyMs=0" } })
+    await run({ mode: "record", cassette, speed: 1 }, { model: { ...model, modelString: "canned:crane?latencyMs=0" } })
+
+    const replay: CassetteSettings = { mode: "replay", cassette: new Cassette(undefined, cassette.getEntries()), speed: 0 }
+    expect((await run(replay)).attempt.output).toBe("slate")
+    expect((await run(replay)).attempt.output).toBe("crane")
+    // A missing recording fails the stream like a provider error would
+    expect((await run(replay)).attempt).toMatchObject({ output: "", formatOk: false })
+  })
+
+  it("saves to and loads from a JSON Lines file", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cassette-"))
+    tmpDirs.push(dir)
+    const filePath = path.join(dir, "nested", "run.jsonl")
+
+    await run({ mode: "record", cassette: new Cassette(filePath), speed: 1 })
+    await run({ mode: "record", cassette: new Cassette(filePath), speed: 1 })
+
+    expect(fs.readFileSync(filePath, "utf-8").trim().split("\n")).toHaveLength(2)
+    expect(Cassette.load(filePath).getEntries()).toHaveLength(2)
+  })
+
+  it("reads its settings from the environment", () => {
+    expect(getCassetteSettings({})).toBeUndefined()
+    expect(() => getCassetteSettings({ CASSETTE_MODE: "rewind" })).toThrow("CASSETTE_MODE")
+    expect(() => getCassetteSettings({ CASSETTE_MODE: "replay", CASSETTE_PATH: "/no/such/cassette.jsonl" }))
+      .toThrow("Cassette not found")
+
+    const settings = getCassetteSettings({ CASSETTE_MODE: "record", CASSETTE_PATH: "x.jsonl", CASSETTE_SPEED: "4" })
+    expect(settings).toMatchObject({ mode: "record", speed: 4 })
+    expect(settings!.cassette.filePath).toBe("x.jsonl")
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest"
+import { analyzeGuess, expectedInformation, findMostInformativeGuess, summarizeGuessAnalysis } from "../guess-analysis"
+import { computeWordleFeedback } from "../wordle-utils"
+import { getAllWords } from "../wordle-words"
+import { WordleEngine } from "../wordle-engine"
+import type { ModelConfig } from "../types"
+
+const row = (word: string, target: string) => ({ word, feedback: computeWordleFeedback(word, target) })
+
+describe("expectedInformation", () => {
+  it("is zero for one candidate and log2(n) when every candidate splits apart", () => {
+    expect(expectedInformation("crane", ["crane"])).toBe(0)
+    expect(expectedInformation("crane", ["crane", "slate"])).toBeCloseTo(1)
+  })
+})
+
+describe("findMostInformativeGuess", () => {
+  const answers = getAllWords(5)
+
+  it("sums the opening guess's information over every board", () => {
+    const single = findMostInformativeGuess([answers], 5, new Set(), () => true)
+    const double = findMostInformativeGuess([answers, answers], 5, new Set(), () => true)
+    expect(double.word).toBe(single.word)
+    expect(double.bits).toBeCloseTo(2 * single.bits)
+  })
+
+  it("searches again when a board holds words beyond the answer list", () => {
+    const board = [...answers, "qajaq"]
+    const best = findMostInformativeGuess([board], 5, new Set(), (w) => w === "crane" || w === "qajaq")
+    expect(best).toEqual({ word: "crane", bits: expectedInformation("crane", board) })
+  })
+
+  it("bounds the search for a custom target outside the answer list", () => {
+    const start = performance.now()
+    const analysis = analyzeGuess([], "crane", computeWordleFeedback("crane", "qajaq"), { wordLength: 5, extraCandidates: ["qajaq"] })
+    // A full search here scores 13k guesses against 2.3k candidates and takes seconds
+    expect(performance.now() - start).toBeLessThan(1000)
+    expect(analysis?.candidatesBefore).toBe(answers.length + 1)
+    expect(analysis?.bestGuess).toBe("soare")
+  })
+})
+
+describe("analyzeGuess", () => {
+  it("counts the answers before and after and measures the bits", () => {
+    const analysis = analyzeGuess([], "crane", computeWordleFeedback("crane", "night"), { wordLength: 5 })!
+
+    expect(analysis.candidatesAfter).toBeGreaterThan(0)
+    expect(analysis.candidatesAfter).toBeLessThan(analysis.candidatesBefore)
+    expect(analysis.actualBits).toBeCloseTo(Math.log2(analysis.candidatesBefore / analysis.candidatesAfter))
+    expect(analysis.luck).toBeCloseTo(analysis.actualBits - analysis.expectedBits)
+    expect(analysis.bestExpectedBits).toBeGreaterThanOrEqual(analysis.expectedBits)
+    expect(analysis.skill).toBeGreaterThan(0)
+    expect(analysis.skill).toBeLessThanOrEqual(100)
+  })
+
+  it("scores a weak guess below the best one", () => {
+    const analysis = analyzeGuess([], "fuzzy", computeWordleFeedback("fuzzy", "night"), { wordLength: 5 })!
+
+    expect(analysis.bestGuess).not.toBe("fuzzy")
+    expect(analysis.skill).toBeLessThan(80)
+  })
+
+  it("narrows the candidates using earlier guesses and skips rows without feedback", () => {
+    const previous = [row("crane", "night"), { word: "zzzzz", feedback: [] }]
+    const first = analyzeGuess([], "crane", previous[0].feedback, { wordLength: 5 })!
+    const second = analyzeGuess(previous, "light", computeWordleFeedback("light", "night"), { wordLength: 5 })!
+
+    expect(second.candidatesBefore).toBe(first.candidatesAfter)
+  })
+
+  it("leaves one answer after the solving guess", () => {
+    const previous = [row("crane", "night"), row("light", "night")]
+    const rows = [...previous, row("sight", "night"), row("might", "night"), row("tight", "night"), row("fight", "night")]
+    const analysis = analyzeGuess(rows, "night", computeWordleFeedback("night", "night"), { wordLength: 5 })
+
+    expect(analysis?.candidatesAfter).toBe(1)
+  })
+
+  it("returns undefined when the feedback rules out every answer", () => {
+    expect(analyzeGuess([], "crane", ["absent", "correct", "correct", "correct", "correct"], { wordLength: 5 })).toBeUndefined()
+    expect(analyzeGuess([], "crane", [], { wordLength: 5 })).toBeUndefined()
+  })
+
+  it("accepts target words outside the answer list", () => {
+    const feedback = computeWordleFeedback("zzzzz", "qajaq")
+    expect(analyzeGuess([], "zzzzz", feedback, { wordLength: 5, extraCandidates: ["qajaq"] })?.candidatesAfter).toBeGreaterThan(0)
+  })
+})
+
+describe("summarizeGuessAnalysis", () => {
+  it("averages the analyzed guesses", () => {
+    const base = { candidatesBefore: 2, candidatesAfter: 1, expectedBits: 1, actualBits: 1, bestGuess: "x", bestExpectedBits: 1 }
+    expect(summarizeGuessAnalysis([{ ...base, skill: 100, luck: 0.5 }, undefined, { ...base, skill: 50, luck: -0.5 }]))
+      .toEqual({ avgSkill: 75, avgLuck: 0 })
+    expect(summarizeGuessAnalysis([])).toEqual({})
+  })
+})
+
+describe("WordleEngine guess analysis", () => {
+  it("stores the analysis on each guess and in the results", async () => {
+    const model: ModelConfig = { id: "canned", name: "Canned", modelString: "canned:crane,light,night?latencyMs=0", provider: "mock" }
+    const engine = new WordleEngine({
+      id: "wordle-analysis",
+      name: "Analysis",
+      models: [model],
+      targetWord: "night",
+      wordLength: 5,
+      maxGuesses: 6,
+      createdAt: 0,
+    })
+
+    const result = await engine.start()
+    const guesses = engine.getState().modelStates.get("canned")!.guesses
+    const modelResult = result.modelResults[0]
+
+    expect(guesses.every((g) => g.analysis)).toBe(true)
+    expect(modelResult.guessAnalysis?.map((a) => a.word)).toEqual(["crane", "light", "night"])
+    expect(modelResult.avgSkill).toBeGreaterThan(0)
+    expect(modelResult.avgLuck).toBeDefined()
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest"
+import {
+  parseMockModelString,
+  parseWordlePrompt,
+  chooseMockAnswer,
+  createMockLanguageModel,
+} from "../mock-model"
+import { generateWordlePrompt, generateMultiWordlePrompt } from "../prompts"
+import { chooseSolverBaselineGuess } from "../solvers"
+import { computeWordleFeedback } from "../wordle-utils"
+import { runModelOnClue } from "../ai-runner"
+import { WordleEngine } from "../wordle-engine"
+import type { Clue, ModelConfig } from "../types"
+
+const wordleClue = (guessIndex: number, answer = "crane"): Clue => ({
+  id: `wordle-guess-${guessIndex}`,
+  clue: "",
+  answer,
+  length: 5,
+  caseRule: "lower",
+})
+
+describe("parseMockModelString", () => {
+  it("reads the strategy and options", () => {
+    expect(parseMockModelString("canned:crane, SLATE?latencyMs=0&reasoning=false")).toMatchObject({
+      strategy: "canned",
+      words: ["crane", "slate"],
+      latencyMs: 0,
+      reasoning: false,
+    })
+    expect(parseMockModelString("solver?seed=7")).toMatchObject({ strategy: "solver", seed: 7 })
+  })
+
+  it("plays any other model string as a seeded solver", () => {
+    const options = parseMockModelString("openai/gpt-5", 5)
+    expect(options).toMatchObject({ strategy: "solver", latencyMs: 5, reasoning: true })
+    expect(options.seed).toBe(parseMockModelString("openai/gpt-5").seed)
+  })
+})
+
+describe("parseWordlePrompt", () => {
+  it("reads single-board rows and refused answers", () => {
+    const prompt = generateWordlePrompt("crane", [
+      { word: "slate", feedback: computeWordleFeedback("slate", "crane") },
+      { word: "xqzvk", feedback: [], invalid: true, invalidReason: "not in word list" },
+    ], undefined, { invalidAttempts: [{ word: "abcde", reason: "not in word list" }] })
+
+    const parsed = parseWordlePrompt(prompt)
+    expect(parsed.rowsByBoard.get(0)).toEqual([{ word: "slate", feedback: computeWordleFeedback("slate", "crane") }])
+    expect(parsed.tried).toEqual(new Set(["slate", "xqzvk", "abcde"]))
+  })
+
+  it("reads per-board feedback from multi-board prompts", () => {
+    const prompt = generateMultiWordlePrompt(2, [
+      { word: "crane", boardFeedback: [computeWordleFeedback("crane", "crane"), computeWordleFeedback("crane", "about")] },
+    ])
+
+    const parsed = parseWordlePrompt(prompt)
+    expect(parsed.solvedBoards).toEqual(new Set([0]))
+    expect(parsed.rowsByBoard.get(1)?.[0].feedback).toEqual(computeWordleFeedback("crane", "about"))
+  })
+})
+
+describe("chooseMockAnswer", () => {
+  it("replays canned words by turn and formats JSON answers", () => {
+    const options = parseMockModelString("canned:slate,crane")
+    expect(chooseMockAnswer("", wordleClue(1), "plain", options).text).toBe("crane")
+    expect(chooseMockAnswer("", { ...wordleClue(0), id: "clue-1" }, "json", parseMockModelString("answer")).text)
+      .toBe('{"answer":"crane"}')
+  })
+
+  it("plays the random solver baseline's pick on wordle turns", () => {
+    const prompt = generateWordlePrompt("about", [{ word: "crane", feedback: computeWordleFeedback("crane", "about") }])
+    const options = parseMockModelString("solver?seed=1")
+    const { text } = chooseMockAnswer(prompt, wordleClue(1, "about"), "plain", options)
+    expect(computeWordleFeedback("crane", text)).toEqual(computeWordleFeedback("crane", "about"))
+    expect(text).toBe(chooseSolverBaselineGuess(prompt, 5, "random", 1).word)
+  })
+})
+
+describe("mock model end to end", () => {
+  const mockModel = (modelString: string): ModelConfig => ({ id: "mock-1", name: "Mock", modelString, provider: "mock" })
+
+  it("streams a guess through runModelOnClue without a network", async () => {
+    const progress: string[] = []
+    const result = await runModelOnClue({
+      raceId: "race",
+      roundId: "round",
+      clue: wordleClue(0),
+      model: mockModel("canned:slate?latencyMs=0"),
+      mode: "plain",
+      onModelProgress: (_, __, text) => progress.push(text),
+    })
+
+    expect(result.error).toBeUndefined()
+    expect(result.attempt.output).toBe("slate")
+    expect(result.attempt.tFirst).toBeDefined()
+    expect(progress.at(-1)).toContain("scripted word")
+  })
+
+  it("reports reasoning tokens separately from the answer", async () => {
+    const result = await runModelOnClue({
+      raceId: "race",
+      roundId: "round",
+      clue: wordleClue(0),
+      model: mockModel("canned:slate?latencyMs=0"),
+      mode: "plain",
+    })
+    const usage = result.attempt.tokenUsage!
+
+    expect(usage.prompt).toBeGreaterThan(0)
+    expect(usage.reasoning).toBeGreaterThan(0)
+    expect(usage.completion).toBeGreaterThan(usage.reasoning!)
+    expect(usage.cachedPrompt).toBeUndefined()
+  })
+
+  it("stops streaming when aborted", async () => {
+    const controller = new AbortController()
+    const model = createMockLanguageModel("solver?latencyMs=1000", wordleClue(0), "plain")
+    const { stream } = await model.doStream({ prompt: [], abortSignal: controller.signal })
+    const reader = stream.getReader()
+    controller.abort()
+    await expect(reader.read()).rejects.toThrow("Aborted")
+  })
+
+  it("solves a race offline", async () => {
+    const engine = new WordleEngine({
+      id: "wordle-mock",
+      name: "Offline race",
+      models: [mockModel("solver?latencyMs=0&reasoning=false")],
+      targetWord: "crane",
+      wordLength: 5,
+      maxGuesses: 0,
+      createdAt: 0,
+    })
+
+    const result = await engine.start()
+    expect(result.modelResults[0].solved).toBe(true)
+    expect(result.modelResults[0].invalidGuesses).toBeUndefined()
+    expect(result.modelResults[0].totalTokens).toBeGreaterThan(0)
+    expect(result.modelResults[0].reasoningTokens).toBeUndefined()
+  })
+})
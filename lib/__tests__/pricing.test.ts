@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from "vitest"
+import { calculateEstimatedCost, findModelPrice, loadPricingRegistry, type PricingRegistry } from "../pricing"
+import { DEFAULT_MODELS, BASELINE_MODELS } from "../constants"
+
+const opus = DEFAULT_MODELS.find((m) => m.id === "claude-opus-4.6")!
+
+const registry: PricingRegistry = {
+  version: 7,
+  updated: "2025-06-01",
+  currency: "USD",
+  unit: "per million tokens",
+  models: [
+    {
+      provider: "openrouter",
+      modelString: "acme/thinker",
+      prices: [
+        { effectiveFrom: "2025-01-01", input: 2, output: 8 },
+        { effectiveFrom: "2025-06-01", input: 1, output: 4, cachedInput: 0.1, reasoning: 6 },
+      ],
+    },
+  ],
+}
+const thinker = { id: "thinker", modelString: "acme/thinker" }
+
+describe("calculateEstimatedCost", () => {
+  it("calculates cost for known model", () => {
+    // claude-opus-4.6: input $5/M, output $25/M
+    const cost = calculateEstimatedCost(opus, { input: 1000, output: 500 })
+    expect(cost).toBeCloseTo(0.005 + 0.0125, 4)
+  })
+
+  it("prices cached and reasoning tokens at their own rates", () => {
+    const cost = calculateEstimatedCost(thinker, { input: 1_000_000, output: 1_000_000, cachedInput: 400_000, reasoning: 750_000 }, new Date("2025-07-01"), registry)
+    // 600k input at $1 + 400k cached at $0.10 + 250k output at $4 + 750k reasoning at $6
+    expect(cost).toBeCloseTo(0.6 + 0.04 + 1 + 4.5, 6)
+  })
+
+  it("warns once and costs nothing for a model without a price", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const unknown = { id: "unknown-model", modelString: "acme/unknown" }
+
+    expect(calculateEstimatedCost(unknown, { input: 1_000_000, output: 1_000_000 })).toBe(0)
+    calculateEstimatedCost(unknown, { input: 1, output: 1 })
+
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn.mock.calls[0][0]).toContain("No price for unknown-model")
+    warn.mockRestore()
+  })
+
+  it("returns 0 for zero tokens", () => {
+    expect(calculateEstimatedCost(opus, { input: 0, output: 0 })).toBe(0)
+  })
+})
+
+describe("findModelPrice", () => {
+  it("uses the price in effect on the day", () => {
+    expect(findModelPrice(thinker, new Date("2025-03-01"), registry)).toMatchObject({ input: 2, version: 7 })
+    expect(findModelPrice(thinker, new Date("2025-06-01"), registry)).toMatchObject({ input: 1 })
+    expect(findModelPrice(thinker, new Date("2024-12-31"), registry)).toBeUndefined()
+  })
+
+  it("matches on the provider the model runs against", () => {
+    expect(findModelPrice({ ...thinker, provider: "openai" }, new Date("2025-07-01"), registry)).toBeUndefined()
+    expect(findModelPrice({ id: "local", modelString: "llama3.1:8b", provider: "ollama" })).toMatchObject({ input: 0, output: 0 })
+  })
+
+  it("has a price for every built-in model", () => {
+    const today = new Date()
+    const unpriced = [...DEFAULT_MODELS, ...BASELINE_MODELS].filter((m) => !findModelPrice(m, today))
+    expect(unpriced.map((m) => m.id)).toEqual([])
+  })
+
+  it("keeps every model's prices in date order", () => {
+    loadPricingRegistry().models.forEach((entry) => {
+      const dates = entry.prices.map((p) => p.effectiveFrom)
+      expect(dates).toEqual([...dates].sort())
+    })
+  })
+})
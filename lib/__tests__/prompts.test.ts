@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest"
-import { generateWordlePrompt, generateJsonPrompt, generatePlainPrompt } from "../prompts"
+import { generateWordlePrompt, generateMultiWordlePrompt, generateJsonPrompt, generatePlainPrompt } from "../prompts"
 
 describe("generateWordlePrompt", () => {
   it("generates initial prompt without previous guesses", () => {
@@ -31,6 +31,53 @@ describe("generateWordlePrompt", () => {
     expect(prompt).toContain("Do NOT guess")
   })
 
+  it("uses the configured word length", () => {
+    const prompt = generateWordlePrompt("example", [], undefined, { wordLength: 7 })
+    expect(prompt).toContain("7-letter")
+    expect(prompt).not.toContain("5-letter")
+  })
+
+  it("states the guess limit", () => {
+    expect(generateWordlePrompt("crane", [])).toContain("up to 6 guesses")
+    expect(generateWordlePrompt("crane", [], undefined, { maxGuesses: 10 })).toContain("up to 10 guesses")
+    expect(generateWordlePrompt("crane", [], undefined, { maxGuesses: 0 })).toContain("no guess limit")
+  })
+
+  it("explains hard mode rules when enabled", () => {
+    const prompt = generateWordlePrompt("crane", [], undefined, { hardMode: "enforce" })
+    expect(prompt).toContain("HARD MODE")
+    expect(prompt).toContain("rejected")
+    expect(generateWordlePrompt("crane", [])).not.toContain("HARD MODE")
+  })
+
+  it("marks rejected hard mode guesses without feedback", () => {
+    const previousGuesses = [
+      { word: "slate", feedback: ["absent", "absent", "correct", "absent", "correct"] as ("correct" | "present" | "absent")[] },
+      { word: "moody", feedback: [], rejected: true, hardModeViolations: ["3rd letter must be A"] },
+    ]
+    const prompt = generateWordlePrompt("crane", previousGuesses, undefined, { hardMode: "enforce" })
+    expect(prompt).toContain("Guess 2: MOODY REJECTED (hard mode: 3rd letter must be A)")
+  })
+
+  it("warns that one tile per row lies when lying feedback is on", () => {
+    const prompt = generateWordlePrompt("crane", [], undefined, { lyingFeedback: true })
+    expect(prompt).toContain("exactly one tile in every feedback row is a lie")
+    expect(generateWordlePrompt("crane", [])).not.toContain("is a lie")
+    expect(generateWordlePrompt("crane", [], "Custom prompt", { lyingFeedback: true })).toContain("is a lie")
+  })
+
+  it("marks invalid turns and asks again after a refused answer", () => {
+    const previousGuesses = [
+      { word: "", feedback: [], invalid: true, invalidReason: "no 5-letter word found" },
+    ]
+    const prompt = generateWordlePrompt("crane", previousGuesses, undefined, {
+      invalidAttempts: [{ word: "xqzvk", reason: "not in word list" }],
+    })
+    expect(prompt).toContain("Guess 1: (no word) INVALID (no 5-letter word found, turn lost)")
+    expect(prompt).toContain('- "XQZVK": not in word list')
+    expect(prompt).not.toContain("Do NOT guess any of these words again: \n")
+  })
+
   it("uses custom template when provided", () => {
     const customTemplate = "You are a word expert. Guess a 5-letter word."
     const prompt = generateWordlePrompt("crane", [], customTemplate)
@@ -58,6 +105,25 @@ describe("generateWordlePrompt", () => {
   })
 })
 
+describe("generateMultiWordlePrompt", () => {
+  it("describes every board", () => {
+    const prompt = generateMultiWordlePrompt(4, [], { maxGuesses: 9 })
+    expect(prompt).toContain("4 boards")
+    expect(prompt).toContain("up to 9 guesses")
+  })
+
+  it("shows feedback per board and drops solved boards", () => {
+    const previousGuesses = [
+      { word: "crane", boardFeedback: [["correct", "correct", "correct", "correct", "correct"], ["absent", "present", "absent", "absent", "absent"]] as ("correct" | "present" | "absent")[][] },
+      { word: "sport", boardFeedback: [[], ["correct", "absent", "absent", "present", "absent"]] as ("correct" | "present" | "absent")[][] },
+    ]
+    const prompt = generateMultiWordlePrompt(2, previousGuesses)
+    expect(prompt).toContain("Guess 1: CRANE\n  Board 1: 🟩🟩🟩🟩🟩 SOLVED\n  Board 2: ⬜🟨⬜⬜⬜")
+    expect(prompt).toContain("Guess 2: SPORT\n  Board 2: 🟩⬜⬜🟨⬜")
+    expect(prompt).toContain("Boards still to solve: 2")
+  })
+})
+
 describe("generateJsonPrompt", () => {
   it("includes clue text and length", () => {
     const clue = { id: "1", clue: "Capital of France (5)", answer: "paris", length: 5 }
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest"
+import { DEFAULT_PROVIDER_ID, getModelProviderId, getProvider, getProviders, resolveProviderSettings } from "../providers"
+
+describe("provider registry", () => {
+  it("sends every model to the mock provider in offline mode", () => {
+    expect(getModelProviderId({ provider: "ollama" }, {})).toBe("ollama")
+    expect(getModelProviderId({}, {})).toBe(DEFAULT_PROVIDER_ID)
+    expect(getModelProviderId({ provider: "ollama" }, { MOCK_PROVIDER: "true" })).toBe("mock")
+    expect(getModelProviderId({ provider: "baseline" }, { MOCK_PROVIDER: "true" })).toBe("baseline")
+    expect(resolveProviderSettings("mock", {}).provider.simulated).toBe(true)
+  })
+
+  it("defaults to OpenRouter", () => {
+    expect(DEFAULT_PROVIDER_ID).toBe("openrouter")
+    const settings = resolveProviderSettings(undefined, { OPENROUTER_API_KEY: "sk-or-test" })
+    expect(settings.baseURL).toBe("https://openrouter.ai/api/v1")
+    expect(settings.apiKey).toBe("sk-or-test")
+  })
+
+  it("requires a key only where the provider needs one", () => {
+    expect(() => resolveProviderSettings("openrouter", {})).toThrow("OPENROUTER_API_KEY")
+    expect(resolveProviderSettings("ollama", {}).apiKey).toBeUndefined()
+  })
+
+  it("lets env vars override a provider's base URL", () => {
+    expect(resolveProviderSettings("ollama", {}).baseURL).toBe("http://localhost:11434/v1")
+    expect(resolveProviderSettings("ollama", { OLLAMA_BASE_URL: "http://gpu-box:11434/v1" }).baseURL)
+      .toBe("http://gpu-box:11434/v1")
+  })
+
+  it("adds custom providers from CUSTOM_PROVIDERS", () => {
+    const env = {
+      CUSTOM_PROVIDERS: JSON.stringify([{ id: "groq", baseURL: "https://api.groq.com/openai/v1", apiKeyEnv: "GROQ_API_KEY" }]),
+      GROQ_API_KEY: "gsk-test",
+    }
+    const groq = getProvider("groq", env)!
+    expect(groq.name).toBe("groq")
+    expect(groq.capabilities).toEqual({ temperature: true, responsesApi: false, requiresApiKey: true })
+    expect(resolveProviderSettings("groq", env).apiKey).toBe("gsk-test")
+    expect(getProviders(env).length).toBe(getProviders({}).length + 1)
+  })
+
+  it("rejects unknown providers and malformed config", () => {
+    expect(getProvider("nope", {})).toBeUndefined()
+    expect(() => resolveProviderSettings("nope", {})).toThrow("Unknown provider: nope")
+    expect(() => getProviders({ CUSTOM_PROVIDERS: "{" })).toThrow("JSON array")
+    expect(() => getProviders({ CUSTOM_PROVIDERS: JSON.stringify([{ id: "x" }]) })).toThrow("baseURL")
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest"
+import { createSeededRandom, hashString } from "../random"
+
+describe("createSeededRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createSeededRandom(123)
+    const b = createSeededRandom(123)
+    const first = [a(), a(), a()]
+    expect([b(), b(), b()]).toEqual(first)
+  })
+
+  it("gives different sequences for different seeds", () => {
+    expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)())
+  })
+
+  it("returns numbers in [0, 1)", () => {
+    const random = createSeededRandom(99)
+    for (let i = 0; i < 100; i++) {
+      const value = random()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+})
+
+describe("hashString", () => {
+  it("is stable and spreads similar strings apart", () => {
+    expect(hashString("42:gpt-5")).toBe(hashString("42:gpt-5"))
+    expect(hashString("42:gpt-5")).not.toBe(hashString("42:gpt-4"))
+  })
+})
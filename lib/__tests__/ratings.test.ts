@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest"
+import {
+  BASE_RATING,
+  calculateRatings,
+  compareGameOutcomes,
+  matchesFromBenchmark,
+  matchesFromRace,
+} from "../ratings"
+import type { BenchmarkGameResult, BenchmarkModelResult } from "../benchmark-types"
+import type { WordleModelResult, WordleRaceResult } from "../types"
+
+function game(word: string, solved: boolean, guessCount: number): BenchmarkGameResult {
+  return { word, solved, guessCount, timeMs: 1000, guesses: [], tokens: 0, cost: 0 }
+}
+
+function model(id: string, games: BenchmarkGameResult[]): BenchmarkModelResult {
+  return { id, name: id, modelString: id, stats: {} as BenchmarkModelResult["stats"], games }
+}
+
+describe("compareGameOutcomes", () => {
+  it("ranks solving above failing, then fewer guesses, and draws otherwise", () => {
+    expect(compareGameOutcomes({ solved: true, guessCount: 6 }, { solved: false, guessCount: 6 })).toBe(1)
+    expect(compareGameOutcomes({ solved: false, guessCount: 6 }, { solved: true, guessCount: 2 })).toBe(0)
+    expect(compareGameOutcomes({ solved: true, guessCount: 3 }, { solved: true, guessCount: 4 })).toBe(1)
+    expect(compareGameOutcomes({ solved: true, guessCount: 4 }, { solved: true, guessCount: 4 })).toBe(0.5)
+    expect(compareGameOutcomes({ solved: false, guessCount: 6 }, { solved: false, guessCount: 6 })).toBe(0.5)
+  })
+})
+
+describe("matchesFromBenchmark", () => {
+  it("creates a match for every word each pair of models shares", () => {
+    const matches = matchesFromBenchmark([
+      model("a", [game("apple", true, 3), game("brain", true, 4)]),
+      model("b", [game("apple", true, 4), game("crane", true, 2)]),
+      model("c", [game("apple", false, 6), game("brain", true, 4)]),
+    ])
+
+    expect(matches).toEqual([
+      { modelA: "a", modelB: "b", scoreA: 1 },
+      { modelA: "a", modelB: "c", scoreA: 1 },
+      { modelA: "a", modelB: "c", scoreA: 0.5 },
+      { modelA: "b", modelB: "c", scoreA: 1 },
+    ])
+  })
+})
+
+describe("matchesFromRace", () => {
+  it("pairs every model in the race", () => {
+    const result = (modelId: string, solved: boolean, guessCount: number): WordleModelResult =>
+      ({ modelId, modelName: modelId, solved, guessCount, rank: 0 }) as WordleModelResult
+    const race: WordleRaceResult = {
+      gameId: "g",
+      targetWord: "apple",
+      modelResults: [result("a", true, 3), result("b", true, 5), result("user", false, 6)],
+    }
+
+    expect(matchesFromRace(race)).toEqual([
+      { modelA: "a", modelB: "b", scoreA: 1 },
+      { modelA: "a", modelB: "user", scoreA: 1 },
+      { modelA: "b", modelB: "user", scoreA: 1 },
+    ])
+  })
+})
+
+describe("calculateRatings", () => {
+  it("returns nothing without matches", () => {
+    expect(calculateRatings([])).toEqual([])
+  })
+
+  it("orders models by head-to-head results around the base rating", () => {
+    const matches = [
+      ...Array(8).fill({ modelA: "a", modelB: "b", scoreA: 1 }),
+      ...Array(8).fill({ modelA: "b", modelB: "c", scoreA: 1 }),
+      ...Array(8).fill({ modelA: "a", modelB: "c", scoreA: 0.5 }),
+      { modelA: "a", modelB: "c", scoreA: 1 },
+    ]
+    const ratings = calculateRatings(matches)
+
+    expect(ratings.map((r) => r.modelId)).toEqual(["a", "b", "c"])
+    expect(ratings.reduce((sum, r) => sum + r.rating, 0) / 3).toBeCloseTo(BASE_RATING)
+    expect(ratings.find((r) => r.modelId === "a")?.matches).toBe(17)
+    ratings.forEach((r) => expect(r.ratingError).toBeGreaterThan(0))
+  })
+
+  it("stays finite for an unbeaten model and narrows with more games", () => {
+    const few = calculateRatings(Array(4).fill({ modelA: "a", modelB: "b", scoreA: 1 }))
+    const many = calculateRatings(Array(40).fill({ modelA: "a", modelB: "b", scoreA: 0.5 }))
+
+    expect(Number.isFinite(few[0].rating)).toBe(true)
+    expect(few[0].rating).toBeGreaterThan(few[1].rating)
+    expect(many[0].rating).toBeCloseTo(BASE_RATING)
+    expect(many[0].ratingError).toBeLessThan(few[0].ratingError)
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest"
+import {
+  DEFAULT_REGRESSION_THRESHOLDS,
+  buildRegressionReport,
+  findRegressions,
+  formatRegressionMarkdown,
+} from "../regression-report"
+import type { BenchmarkRunDiff, ModelRunDiff } from "../benchmark-diff"
+
+function changed(overrides: Partial<ModelRunDiff> = {}): ModelRunDiff {
+  return {
+    modelId: "a",
+    modelName: "Model A",
+    status: "changed",
+    winRate: { base: 80, head: 80, delta: 0 },
+    avgGuesses: { base: 4, head: 4, delta: 0 },
+    medianTimeMs: { base: 2000, head: 2000, delta: 0 },
+    totalCost: { base: 0.1, head: 0.1, delta: 0 },
+    newlySolved: [],
+    newlyFailed: [],
+    ...overrides,
+  }
+}
+
+function makeDiff(models: ModelRunDiff[]): BenchmarkRunDiff {
+  return {
+    base: { runId: "run-1", runDate: "2026-01-01T00:00:00.000Z", label: "1.0" },
+    head: { runId: "run-2", runDate: "2026-02-01T00:00:00.000Z", label: "1.0" },
+    models,
+    words: [{ word: "apple", solveRate: { base: 100, head: 50, delta: -50 }, newlySolvedBy: [], newlyFailedBy: ["a"] }],
+  }
+}
+
+describe("findRegressions", () => {
+  it("flags each metric that crosses its threshold", () => {
+    const regressions = findRegressions(makeDiff([
+      changed({
+        winRate: { base: 80, head: 60, delta: -20 },
+        avgGuesses: { base: 4, head: 4.8, delta: 0.8 },
+        medianTimeMs: { base: 2000, head: 4000, delta: 2000 },
+        totalCost: { base: 0.1, head: 0.2, delta: 0.1 },
+        newlyFailed: ["apple", "brain", "crane", "dance"],
+      }),
+    ]))
+
+    expect(regressions.map((r) => r.metric)).toEqual(["winRate", "avgGuesses", "medianTimeMs", "totalCost", "newlyFailed"])
+    expect(regressions[0].message).toContain("20.0 points")
+  })
+
+  it("ignores changes within the thresholds and improvements", () => {
+    const regressions = findRegressions(makeDiff([
+      changed({ winRate: { base: 80, head: 75, delta: -5 }, avgGuesses: { base: 4, head: 3, delta: -1 } }),
+      changed({ modelId: "free", totalCost: { base: 0, head: 1, delta: 1 } }),
+      { modelId: "new", modelName: "New", status: "added", newlySolved: [], newlyFailed: [] },
+    ]))
+    expect(regressions).toEqual([])
+  })
+
+  it("only flags removed models when asked to", () => {
+    const diff = makeDiff([{ modelId: "gone", modelName: "Gone", status: "removed", newlySolved: [], newlyFailed: [] }])
+    expect(findRegressions(diff)).toEqual([])
+    expect(findRegressions(diff, { ...DEFAULT_REGRESSION_THRESHOLDS, failOnRemovedModels: true })[0].metric).toBe("removed")
+  })
+})
+
+describe("formatRegressionMarkdown", () => {
+  it("lists regressions, model changes and switched words", () => {
+    const markdown = formatRegressionMarkdown(buildRegressionReport(makeDiff([
+      changed({ winRate: { base: 80, head: 60, delta: -20 }, newlyFailed: ["apple"] }),
+      { modelId: "new", modelName: "New", status: "added", newlySolved: [], newlyFailed: [] },
+    ])))
+
+    expect(markdown).toContain("- Base: run-1")
+    expect(markdown).toContain("## Regressions (1)")
+    expect(markdown).toContain("- Added: New (`new`)")
+    expect(markdown).toContain("| Model A | 60.0 (-20.0) |")
+    expect(markdown).toContain("| apple | 50% (-50) | - | a |")
+  })
+
+  it("says so when nothing regressed", () => {
+    expect(formatRegressionMarkdown(buildRegressionReport(makeDiff([changed()])))).toContain("No thresholds crossed.")
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { createRunId, listRuns, loadRun, loadSelectedRun, saveRun } from "../run-store"
+import { loadBenchmarkResults } from "../benchmark-data"
+import { BENCHMARK_SCHEMA_VERSION } from "../benchmark-schema"
+import type { BenchmarkResults } from "../benchmark-types"
+
+function makeResults(runDate: string, models = 1): BenchmarkResults {
+  return {
+    metadata: { schemaVersion: BENCHMARK_SCHEMA_VERSION, runDate, wordCount: 1, version: "1.0", totalModels: models, totalGames: 0, totalCost: 0, runDurationMs: 0 },
+    words: ["apple"],
+    models: [],
+    leaderboard: [],
+  }
+}
+
+describe("run store", () => {
+  const tmpDirs: string[] = []
+  afterEach(() => {
+    tmpDirs.splice(0).forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }))
+  })
+  const makeDir = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "runs-"))
+    tmpDirs.push(dir)
+    return dir
+  }
+
+  it("saves each run under its own ID and loads it back", () => {
+    const dir = makeDir()
+    const results = makeResults("2026-02-06T16:41:39.119Z")
+    const id = saveRun(results, dir)
+
+    expect(id).toBe(createRunId(results))
+    expect(id).toBe("2026-02-06T16-41-39-119Z")
+    expect(loadRun(id, dir)).toEqual({ ...results, metadata: { ...results.metadata, runId: id } })
+  })
+
+  it("never overwrites a stored run", () => {
+    const dir = makeDir()
+    const first = saveRun(makeResults("2026-02-06T00:00:00.000Z", 1), dir)
+    const second = saveRun(makeResults("2026-02-06T00:00:00.000Z", 2), dir)
+
+    expect(second).toBe(`${first}-2`)
+    expect(loadRun(first, dir).metadata.totalModels).toBe(1)
+    expect(loadRun(second, dir).metadata.totalModels).toBe(2)
+  })
+
+  it("lists runs newest first and skips unreadable files", () => {
+    const dir = makeDir()
+    saveRun(makeResults("2026-01-01T00:00:00.000Z"), dir)
+    saveRun(makeResults("2026-03-01T00:00:00.000Z"), dir)
+    fs.writeFileSync(path.join(dir, "broken.json"), JSON.stringify({ metadata: {} }))
+
+    const runs = listRuns(dir)
+    expect(runs.map((r) => r.runDate)).toEqual(["2026-03-01T00:00:00.000Z", "2026-01-01T00:00:00.000Z"])
+    expect(runs[0]).toMatchObject({ label: "1.0", totalModels: 1, wordCount: 1 })
+    expect(listRuns(path.join(dir, "missing"))).toEqual([])
+  })
+
+  it("lists runs from the index without loading their files", () => {
+    const dir = makeDir()
+    const id = saveRun(makeResults("2026-01-01T00:00:00.000Z"), dir)
+    fs.writeFileSync(path.join(dir, `${id}.json`), "{}")
+
+    expect(listRuns(dir).map((r) => r.id)).toEqual([id])
+  })
+
+  it("indexes run files added by hand and drops deleted ones", () => {
+    const dir = makeDir()
+    const removed = saveRun(makeResults("2026-01-01T00:00:00.000Z"), dir)
+    fs.rmSync(path.join(dir, `${removed}.json`))
+    fs.writeFileSync(path.join(dir, "copied.json"), JSON.stringify(makeResults("2026-02-01T00:00:00.000Z")))
+
+    expect(listRuns(dir).map((r) => r.id)).toEqual(["copied"])
+    const index = JSON.parse(fs.readFileSync(path.join(dir, "index.json"), "utf-8"))
+    expect(index.map((r: { id: string }) => r.id)).toEqual(["copied"])
+  })
+
+  it("rejects unknown and unsafe run IDs", () => {
+    const dir = makeDir()
+    expect(() => loadRun("nope", dir)).toThrow("Run not found: nope")
+    expect(() => loadRun("../benchmark-results", dir)).toThrow("Invalid run ID")
+    expect(() => loadRun("index", dir)).toThrow("Invalid run ID")
+  })
+
+  it("falls back to the published results when a selected run can't be loaded", () => {
+    const dir = makeDir()
+    const id = saveRun(makeResults("2026-01-01T00:00:00.000Z"), dir)
+    const runs = listRuns(dir)
+    expect(loadSelectedRun(id, runs, dir)).toMatchObject({ selectedRun: id, data: { metadata: { runId: id } } })
+
+    const published = loadBenchmarkResults()
+    expect(loadSelectedRun("unlisted", runs, dir)).toEqual({ data: published })
+    expect(loadSelectedRun(undefined, runs, dir)).toEqual({ data: published })
+
+    fs.writeFileSync(path.join(dir, `${id}.json`), "{}")
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    expect(loadSelectedRun(id, runs, dir)).toEqual({ data: published })
+    fs.rmSync(path.join(dir, `${id}.json`))
+    expect(loadSelectedRun(id, runs, dir)).toEqual({ data: published })
+    expect(warn).toHaveBeenCalledTimes(2)
+    warn.mockRestore()
+  })
+})
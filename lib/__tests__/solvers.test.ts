@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest"
+import { chooseSolverBaselineGuess, parseSolverModelString, type SolverStrategy } from "../solvers"
+import { generateWordlePrompt } from "../prompts"
+import { computeWordleFeedback, findHardModeViolations } from "../wordle-utils"
+import { WordleEngine } from "../wordle-engine"
+import { BASELINE_MODELS } from "../constants"
+import type { WordleFeedback, WordleHardMode } from "../types"
+
+// Play a whole game against the solver, returning its guesses
+function play(target: string, strategy: SolverStrategy, hardMode: WordleHardMode = "off"): string[] {
+  const guesses: Array<{ word: string; feedback: WordleFeedback[] }> = []
+  while (guesses.length < 10) {
+    const prompt = generateWordlePrompt(target, guesses, undefined, { hardMode, maxGuesses: 10 })
+    const { word } = chooseSolverBaselineGuess(prompt, target.length, strategy, 1)
+    guesses.push({ word, feedback: computeWordleFeedback(word, target) })
+    if (word === target) break
+  }
+  return guesses.map((g) => g.word)
+}
+
+describe("parseSolverModelString", () => {
+  it("reads the strategy and seed", () => {
+    expect(parseSolverModelString("random?seed=3")).toEqual({ strategy: "random", seed: 3 })
+    expect(parseSolverModelString("entropy").strategy).toBe("entropy")
+    expect(() => parseSolverModelString("oracle")).toThrow("Unknown solver: oracle")
+  })
+})
+
+describe("solver baselines", () => {
+  it.each(["entropy", "frequency", "random"] as SolverStrategy[])("%s solves within six guesses", (strategy) => {
+    ["crane", "about", "night", "cigar"].forEach((target) => {
+      const guesses = play(target, strategy)
+      expect(guesses.at(-1)).toBe(target)
+      expect(guesses.length).toBeLessThanOrEqual(6)
+      expect(new Set(guesses).size).toBe(guesses.length)
+    })
+  })
+
+  it("plays the same game every time", () => {
+    expect(play("night", "entropy")).toEqual(play("night", "entropy"))
+    expect(play("night", "random")).toEqual(play("night", "random"))
+  })
+
+  it("keeps every revealed hint in hard mode", () => {
+    const guesses = play("about", "entropy", "enforce")
+    guesses.forEach((word, i) => {
+      const previous = guesses.slice(0, i).map((w) => ({ word: w, feedback: computeWordleFeedback(w, "about") }))
+      expect(findHardModeViolations(word, previous)).toEqual([])
+    })
+  })
+
+  it("races through WordleEngine without tokens or cost", async () => {
+    const engine = new WordleEngine({
+      id: "wordle-baselines",
+      name: "Baselines",
+      models: BASELINE_MODELS,
+      targetWord: "crane",
+      wordLength: 5,
+      maxGuesses: 6,
+      createdAt: 0,
+    })
+
+    const result = await engine.start()
+
+    expect(result.modelResults).toHaveLength(3)
+    result.modelResults.forEach((r) => {
+      expect(r.solved).toBe(true)
+      expect(r.totalCost ?? 0).toBe(0)
+    })
+    // Only ever plays words that fit the feedback
+    expect(result.modelResults.find((r) => r.modelId === "solver-random")?.consistencyRate ?? 100).toBe(100)
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { ModelConfig, WordleConfig } from "../types"
+import type { RunClueParams } from "../ai-runner"
+import { WordleEngine } from "../wordle-engine"
+import { MultiWordleEngine } from "../multi-wordle-engine"
+
+const runModelOnClue = vi.fn()
+vi.mock("../ai-runner", () => ({ runModelOnClue: (params: RunClueParams) => runModelOnClue(params) }))
+
+const model: ModelConfig = { id: "test-model", name: "Test Model", modelString: "test/model" }
+
+function makeConfig(overrides: Partial<WordleConfig> = {}): WordleConfig {
+  return {
+    id: "wordle-test",
+    name: "Test race",
+    models: [model],
+    targetWord: "crane",
+    wordLength: 5,
+    maxGuesses: 6,
+    createdAt: 0,
+    ...overrides,
+  }
+}
+
+function answer(output: string, params: RunClueParams) {
+  return {
+    attempt: {
+      raceId: params.raceId,
+      roundId: params.roundId,
+      clueId: params.clue.id,
+      modelId: params.model.id,
+      tRequest: 0,
+      tLast: 10,
+      e2eMs: 10,
+      output,
+      normalized: output,
+      formatOk: true,
+      correct: false,
+      clueScore: 0,
+    },
+  }
+}
+
+describe("WordleEngine cancellation", () => {
+  beforeEach(() => {
+    runModelOnClue.mockReset()
+  })
+
+  it("makes no model calls when the race is already cancelled", async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const engine = new WordleEngine(makeConfig(), {}, controller.signal)
+
+    const result = await engine.start()
+
+    expect(runModelOnClue).not.toHaveBeenCalled()
+    expect(engine.getState().status).toBe("cancelled")
+    expect(result.modelResults[0].didNotFinish).toBe(true)
+  })
+
+  it("stops after the guess in flight and reports the model as unfinished", async () => {
+    const controller = new AbortController()
+    runModelOnClue.mockImplementation(async (params: RunClueParams) => {
+      controller.abort()
+      return answer("slate", params)
+    })
+    const engine = new WordleEngine(makeConfig(), {}, controller.signal)
+
+    const result = await engine.start()
+
+    expect(runModelOnClue).toHaveBeenCalledTimes(1)
+    expect(runModelOnClue.mock.calls[0][0].signal).toBe(controller.signal)
+    expect(result.modelResults[0]).toMatchObject({ solved: false, guessCount: 1, didNotFinish: true })
+  })
+
+  it("drops a turn whose request was aborted", async () => {
+    const controller = new AbortController()
+    runModelOnClue.mockImplementation(async (params: RunClueParams) => {
+      controller.abort()
+      return { ...answer("", params), error: "Aborted", aborted: true }
+    })
+    const engine = new WordleEngine(makeConfig(), {}, controller.signal)
+
+    const result = await engine.start()
+
+    expect(engine.getState().modelStates.get(model.id)!.guesses).toHaveLength(0)
+    expect(result.modelResults[0].didNotFinish).toBe(true)
+  })
+
+  it("finishes normally without a signal", async () => {
+    runModelOnClue.mockImplementation(async (params: RunClueParams) => answer("crane", params))
+    const engine = new WordleEngine(makeConfig())
+
+    const result = await engine.start()
+
+    expect(engine.getState().status).toBe("completed")
+    expect(result.modelResults[0]).toMatchObject({ solved: true, guessCount: 1 })
+    expect(result.modelResults[0].didNotFinish).toBeUndefined()
+  })
+})
+
+describe("MultiWordleEngine consistency", () => {
+  beforeEach(() => {
+    runModelOnClue.mockReset()
+  })
+
+  it("checks each guess against the boards still open", async () => {
+    const guesses = ["crane", "brine", "slate"]
+    runModelOnClue.mockImplementation(async (params: RunClueParams) => answer(guesses.shift()!, params))
+    const engine = new MultiWordleEngine(makeConfig({ boardCount: 2, targetWords: ["crane", "slate"], maxGuesses: 7 }), {})
+
+    const result = await engine.start()
+
+    const played = engine.getState().modelStates.get(model.id)!.guesses
+    expect(played[0].inconsistencies).toBeUndefined()
+    // Board 1 is solved, so only board 2's hints count: no R or N, and an A in the middle
+    expect(played[1].inconsistencies).toContain("Board 2: Guess can't contain R")
+    expect(played[1].inconsistencies!.every((v) => v.startsWith("Board 2:"))).toBe(true)
+    expect(played[2].inconsistencies).toEqual([])
+    expect(result.modelResults[0]).toMatchObject({ solved: true, consistencyRate: 50 })
+  })
+})
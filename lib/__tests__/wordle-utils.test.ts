@@ -4,10 +4,21 @@ import {
   extractWordleGuess,
   normalizeWordleGuess,
   calculateClosenessScore,
-  calculateEstimatedCost,
   rankWordleResults,
+  findHardModeViolations,
+  findConsistencyViolations,
+  calculateConsistencyRate,
+  sumTokenUsage,
+  getGuessLimit,
+  formatGuessLimit,
+  UNLIMITED_GUESS_CAP,
+  getDefaultMaxGuesses,
+  summarizeBoards,
+  chooseAdversarialFeedback,
+  applyLyingFeedback,
 } from "../wordle-utils"
-import type { WordleModelResult } from "../types"
+import { createSeededRandom } from "../random"
+import type { WordleGuess, WordleModelResult } from "../types"
 
 describe("computeWordleFeedback", () => {
   it("returns all correct for exact match", () => {
@@ -67,6 +78,20 @@ describe("computeWordleFeedback", () => {
     const feedback = computeWordleFeedback("hi", "crane")
     expect(feedback).toEqual(["absent", "absent", "absent", "absent", "absent"])
   })
+
+  it("handles 4-letter words", () => {
+    const feedback = computeWordleFeedback("sale", "seal")
+    expect(feedback).toEqual(["correct", "present", "present", "present"])
+  })
+
+  it("handles 8-letter words", () => {
+    const feedback = computeWordleFeedback("absolute", "academic")
+    expect(feedback).toEqual(["correct", "absent", "absent", "absent", "absent", "absent", "absent", "present"])
+  })
+
+  it("sizes invalid feedback to the target length", () => {
+    expect(computeWordleFeedback("crane", "seal")).toEqual(["absent", "absent", "absent", "absent"])
+  })
 })
 
 describe("extractWordleGuess", () => {
@@ -98,6 +123,12 @@ describe("extractWordleGuess", () => {
     // /[a-z]{5}/ matches "ithin"
     expect(extractWordleGuess("I think the word is plane because")).toBe("ithin")
   })
+
+  it("extracts words of a custom length", () => {
+    expect(extractWordleGuess("ABSOLUTE", 8)).toBe("absolute")
+    expect(extractWordleGuess("seal", 4)).toBe("seal")
+    expect(extractWordleGuess("seal", 8)).toBeNull()
+  })
 })
 
 describe("normalizeWordleGuess", () => {
@@ -112,6 +143,182 @@ describe("normalizeWordleGuess", () => {
   it("returns null for non-alpha characters", () => {
     expect(normalizeWordleGuess("cr4ne")).toBeNull()
   })
+
+  it("respects a custom word length", () => {
+    expect(normalizeWordleGuess("Seal", 4)).toBe("seal")
+    expect(normalizeWordleGuess("crane", 4)).toBeNull()
+  })
+})
+
+describe("findHardModeViolations", () => {
+  it("allows any guess when nothing has been revealed", () => {
+    expect(findHardModeViolations("crane", [])).toEqual([])
+  })
+
+  it("allows a guess that keeps greens and reuses yellows", () => {
+    const previous = [{ word: "crane", feedback: computeWordleFeedback("crane", "trace") }]
+    // crane vs trace: c present, r/a/e correct
+    expect(findHardModeViolations("grace", previous)).toEqual([])
+  })
+
+  it("reports a green letter moved or dropped", () => {
+    const previous = [{ word: "slate", feedback: computeWordleFeedback("slate", "crane") }]
+    // slate vs crane: a(2) and e(4) correct
+    expect(findHardModeViolations("adieu", previous)).toEqual([
+      "3rd letter must be A",
+      "5th letter must be E",
+    ])
+  })
+
+  it("reports a yellow letter that was not reused", () => {
+    const previous = [{ word: "earns", feedback: computeWordleFeedback("earns", "crane") }]
+    const violations = findHardModeViolations("crony", previous)
+    expect(violations).toContain("Guess must contain E")
+    expect(violations).toContain("Guess must contain A")
+    expect(violations).not.toContain("Guess must contain R")
+  })
+
+  it("requires repeated letters as many times as they were revealed", () => {
+    const previous = [{ word: "eerie", feedback: ["present", "present", "absent", "absent", "absent"] as ("correct" | "present" | "absent")[] }]
+    expect(findHardModeViolations("steam", previous)).toEqual(["Guess must contain 2 Es"])
+    expect(findHardModeViolations("geese", previous)).toEqual([])
+  })
+})
+
+describe("findConsistencyViolations", () => {
+  it("allows a guess that could still be the answer", () => {
+    const previous = [{ word: "crane", feedback: computeWordleFeedback("crane", "trace") }]
+    expect(findConsistencyViolations("trace", previous)).toEqual([])
+    expect(findConsistencyViolations("crane", [])).toEqual([])
+  })
+
+  it("reports grey letters that come back", () => {
+    const previous = [{ word: "slate", feedback: computeWordleFeedback("slate", "crane") }]
+    // slate vs crane: s, l, t absent
+    expect(findConsistencyViolations("toads", previous)).toEqual([
+      "Guess can't contain S",
+      "Guess can't contain T",
+      "5th letter must be E",
+      "Guess must contain E",
+    ])
+  })
+
+  it("reports yellows left in place and greens moved", () => {
+    const previous = [{ word: "earns", feedback: computeWordleFeedback("earns", "crane") }]
+    // earns vs crane: e, a present; r, n correct
+    const violations = findConsistencyViolations("eared", previous)
+    expect(violations).toContain("E can't be the 1st letter")
+    expect(violations).toContain("A can't be the 2nd letter")
+    expect(violations).toContain("4th letter must be N")
+  })
+
+  it("caps repeated letters at the copies that were revealed", () => {
+    const previous = [{ word: "eerie", feedback: ["present", "present", "absent", "absent", "absent"] as ("correct" | "present" | "absent")[] }]
+    expect(findConsistencyViolations("geese", previous)).toContain("Guess can't contain more than 2 E")
+    expect(findConsistencyViolations("sheep", previous)).toEqual([])
+  })
+
+  it("skips rows without feedback", () => {
+    expect(findConsistencyViolations("crane", [{ word: "zzzzz", feedback: [] }])).toEqual([])
+  })
+})
+
+describe("calculateConsistencyRate", () => {
+  const guess = (inconsistencies?: string[]) => ({ inconsistencies }) as WordleGuess
+
+  it("counts only the guesses that were checked", () => {
+    expect(calculateConsistencyRate([guess(), guess([]), guess(["Guess can't contain T"]), guess([]), guess([])])).toBe(75)
+    expect(calculateConsistencyRate([guess()])).toBeUndefined()
+  })
+})
+
+describe("getGuessLimit", () => {
+  it("uses the configured limit", () => {
+    expect(getGuessLimit(6)).toBe(6)
+    expect(getGuessLimit(10)).toBe(10)
+  })
+
+  it("caps unlimited games", () => {
+    expect(getGuessLimit(0)).toBe(UNLIMITED_GUESS_CAP)
+    expect(formatGuessLimit(0)).toBe("∞")
+    expect(formatGuessLimit(8)).toBe("8")
+  })
+})
+
+describe("getDefaultMaxGuesses", () => {
+  it("uses the standard limits for each board count", () => {
+    expect(getDefaultMaxGuesses()).toBe(6)
+    expect(getDefaultMaxGuesses(2)).toBe(7)
+    expect(getDefaultMaxGuesses(4)).toBe(9)
+    expect(getDefaultMaxGuesses(8)).toBe(13)
+  })
+})
+
+describe("summarizeBoards", () => {
+  it("tracks which guess solved each board", () => {
+    const guesses = [
+      { boardFeedback: [computeWordleFeedback("crane", "crane"), computeWordleFeedback("crane", "slate")] },
+      { boardFeedback: [[], computeWordleFeedback("slate", "slate")] },
+    ]
+    const summary = summarizeBoards(guesses, 2)
+    expect(summary.solvedAtGuess).toEqual([1, 2])
+    expect(summary.boardsSolved).toBe(2)
+    expect(summary.closenessScore).toBe(0)
+  })
+
+  it("adds up closeness across unsolved boards", () => {
+    const guesses = [
+      { boardFeedback: [computeWordleFeedback("crane", "crate"), computeWordleFeedback("crane", "nacre")] },
+    ]
+    const summary = summarizeBoards(guesses, 2)
+    expect(summary.boardsSolved).toBe(0)
+    expect(summary.correctLetters).toBe(5)
+    expect(summary.presentLetters).toBe(4)
+    expect(summary.closenessScore).toBe(19)
+  })
+})
+
+describe("chooseAdversarialFeedback", () => {
+  it("keeps the largest group of consistent candidates", () => {
+    const result = chooseAdversarialFeedback("crane", ["crate", "grate", "plate", "slate", "fudge"])
+    expect(result.candidates).toEqual(["plate", "slate"])
+    expect(result.feedback).toEqual(["absent", "absent", "correct", "absent", "correct"])
+  })
+
+  it("dodges the guess while another word is still possible", () => {
+    const result = chooseAdversarialFeedback("crane", ["crane", "fudge"])
+    expect(result.candidates).toEqual(["fudge"])
+    expect(result.feedback.every(f => f === "correct")).toBe(false)
+  })
+
+  it("accepts the guess once it is the last candidate", () => {
+    const result = chooseAdversarialFeedback("crane", ["crane"])
+    expect(result.candidates).toEqual(["crane"])
+    expect(result.feedback).toEqual(["correct", "correct", "correct", "correct", "correct"])
+  })
+})
+
+describe("applyLyingFeedback", () => {
+  it("changes exactly one tile", () => {
+    const feedback = computeWordleFeedback("crane", "slate")
+    const { shownFeedback, lieIndex } = applyLyingFeedback(feedback, createSeededRandom(42))
+    const changed = shownFeedback.map((f, i) => f !== feedback[i] ? i : -1).filter(i => i >= 0)
+    expect(changed).toEqual([lieIndex])
+  })
+
+  it("tells the same lies for the same seed", () => {
+    const feedback = computeWordleFeedback("crane", "slate")
+    const first = applyLyingFeedback(feedback, createSeededRandom(7))
+    const second = applyLyingFeedback(feedback, createSeededRandom(7))
+    expect(second).toEqual(first)
+  })
+
+  it("leaves the truthful feedback untouched", () => {
+    const feedback = computeWordleFeedback("crane", "slate")
+    const copy = [...feedback]
+    applyLyingFeedback(feedback, createSeededRandom(1))
+    expect(feedback).toEqual(copy)
+  })
 })
 
 describe("calculateClosenessScore", () => {
@@ -144,21 +351,15 @@ describe("calculateClosenessScore", () => {
   })
 })
 
-describe("calculateEstimatedCost", () => {
-  it("calculates cost for known model", () => {
-    // claude-opus-4.6: input $5/M, output $25/M
-    const cost = calculateEstimatedCost("claude-opus-4.6", 1000, 500)
-    expect(cost).toBeCloseTo(0.005 + 0.0125, 4)
-  })
-
-  it("uses fallback pricing for unknown model", () => {
-    const cost = calculateEstimatedCost("unknown-model", 1_000_000, 1_000_000)
-    expect(cost).toBe(2) // $1 input + $1 output fallback
-  })
-
-  it("returns 0 for zero tokens", () => {
-    const cost = calculateEstimatedCost("gpt-5", 0, 0)
-    expect(cost).toBe(0)
+describe("sumTokenUsage", () => {
+  it("adds up every call, keeping the breakdown only when it was reported", () => {
+    expect(sumTokenUsage([
+      { prompt: 100, completion: 50, total: 150 },
+      undefined,
+      { prompt: 100, completion: 80, total: 180, reasoning: 60, cachedPrompt: 90 },
+    ])).toEqual({ prompt: 200, completion: 130, total: 330, reasoning: 60, cachedPrompt: 90 })
+    expect(sumTokenUsage([{ prompt: 1, completion: 1, total: 2 }])).toEqual({ prompt: 1, completion: 1, total: 2, reasoning: undefined, cachedPrompt: undefined })
+    expect(sumTokenUsage([undefined])).toBeUndefined()
   })
 })
 
@@ -202,6 +403,26 @@ describe("rankWordleResults", () => {
     expect(results[0].modelId).toBe("b") // higher closeness wins
   })
 
+  it("ranks multi-board results by boards solved first", () => {
+    const results: WordleModelResult[] = [
+      { modelId: "a", modelName: "A", solved: false, guessCount: 9, boardsSolved: 2, closenessScore: 20, rank: 0 },
+      { modelId: "b", modelName: "B", solved: false, guessCount: 9, boardsSolved: 3, closenessScore: 5, rank: 0 },
+      { modelId: "c", modelName: "C", solved: true, guessCount: 9, boardsSolved: 4, timeToSolveMs: 20000, rank: 0 },
+    ]
+    rankWordleResults(results)
+    expect(results.map(r => r.modelId)).toEqual(["c", "b", "a"])
+  })
+
+  it("ranks results from longer guess limits", () => {
+    const results: WordleModelResult[] = [
+      { modelId: "a", modelName: "A", solved: false, guessCount: 10, closenessScore: 9, rank: 0 },
+      { modelId: "b", modelName: "B", solved: true, guessCount: 9, timeToSolveMs: 9000, rank: 0 },
+      { modelId: "c", modelName: "C", solved: true, guessCount: 7, timeToSolveMs: 12000, rank: 0 },
+    ]
+    rankWordleResults(results)
+    expect(results.map(r => r.modelId)).toEqual(["c", "b", "a"])
+  })
+
   it("assigns sequential ranks starting from 1", () => {
     const results: WordleModelResult[] = [
       { modelId: "a", modelName: "A", solved: true, guessCount: 4, timeToSolveMs: 1000, rank: 0 },
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest"
+import {
+  filterCandidates,
+  findInvalidGuessReason,
+  getAllWords,
+  getAllowedGuesses,
+  getDailyKey,
+  getDailySeed,
+  getRandomWord,
+  getSeededWords,
+  isAnswerWord,
+  isValidWord,
+} from "../wordle-words"
+import { SUPPORTED_WORD_LENGTHS, computeWordleFeedback, isSupportedWordLength } from "../wordle-utils"
+import { createSeededRandom } from "../random"
+
+describe("word lists", () => {
+  it("has words of the right length for every supported length", () => {
+    SUPPORTED_WORD_LENGTHS.forEach((length) => {
+      const words = getAllWords(length)
+      expect(words.length).toBeGreaterThan(100)
+      expect(words.every((w) => w.length === length && /^[a-z]+$/.test(w))).toBe(true)
+    })
+  })
+
+  it("defaults to 5-letter words", () => {
+    expect(getRandomWord()).toHaveLength(5)
+    expect(getAllWords()).toContain("about")
+  })
+
+  it("picks random words of the requested length", () => {
+    expect(getRandomWord(4)).toHaveLength(4)
+    expect(getRandomWord(8)).toHaveLength(8)
+  })
+
+  it("rejects unsupported lengths", () => {
+    expect(isSupportedWordLength(3)).toBe(false)
+    expect(isSupportedWordLength(7)).toBe(true)
+    expect(() => getRandomWord(9)).toThrow("Unsupported word length: 9")
+  })
+
+  it("validates words of any supported length", () => {
+    expect(isValidWord("ABLE")).toBe(true)
+    expect(isValidWord("absolute")).toBe(true)
+    expect(isValidWord("zzzz")).toBe(false)
+  })
+
+  it("accepts guess-only words that are never answers", () => {
+    expect(isValidWord("adieu")).toBe(true)
+    expect(isAnswerWord("adieu")).toBe(false)
+    expect(getAllWords()).not.toContain("adieu")
+    expect(getAllowedGuesses()).toContain("adieu")
+    expect(isAnswerWord("about")).toBe(true)
+    expect(isValidWord("xqzvk")).toBe(false)
+  })
+
+  it("ships the full 5-letter answer and allowed-guess lists", () => {
+    expect(getAllWords()).toHaveLength(2316)
+    expect(getAllowedGuesses()).toHaveLength(12972)
+    ;["cigar", "rebut", "blush", "digit", "aloft"].forEach((w) => expect(isAnswerWord(w)).toBe(true))
+    ;["agile", "logic", "shiny", "helix"].forEach((w) => expect(isValidWord(w)).toBe(true))
+  })
+
+  it("includes every benchmark word as an answer", () => {
+    expect(isAnswerWord("crane")).toBe(true)
+    expect(isAnswerWord("xenon")).toBe(true)
+  })
+
+  it("tags words with a commonness tier", () => {
+    const common = getAllWords(5, 1)
+    expect(common).toContain("about")
+    expect(common.length).toBeLessThan(getAllWords(5).length)
+    expect(common.every((w) => getAllWords(5).includes(w))).toBe(true)
+    expect(getAllowedGuesses(5, 1).length).toBeLessThan(getAllowedGuesses(5).length)
+  })
+
+  it("picks repeatable words from a seeded generator", () => {
+    expect(getRandomWord(5, { random: createSeededRandom(7) })).toBe(getRandomWord(5, { random: createSeededRandom(7) }))
+    expect(getAllWords(5, 1)).toContain(getRandomWord(5, { maxTier: 1 }))
+  })
+})
+
+describe("seeded word selection", () => {
+  it("picks the same distinct words for the same seed", () => {
+    const words = getSeededWords(42, 4)
+    expect(getSeededWords(42, 4)).toEqual(words)
+    expect(new Set(words).size).toBe(4)
+    expect(words.every(isAnswerWord)).toBe(true)
+  })
+
+  it("starts multi-word picks with the single-word pick", () => {
+    expect(getSeededWords(42, 4)[0]).toBe(getSeededWords(42)[0])
+    expect(getSeededWords(42, 1, 6)[0]).toHaveLength(6)
+  })
+
+  it("derives the daily word from the UTC date", () => {
+    expect(getDailyKey(new Date("2026-03-01T23:30:00Z"))).toBe("2026-03-01")
+    expect(getDailySeed("2026-03-01")).toBe(getDailySeed("2026-03-01"))
+    expect(getDailySeed("2026-03-01")).not.toBe(getDailySeed("2026-03-02"))
+  })
+})
+
+describe("findInvalidGuessReason", () => {
+  it("accepts a new dictionary word", () => {
+    expect(findInvalidGuessReason("crane", new Set(["slate"]))).toBeNull()
+  })
+
+  it("accepts every word of the full answer and guess lists", () => {
+    ;["agile", "logic", "shiny", "helix", "cigar", "rebut", "aloft"].forEach((word) => {
+      expect(findInvalidGuessReason(word, new Set())).toBeNull()
+    })
+  })
+
+  it("refuses unparsable, repeated and unknown words", () => {
+    expect(findInvalidGuessReason(null, new Set())).toBe("no 5-letter word found")
+    expect(findInvalidGuessReason("able", new Set())).toBe("no 5-letter word found")
+    expect(findInvalidGuessReason("crane", new Set(["crane"]))).toBe("already guessed")
+    expect(findInvalidGuessReason("xqzvk", new Set())).toBe("not in word list")
+  })
+
+  it("checks the configured word length", () => {
+    expect(findInvalidGuessReason("able", new Set(), 4)).toBeNull()
+  })
+
+  it("always accepts the game's own target words", () => {
+    expect(findInvalidGuessReason("qwxyz", new Set(), 5, ["qwxyz"])).toBeNull()
+  })
+})
+
+describe("filterCandidates", () => {
+  it("keeps only words consistent with every feedback row", () => {
+    const previousGuesses = [{ word: "crane", feedback: computeWordleFeedback("crane", "about") }]
+    const candidates = filterCandidates(previousGuesses)
+    expect(candidates).toContain("about")
+    expect(candidates).not.toContain("crane")
+    candidates.forEach((word) => {
+      expect(computeWordleFeedback("crane", word)).toEqual(previousGuesses[0].feedback)
+    })
+  })
+
+  it("skips rows without feedback and can search every allowed guess", () => {
+    const invalid = [{ word: "", feedback: [] }]
+    expect(filterCandidates(invalid).length).toBe(filterCandidates([]).length)
+    expect(filterCandidates([], 5, { pool: "guesses" }).length).toBeGreaterThan(filterCandidates([]).length)
+  })
+})
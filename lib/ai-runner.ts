@@ -1,9 +1,13 @@
-// AI SDK integration layer for running model inference via OpenRouter
+// AI SDK integration layer for running model inference via OpenRouter or another OpenAI-compatible provider
 
 import type { ModelConfig, Clue, ClueAttempt } from "./types"
 import { generatePrompt } from "./prompts"
 import { normalizeAnswer, validateFormat, checkCorrectness } from "./scoring"
 import { NO_TEMPERATURE_MODELS } from "./constants"
+import { BASELINE_PROVIDER_ID, DEFAULT_PROVIDER_ID, getModelProviderId, getProvider, resolveProviderSettings } from "./providers"
+import { createMockLanguageModel } from "./mock-model"
+import { createSolverLanguageModel } from "./solvers"
+import { createReplayModel, getCassetteSettings, recordLanguageModel, type CassetteSettings } from "./cassettes"
 
 export interface RunClueParams {
   raceId: string
@@ -13,6 +17,8 @@ export interface RunClueParams {
   mode: "json" | "plain"
   maxTokens?: number
   timeoutMs?: number
+  signal?: AbortSignal // aborts the request when the race is cancelled
+  cassette?: CassetteSettings // record or replay the stream (defaults to the CASSETTE_* env vars)
   onModelStart?: (modelId: string, clueId: string) => void
   onModelProgress?: (modelId: string, clueId: string, partialText: string) => void
 }
@@ -20,6 +26,7 @@ export interface RunClueParams {
 export interface RunClueResult {
   attempt: ClueAttempt
   error?: string
+  aborted?: boolean // the race was cancelled before the model answered
 }
 
 // OpenAI models that need the Responses API for reasoning
@@ -39,24 +46,51 @@ function isOpenAIReasoningModel(modelId: string): boolean {
   return false
 }
 
-async function getProviderAndModel(modelString: string, modelId: string, enableThinking?: boolean) {
+async function getProviderAndModel(
+  model: ModelConfig,
+  clue: Clue,
+  mode: "json" | "plain",
+  cassette: CassetteSettings | undefined,
+) {
   const [{ createOpenAI }, { streamText }] = await Promise.all([
     import("@ai-sdk/openai"),
     import("ai"),
   ])
 
-  const openrouter = createOpenAI({
-    baseURL: "https://openrouter.ai/api/v1",
-    apiKey: process.env.OPENROUTER_API_KEY,
+  // Replays never reach the provider, so they need no credentials
+  if (cassette?.mode === "replay") {
+    const provider = getProvider(getModelProviderId(model)) ?? getProvider(DEFAULT_PROVIDER_ID)!
+    return { streamText, model: createReplayModel(model, cassette.cassette, cassette.speed), provider, useResponses: false }
+  }
+
+  const settings = resolveProviderSettings(getModelProviderId(model))
+  const record = <T extends Parameters<typeof recordLanguageModel>[0]>(instance: T) =>
+    cassette?.mode === "record" ? recordLanguageModel(instance, model, settings.provider.id, cassette.cassette) : instance
+
+  if (settings.provider.id === BASELINE_PROVIDER_ID) {
+    const solverModel = createSolverLanguageModel(model.modelString, clue, mode)
+    return { streamText, model: record(solverModel), provider: settings.provider, useResponses: false }
+  }
+  if (settings.provider.simulated) {
+    const latencyMs = process.env.MOCK_LATENCY_MS ? Number(process.env.MOCK_LATENCY_MS) : undefined
+    const mockModel = createMockLanguageModel(model.modelString, clue, mode, latencyMs)
+    return { streamText, model: record(mockModel), provider: settings.provider, useResponses: false }
+  }
+
+  const client = createOpenAI({
+    baseURL: settings.baseURL,
+    apiKey: settings.apiKey ?? "not-needed", // keyless local servers still need a value here
+    headers: settings.provider.headers,
   })
 
-  // Only use .responses() for OpenAI reasoning models when thinking is enabled
-  if (isOpenAIReasoningModel(modelId) && enableThinking) {
-    console.log(`[bench] Using openrouter.responses() for reasoning model ${modelId}`)
-    return { streamText, model: openrouter.responses(modelString) }
+  // Only use .responses() for OpenAI reasoning models when thinking is enabled and the provider serves it
+  const useResponses = settings.provider.capabilities.responsesApi && isOpenAIReasoningModel(model.id) && !!model.enableThinking
+  if (useResponses) {
+    console.log(`[bench] Using ${settings.provider.id} responses() for reasoning model ${model.id}`)
+    return { streamText, model: record(client.responses(model.modelString)), provider: settings.provider, useResponses }
   }
 
-  return { streamText, model: openrouter(modelString) }
+  return { streamText, model: record(client(model.modelString)), provider: settings.provider, useResponses }
 }
 
 /**
@@ -284,11 +318,27 @@ function extractTextFromError(error: any): string | null {
   return best.trim() || null
 }
 
+/**
+ * Token counts from the usage a provider reported
+ * AI SDK v5 calls them inputTokens/outputTokens; older providers still send promptTokens/completionTokens.
+ * Reasoning and cached prompt tokens are kept separately when the provider breaks them out.
+ */
+function readTokenUsage(usage: Record<string, unknown>): NonNullable<ClueAttempt["tokenUsage"]> {
+  const count = (...keys: string[]) => keys.map((key) => usage[key]).find((v): v is number => typeof v === "number") ?? 0
+  return {
+    prompt: count("inputTokens", "promptTokens"),
+    completion: count("outputTokens", "completionTokens"),
+    total: count("totalTokens"),
+    reasoning: usage.reasoningTokens !== undefined ? count("reasoningTokens") : undefined,
+    cachedPrompt: usage.cachedInputTokens !== undefined ? count("cachedInputTokens") : undefined,
+  }
+}
+
 /**
  * Run a single model on a single clue with timing and validation
  */
 export async function runModelOnClue(params: RunClueParams): Promise<RunClueResult> {
-  const { raceId, roundId, clue, model, mode, maxTokens = 16, timeoutMs = 4000, onModelStart, onModelProgress } = params
+  const { raceId, roundId, clue, model, mode, maxTokens = 16, timeoutMs = 4000, signal, onModelStart, onModelProgress } = params
 
   if (onModelStart) {
     onModelStart(model.id, clue.id)
@@ -302,6 +352,9 @@ export async function runModelOnClue(params: RunClueParams): Promise<RunClueResu
   let timedOut = false
 
   try {
+    if (signal?.aborted) {
+      throw new Error("Aborted")
+    }
     console.log(`[bench] ${model.id} -> clue ${clue.id}`)
 
     const prompt = generatePrompt(clue, mode)
@@ -310,7 +363,7 @@ export async function runModelOnClue(params: RunClueParams): Promise<RunClueResu
       timeoutId = setTimeout(() => reject(new Error("Timeout")), timeoutMs)
     })
 
-    const { streamText: streamTextFn, model: modelInstance } = await getProviderAndModel(model.modelString, model.id, model.enableThinking)
+    const { streamText: streamTextFn, model: modelInstance, provider, useResponses } = await getProviderAndModel(model, clue, mode, params.cassette ?? getCassetteSettings())
 
     let result: any
     let streamError: any
@@ -319,10 +372,11 @@ export async function runModelOnClue(params: RunClueParams): Promise<RunClueResu
       const streamTextOptions: any = {
         model: modelInstance,
         prompt,
+        abortSignal: signal,
       }
 
-      // Set temperature/topP unless it's a model that doesn't support them
-      if (!NO_TEMPERATURE_MODELS.has(model.id)) {
+      // Set temperature/topP unless the model or provider doesn't support them
+      if (!NO_TEMPERATURE_MODELS.has(model.id) && provider.capabilities.temperature) {
         if (model.temperature !== undefined) {
           streamTextOptions.temperature = model.temperature
         }
@@ -336,7 +390,7 @@ export async function runModelOnClue(params: RunClueParams): Promise<RunClueResu
       }
 
       // Add reasoning options for OpenAI reasoning models via providerOptions
-      if (model.enableThinking && isOpenAIReasoningModel(model.id)) {
+      if (useResponses) {
         const openaiOptions: any = {
           reasoningSummary: 'detailed',
         }
@@ -421,7 +475,7 @@ export async function runModelOnClue(params: RunClueParams): Promise<RunClueResu
                 if (tFirst === undefined) {
                   tFirst = performance.now()
                 }
-                const delta = (chunk as any).textDelta || ""
+                const delta = (chunk as any).text ?? (chunk as any).textDelta ?? ""
                 accumulatedText.push(delta)
                 text += delta
               }
@@ -476,6 +530,11 @@ export async function runModelOnClue(params: RunClueParams): Promise<RunClueResu
       }
     }
 
+    // A cancelled race has no answer to recover
+    if (signal?.aborted) {
+      throw new Error("Aborted")
+    }
+
     // Fallback: Try result.text
     if (!text && result && typeof result === "object" && "text" in result) {
       try {
@@ -531,13 +590,7 @@ export async function runModelOnClue(params: RunClueParams): Promise<RunClueResu
       formatOk,
       correct,
       clueScore: 0,
-      tokenUsage: usage
-        ? {
-            prompt: ("promptTokens" in usage ? (usage.promptTokens as number) : 0) || 0,
-            completion: ("completionTokens" in usage ? (usage.completionTokens as number) : 0) || 0,
-            total: ("totalTokens" in usage ? (usage.totalTokens as number) : 0) || 0,
-          }
-        : undefined,
+      tokenUsage: usage ? readTokenUsage(usage) : undefined,
     }
 
     return { attempt }
@@ -548,6 +601,9 @@ export async function runModelOnClue(params: RunClueParams): Promise<RunClueResu
     if (err instanceof Error && err.message === "Timeout") {
       timedOut = true
       error = "Timeout exceeded"
+    } else if (signal?.aborted) {
+      error = "Aborted"
+      console.log(`[bench] Model ${model.id} cancelled on clue ${clue.id}`)
     } else {
       error = err instanceof Error ? err.message : "Unknown error"
       console.error(`[bench] Model ${model.id} error:`, err)
@@ -571,7 +627,7 @@ export async function runModelOnClue(params: RunClueParams): Promise<RunClueResu
       error,
     }
 
-    return { attempt, error }
+    return { attempt, error, aborted: signal?.aborted || undefined }
   }
 }
 
@@ -589,6 +645,7 @@ export async function runClueAcrossModels(
   onAttemptComplete?: (attempt: ClueAttempt) => void,
   onModelStart?: (modelId: string, clueId: string) => void,
   onModelProgress?: (modelId: string, clueId: string, partialText: string) => void,
+  signal?: AbortSignal,
 ): Promise<ClueAttempt[]> {
   console.log(`[bench] Running clue ${clue.id} across ${models.length} models`)
 
@@ -601,10 +658,11 @@ export async function runClueAcrossModels(
       mode,
       maxTokens,
       timeoutMs,
+      signal,
       onModelStart,
       onModelProgress,
     }).then((result) => {
-      if (onAttemptComplete) {
+      if (onAttemptComplete && !result.aborted) {
         onAttemptComplete(result.attempt)
       }
       return result
@@ -614,12 +672,13 @@ export async function runClueAcrossModels(
   const results = await Promise.all(promises)
 
   results.forEach((result: RunClueResult) => {
-    if (result.error) {
+    if (result.error && !result.aborted) {
       console.error(`[bench] Model ${result.attempt.modelId} error on clue ${clue.id}:`, result.error)
     }
   })
 
-  return results.map((r: RunClueResult) => r.attempt)
+  // Cancelled attempts never got an answer, so they aren't scored
+  return results.filter((r) => !r.aborted).map((r: RunClueResult) => r.attempt)
 }
 
 /**
@@ -637,10 +696,15 @@ export async function runRound(
   onAttemptComplete?: (attempt: ClueAttempt) => void,
   onModelStart?: (modelId: string, clueId: string) => void,
   onModelProgress?: (modelId: string, clueId: string, partialText: string) => void,
+  signal?: AbortSignal,
 ): Promise<ClueAttempt[]> {
   const allAttempts: ClueAttempt[] = []
 
   for (const clue of clues) {
+    if (signal?.aborted) {
+      console.log(`[bench] Round ${roundId} cancelled before clue ${clue.id}`)
+      break
+    }
     console.log(`[bench] Starting clue: ${clue.clue}`)
 
     const attempts = await runClueAcrossModels(
@@ -654,6 +718,7 @@ export async function runRound(
       onAttemptComplete,
       onModelStart,
       onModelProgress,
+      signal,
     )
 
     allAttempts.push(...attempts)
@@ -6,13 +6,66 @@ import type {
   BenchmarkLeaderboardEntry,
 } from "./benchmark-types"
 import { MODEL_COLORS } from "./constants"
+import type { WordleConfig } from "./types"
+import { DEFAULT_MAX_GUESSES, DEFAULT_WORD_LENGTH, getGuessLimit } from "./wordle-utils"
+import { calculateConfidenceIntervals } from "./benchmark-stats"
+import { calculateRatings, matchesFromBenchmark } from "./ratings"
+import { parseBenchmarkResults } from "./benchmark-schema"
 import benchmarkResultsJson from "@/data/benchmark-results.json"
 
+let publishedResults: BenchmarkResults | undefined
+
 /**
- * Load benchmark results from static JSON
+ * Load benchmark results from static JSON, upgraded to the current schema and validated
  */
 export function loadBenchmarkResults(): BenchmarkResults {
-  return benchmarkResultsJson as BenchmarkResults
+  publishedResults ??= parseBenchmarkResults(benchmarkResultsJson, "data/benchmark-results.json")
+  return publishedResults
+}
+
+/**
+ * Guess limit a benchmark was run with (runs saved before it was configurable used 6)
+ */
+export function getBenchmarkMaxGuesses(results: BenchmarkResults): number {
+  return results.metadata.maxGuesses ?? DEFAULT_MAX_GUESSES
+}
+
+/**
+ * Guess numbers to show in distribution charts
+ * 1 to the guess limit, or up to the highest solved guess count for unlimited runs
+ */
+export function getGuessBuckets(models: BenchmarkModelResult[], maxGuesses: number): number[] {
+  let highest = maxGuesses
+  if (maxGuesses <= 0) {
+    highest = DEFAULT_MAX_GUESSES
+    models.forEach((model) => {
+      Object.entries(model.stats.guessDistribution).forEach(([guess, count]) => {
+        if (count > 0) highest = Math.max(highest, Number(guess))
+      })
+    })
+  }
+  return Array.from({ length: highest }, (_, i) => i + 1)
+}
+
+/**
+ * Average guesses a model needed to solve the published benchmark, which uses honest feedback
+ * Baseline for races played with lying feedback. The benchmark plays one 5-letter board with a
+ * fixed word, so races with other settings get no baseline.
+ */
+export function getHonestAvgGuesses(
+  modelId: string,
+  settings: Pick<WordleConfig, "wordLength" | "maxGuesses" | "boardCount" | "host">,
+  results: BenchmarkResults = loadBenchmarkResults()
+): number | undefined {
+  const comparable =
+    settings.wordLength === DEFAULT_WORD_LENGTH &&
+    (settings.boardCount ?? 1) === 1 &&
+    (settings.host ?? "fixed") === "fixed" &&
+    settings.maxGuesses === getBenchmarkMaxGuesses(results)
+  if (!comparable) return undefined
+
+  const model = results.models.find((m) => m.id === modelId)
+  return model && model.stats.gamesSolved > 0 ? model.stats.avgGuesses : undefined
 }
 
 /**
@@ -36,35 +89,34 @@ export function filterValidModels(models: BenchmarkModelResult[]): BenchmarkMode
  */
 export function calculateWordDifficulty(
   models: BenchmarkModelResult[],
-  words: string[]
+  words: string[],
+  maxGuesses = DEFAULT_MAX_GUESSES
 ): WordDifficulty[] {
   const validModels = filterValidModels(models)
 
   return words.map((word) => {
-    const attempts = validModels
-      .map((model) => {
-        const game = model.games.find((g) => g.word === word)
-        return { model, game }
-      })
-      .filter(({ game }) => game !== undefined)
+    // Every trial of the word counts as an attempt
+    const attempts = validModels.flatMap((model) =>
+      model.games.filter((g) => g.word === word).map((game) => ({ model, game }))
+    )
 
-    const solved = attempts.filter(({ game }) => game!.solved)
-    const failed = attempts.filter(({ game }) => !game!.solved)
+    const solved = attempts.filter(({ game }) => game.solved)
+    const failed = attempts.filter(({ game }) => !game.solved)
 
     const solveRate =
       attempts.length > 0 ? (solved.length / attempts.length) * 100 : 0
 
     const avgGuesses =
       solved.length > 0
-        ? solved.reduce((sum, { game }) => sum + game!.guessCount, 0) /
+        ? solved.reduce((sum, { game }) => sum + game.guessCount, 0) /
           solved.length
-        : 6
+        : getGuessLimit(maxGuesses)
 
     return {
       word,
       solveRate,
       avgGuesses,
-      hardestFor: failed.map(({ model }) => model.name),
+      hardestFor: Array.from(new Set(failed.map(({ model }) => model.name))),
     }
   })
 }
@@ -75,8 +127,14 @@ export function calculateWordDifficulty(
 export function computeBenchmarkAnalysis(
   results: BenchmarkResults
 ): BenchmarkAnalysis {
-  const validModels = filterValidModels(results.models)
-  const wordDifficulty = calculateWordDifficulty(results.models, results.words)
+  // Superlatives and word difficulty compare the LLMs; solver baselines only appear in the leaderboard
+  const llmModels = results.models.filter((m) => !m.baseline)
+  const validModels = filterValidModels(llmModels)
+  const wordDifficulty = calculateWordDifficulty(
+    llmModels,
+    results.words,
+    getBenchmarkMaxGuesses(results)
+  )
 
   // Sort by solve rate
   const sortedByDifficulty = [...wordDifficulty].sort(
@@ -139,9 +197,11 @@ export function computeBenchmarkAnalysis(
  * Calculate composite score for ranking
  * Best model = most accurate + fastest + fewest guesses
  * Weights: Accuracy (40%), Speed (35%), Guess Efficiency (25%)
+ * Guess efficiency is scaled to the guess limit the benchmark was run with
  */
 export function calculateCompositeScore(
-  stats: { winRate: number; avgGuesses: number; medianTimeMs: number; gamesSolved: number }
+  stats: { winRate: number; avgGuesses: number; medianTimeMs: number; gamesSolved: number },
+  maxGuesses = DEFAULT_MAX_GUESSES
 ): number {
   // Accuracy: win rate already 0-100
   const accuracyScore = stats.winRate
@@ -153,10 +213,11 @@ export function calculateCompositeScore(
       ? Math.max(0, Math.min(100, 100 - (Math.log10(stats.medianTimeMs / 1000) / Math.log10(120)) * 100))
       : 0
 
-  // Guess efficiency: fewer guesses is better (1 = 100, 6 = 0)
+  // Guess efficiency: fewer guesses is better (1 = 100, guess limit = 0)
+  const guessLimit = getGuessLimit(maxGuesses)
   const guessScore =
-    stats.gamesSolved > 0
-      ? ((6 - stats.avgGuesses) / 5) * 100
+    stats.gamesSolved > 0 && guessLimit > 1
+      ? Math.max(0, ((guessLimit - stats.avgGuesses) / (guessLimit - 1)) * 100)
       : 0
 
   return accuracyScore * 0.4 + speedScore * 0.35 + guessScore * 0.25
@@ -164,26 +225,44 @@ export function calculateCompositeScore(
 
 /**
  * Build sorted leaderboard from model results
+ * Entries are ranked by composite score and also carry a head-to-head rating with its own rank.
  */
 export function buildLeaderboard(
-  models: BenchmarkModelResult[]
+  models: BenchmarkModelResult[],
+  maxGuesses = DEFAULT_MAX_GUESSES
 ): BenchmarkLeaderboardEntry[] {
+  const guessLimit = getGuessLimit(maxGuesses)
+  const ratings = calculateRatings(matchesFromBenchmark(models))
   const entries: BenchmarkLeaderboardEntry[] = models.map((model) => ({
     rank: 0,
     modelId: model.id,
     modelName: model.name,
     score: calculateCompositeScore({
       winRate: model.stats.winRate ?? 0,
-      avgGuesses: model.stats.avgGuesses ?? 6,
+      avgGuesses: model.stats.avgGuesses ?? guessLimit,
       medianTimeMs: model.stats.medianTimeMs ?? 0,
       gamesSolved: model.stats.gamesSolved ?? 0,
-    }),
+    }, maxGuesses),
     winRate: model.stats.winRate ?? 0,
-    avgGuesses: model.stats.avgGuesses ?? 6,
+    avgGuesses: model.stats.avgGuesses ?? guessLimit,
+    // Runs saved before intervals were recorded get them from their games
+    ...(model.stats.winRateCI
+      ? { winRateCI: model.stats.winRateCI, avgGuessesCI: model.stats.avgGuessesCI }
+      : calculateConfidenceIntervals(model.games ?? [])),
     medianTimeMs: model.stats.medianTimeMs ?? 0,
     totalCost: model.stats.totalCost ?? 0,
+    consistencyRate: model.stats.consistencyRate,
+    baseline: model.baseline || undefined,
   }))
 
+  ratings.forEach((rating, i) => {
+    const entry = entries.find((e) => e.modelId === rating.modelId)
+    if (!entry) return
+    entry.rating = rating.rating
+    entry.ratingError = rating.ratingError
+    entry.ratingRank = i + 1
+  })
+
   entries.sort((a, b) => b.score - a.score)
   entries.forEach((entry, i) => {
     entry.rank = i + 1
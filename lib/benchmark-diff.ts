@@ -0,0 +1,131 @@
+// Run-over-run comparison of two benchmark results
+// Compares a base run with a newer head run per model (stat changes, words that flipped between
+// solved and failed) and per word (solve rate among the models both runs played).
+
+import type { BenchmarkGameResult, BenchmarkModelResult, BenchmarkResults } from "./benchmark-types"
+
+export interface MetricChange {
+  base: number
+  head: number
+  delta: number // head - base
+}
+
+export type ModelDiffStatus = "added" | "removed" | "changed" | "unchanged"
+
+export interface ModelRunDiff {
+  modelId: string
+  modelName: string
+  status: ModelDiffStatus
+  // Stat changes, only for models in both runs
+  winRate?: MetricChange
+  avgGuesses?: MetricChange
+  medianTimeMs?: MetricChange
+  totalCost?: MetricChange
+  newlySolved: string[] // words failed (or not always solved) in the base run, solved every time in head
+  newlyFailed: string[] // words not always failed in the base run, failed every time in head
+}
+
+export interface WordRunDiff {
+  word: string
+  solveRate?: MetricChange // % of games solved by the models in both runs, missing if either run lacks the word
+  newlySolvedBy: string[] // model IDs
+  newlyFailedBy: string[]
+}
+
+export interface RunRef {
+  runId?: string
+  runDate: string
+  label: string
+}
+
+export interface BenchmarkRunDiff {
+  base: RunRef
+  head: RunRef
+  models: ModelRunDiff[]
+  words: WordRunDiff[]
+}
+
+type WordOutcome = "solved" | "failed" | "mixed"
+
+// Outcome of every trial of each word a model played
+function wordOutcomes(games: BenchmarkGameResult[]): Map<string, WordOutcome> {
+  const byWord = new Map<string, boolean[]>()
+  games.forEach((g) => byWord.set(g.word, [...(byWord.get(g.word) ?? []), g.solved]))
+  return new Map(
+    Array.from(byWord, ([word, solved]) => [
+      word,
+      solved.every(Boolean) ? "solved" : solved.some(Boolean) ? "mixed" : "failed",
+    ])
+  )
+}
+
+function change(base: number, head: number): MetricChange {
+  return { base, head, delta: head - base }
+}
+
+function runRef(results: BenchmarkResults): RunRef {
+  return { runId: results.metadata.runId, runDate: results.metadata.runDate, label: results.metadata.version }
+}
+
+function diffModel(base: BenchmarkModelResult | undefined, head: BenchmarkModelResult | undefined): ModelRunDiff {
+  const model = (head ?? base)!
+  if (!base || !head) {
+    return { modelId: model.id, modelName: model.name, status: base ? "removed" : "added", newlySolved: [], newlyFailed: [] }
+  }
+
+  const baseOutcomes = wordOutcomes(base.games)
+  const headOutcomes = wordOutcomes(head.games)
+  const newlySolved: string[] = []
+  const newlyFailed: string[] = []
+  headOutcomes.forEach((outcome, word) => {
+    const before = baseOutcomes.get(word)
+    if (!before || before === outcome) return
+    if (outcome === "solved") newlySolved.push(word)
+    if (outcome === "failed") newlyFailed.push(word)
+  })
+
+  const diff: ModelRunDiff = {
+    modelId: model.id,
+    modelName: head.name,
+    status: "unchanged",
+    winRate: change(base.stats.winRate, head.stats.winRate),
+    avgGuesses: change(base.stats.avgGuesses, head.stats.avgGuesses),
+    medianTimeMs: change(base.stats.medianTimeMs, head.stats.medianTimeMs),
+    totalCost: change(base.stats.totalCost, head.stats.totalCost),
+    newlySolved,
+    newlyFailed,
+  }
+  const moved = [diff.winRate, diff.avgGuesses, diff.medianTimeMs, diff.totalCost].some((c) => c!.delta !== 0)
+  diff.status = moved || newlySolved.length > 0 || newlyFailed.length > 0 ? "changed" : "unchanged"
+  return diff
+}
+
+/**
+ * Compare a base run with a head run, per model and per word
+ */
+export function diffBenchmarkRuns(base: BenchmarkResults, head: BenchmarkResults): BenchmarkRunDiff {
+  const baseModels = new Map(base.models.map((m) => [m.id, m]))
+  const headModels = new Map(head.models.map((m) => [m.id, m]))
+  const modelIds = Array.from(new Set([...headModels.keys(), ...baseModels.keys()]))
+  const models = modelIds.map((id) => diffModel(baseModels.get(id), headModels.get(id)))
+
+  // Words are compared over the models both runs played, so added or removed models don't move solve rates
+  const shared = models.filter((m) => m.status === "changed" || m.status === "unchanged")
+  const solveRate = (results: Map<string, BenchmarkModelResult>, word: string) => {
+    const games = shared.flatMap((m) => results.get(m.modelId)!.games.filter((g) => g.word === word))
+    return games.length > 0 ? (games.filter((g) => g.solved).length / games.length) * 100 : undefined
+  }
+
+  const words = Array.from(new Set([...head.words, ...base.words])).map((word) => {
+    const before = solveRate(baseModels, word)
+    const after = solveRate(headModels, word)
+    return {
+      word,
+      solveRate: before !== undefined && after !== undefined ? change(before, after) : undefined,
+      newlySolvedBy: shared.filter((m) => m.newlySolved.includes(word)).map((m) => m.modelId),
+      newlyFailedBy: shared.filter((m) => m.newlyFailed.includes(word)).map((m) => m.modelId),
+    }
+  })
+
+  return { base: runRef(base), head: runRef(head), models, words }
+}
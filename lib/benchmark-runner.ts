@@ -0,0 +1,380 @@
+// Benchmark runner - plays models against a word list and assembles the results file
+// Everything the benchmark CLI (scripts/benchmark.ts) shares between its subcommands: picking models
+// and words, playing single games, per-model stats and the metadata around a run.
+
+import * as fs from "fs"
+import * as path from "path"
+import { WordleEngine } from "./wordle-engine"
+import { findModelPrice, loadPricingRegistry } from "./pricing"
+import { getModelProviderId } from "./providers"
+import { isBaselineModel } from "./constants"
+import { isAnswerWord } from "./wordle-words"
+import { DEFAULT_INVALID_GUESS_RETRIES, DEFAULT_MAX_GUESSES, getGuessLimit } from "./wordle-utils"
+import { calculateConfidenceIntervals } from "./benchmark-stats"
+import { BENCHMARK_SCHEMA_VERSION } from "./benchmark-schema"
+import { buildLeaderboard } from "./benchmark-data"
+import type { ModelConfig, WordleConfig } from "./types"
+import type {
+  BenchmarkResults,
+  BenchmarkModelResult,
+  BenchmarkGameResult,
+  BenchmarkModelStats,
+} from "./benchmark-types"
+
+export const BENCHMARK_WORDS_PATH = path.join(process.cwd(), "data/benchmark-words.json")
+
+// The "quick" word set: the first few benchmark words
+export const QUICK_WORD_COUNT = 5
+
+export interface GameSettings {
+  maxGuesses: number // 0 = unlimited
+  invalidGuessRetries: number
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  maxGuesses: DEFAULT_MAX_GUESSES,
+  invalidGuessRetries: DEFAULT_INVALID_GUESS_RETRIES,
+}
+
+export interface ModelFilters {
+  modelIds?: string[] // exact IDs, or patterns with * wildcards like "claude-*"
+  providers?: string[] // provider IDs from lib/providers.ts
+}
+
+function matchesPattern(id: string, pattern: string): boolean {
+  if (!pattern.includes("*")) return id === pattern
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+  return new RegExp(`^${escaped.join(".*")}$`).test(id)
+}
+
+/**
+ * Models matching every filter, in their original order
+ * Throws when a model ID or pattern matches nothing, so a typo doesn't silently shrink a run.
+ */
+export function selectModels<T extends { id: string; provider?: string }>(models: T[], filters: ModelFilters = {}): T[] {
+  const { modelIds, providers } = filters
+  modelIds?.forEach((pattern) => {
+    if (!models.some((m) => matchesPattern(m.id, pattern))) throw new Error(`No model matches: ${pattern}`)
+  })
+
+  return models.filter(
+    (m) =>
+      (!modelIds || modelIds.some((pattern) => matchesPattern(m.id, pattern))) &&
+      (!providers || providers.includes(getModelProviderId(m)))
+  )
+}
+
+// A JSON array of words, or an object with a `words` array like data/benchmark-words.json
+function readWordFile(filePath: string): string[] {
+  const data = JSON.parse(fs.readFileSync(filePath, "utf-8"))
+  const words = Array.isArray(data) ? data : data?.words
+  if (!Array.isArray(words) || !words.every((w) => typeof w === "string")) {
+    throw new Error(`${filePath} must hold a JSON array of words or an object with a "words" array`)
+  }
+  return words
+}
+
+/**
+ * Words for a word set spec
+ * "benchmark" (the default) is the curated list, "quick" its first QUICK_WORD_COUNT words, a path
+ * ending in .json a word file, and anything else a comma-separated list of words.
+ */
+export function resolveWordSet(spec = "benchmark", benchmarkWordsPath: string = BENCHMARK_WORDS_PATH): string[] {
+  let words: string[]
+  if (spec === "benchmark") words = readWordFile(benchmarkWordsPath)
+  else if (spec === "quick") words = readWordFile(benchmarkWordsPath).slice(0, QUICK_WORD_COUNT)
+  else if (spec.endsWith(".json")) words = readWordFile(spec)
+  else words = spec.split(",").map((w) => w.trim()).filter(Boolean)
+
+  words = Array.from(new Set(words.map((w) => w.toLowerCase())))
+  // Solvers only consider answer words, so any other target would be unwinnable for them
+  const invalid = words.filter((w) => w.length !== 5 || !isAnswerWord(w))
+  if (invalid.length > 0) throw new Error(`Not 5-letter answer words: ${invalid.join(", ")}`)
+  if (words.length === 0) throw new Error(`Word set "${spec}" has no words`)
+  return words
+}
+
+/**
+ * Play a single Wordle game for one model
+ * A game that errors counts as failed at the guess limit rather than stopping the run.
+ */
+export async function runBenchmarkGame(
+  model: ModelConfig,
+  targetWord: string,
+  settings: GameSettings = DEFAULT_GAME_SETTINGS,
+  trial = 0
+): Promise<BenchmarkGameResult> {
+  const config: WordleConfig = {
+    id: `benchmark-${model.id}-${targetWord}-${trial}-${Date.now()}`,
+    name: `Benchmark: ${model.name} vs ${targetWord}`,
+    models: [model],
+    targetWord,
+    wordLength: 5,
+    maxGuesses: settings.maxGuesses,
+    invalidGuessRetries: settings.invalidGuessRetries,
+    createdAt: Date.now(),
+  }
+
+  const engine = new WordleEngine(config, {})
+  const startTime = Date.now()
+
+  try {
+    const result = await engine.start()
+    const endTime = Date.now()
+
+    const modelResult = result.modelResults[0]
+    if (!modelResult) {
+      throw new Error("No model result returned")
+    }
+
+    const gameState = engine.getState().modelStates.get(model.id)
+    const guesses = gameState?.guesses.map((g) => g.word) || []
+    const checked = gameState?.guesses.filter((g) => g.inconsistencies !== undefined) ?? []
+
+    return {
+      word: targetWord,
+      trial,
+      solved: modelResult.solved,
+      guessCount: modelResult.guessCount,
+      timeMs: endTime - startTime,
+      guesses,
+      tokens: modelResult.totalTokens || 0,
+      reasoningTokens: modelResult.reasoningTokens,
+      cachedPromptTokens: modelResult.cachedPromptTokens,
+      cost: modelResult.totalCost || 0,
+      invalidGuesses: modelResult.invalidGuesses || 0,
+      avgSkill: modelResult.avgSkill,
+      avgLuck: modelResult.avgLuck,
+      checkedGuesses: checked.length,
+      inconsistentGuesses: checked.filter((g) => g.inconsistencies!.length > 0).length,
+    }
+  } catch (error) {
+    console.error(`Error running game for ${model.id} on word "${targetWord}":`, error)
+    return {
+      word: targetWord,
+      trial,
+      solved: false,
+      guessCount: getGuessLimit(settings.maxGuesses),
+      timeMs: 0,
+      guesses: [],
+      tokens: 0,
+      cost: 0,
+    }
+  }
+}
+
+/**
+ * Aggregate stats for a model's games
+ */
+export function calculateModelStats(
+  games: BenchmarkGameResult[],
+  maxGuesses = DEFAULT_MAX_GUESSES
+): BenchmarkModelStats {
+  const solvedGames = games.filter((g) => g.solved)
+  const gamesPlayed = games.length
+  const gamesSolved = solvedGames.length
+
+  const winRate = gamesPlayed > 0 ? (gamesSolved / gamesPlayed) * 100 : 0
+
+  const avgGuesses = solvedGames.length > 0
+    ? solvedGames.reduce((sum, g) => sum + g.guessCount, 0) / solvedGames.length
+    : getGuessLimit(maxGuesses)
+
+  const validTimes = solvedGames.filter((g) => g.timeMs > 0).map((g) => g.timeMs)
+  const sortedTimes = [...validTimes].sort((a, b) => a - b)
+  const medianTimeMs = sortedTimes.length > 0 ? sortedTimes[Math.floor(sortedTimes.length / 2)] : 0
+  const avgTimeMs = validTimes.length > 0 ? validTimes.reduce((sum, t) => sum + t, 0) / validTimes.length : 0
+
+  const totalTokens = games.reduce((sum, g) => sum + g.tokens, 0)
+  const totalCost = games.reduce((sum, g) => sum + g.cost, 0)
+  const totalReasoningTokens = games.some((g) => g.reasoningTokens !== undefined)
+    ? games.reduce((sum, g) => sum + (g.reasoningTokens ?? 0), 0)
+    : undefined
+  const totalCachedPromptTokens = games.some((g) => g.cachedPromptTokens !== undefined)
+    ? games.reduce((sum, g) => sum + (g.cachedPromptTokens ?? 0), 0)
+    : undefined
+  const invalidGuesses = games.reduce((sum, g) => sum + (g.invalidGuesses ?? 0), 0)
+  const analyzedGames = games.filter((g) => g.avgSkill !== undefined)
+  const avgSkill = analyzedGames.length > 0
+    ? analyzedGames.reduce((sum, g) => sum + g.avgSkill!, 0) / analyzedGames.length
+    : undefined
+  const avgLuck = analyzedGames.length > 0
+    ? analyzedGames.reduce((sum, g) => sum + (g.avgLuck ?? 0), 0) / analyzedGames.length
+    : undefined
+  const checkedGuesses = games.reduce((sum, g) => sum + (g.checkedGuesses ?? 0), 0)
+  const consistencyRate = checkedGuesses > 0
+    ? ((checkedGuesses - games.reduce((sum, g) => sum + (g.inconsistentGuesses ?? 0), 0)) / checkedGuesses) * 100
+    : undefined
+
+  const guessDistribution: BenchmarkModelStats["guessDistribution"] = {}
+  for (let n = 1; n <= maxGuesses; n++) {
+    guessDistribution[n] = 0
+  }
+  solvedGames.forEach((g) => {
+    guessDistribution[g.guessCount] = (guessDistribution[g.guessCount] ?? 0) + 1
+  })
+
+  return {
+    winRate,
+    avgGuesses,
+    ...calculateConfidenceIntervals(games),
+    medianTimeMs,
+    avgTimeMs,
+    totalTokens,
+    totalReasoningTokens,
+    totalCachedPromptTokens,
+    totalCost,
+    gamesPlayed,
+    gamesSolved,
+    guessDistribution,
+    invalidGuesses,
+    avgSkill,
+    avgLuck,
+    consistencyRate,
+  }
+}
+
+/**
+ * A model's entry in the results file
+ */
+export function buildModelResult(
+  model: ModelConfig,
+  games: BenchmarkGameResult[],
+  maxGuesses = DEFAULT_MAX_GUESSES
+): BenchmarkModelResult {
+  return {
+    id: model.id,
+    name: model.name,
+    modelString: model.modelString,
+    enableThinking: model.enableThinking,
+    thinkingLevel: model.thinkingLevel,
+    reasoningEffort: model.reasoningEffort,
+    baseline: isBaselineModel(model) || undefined,
+    pricing: findModelPrice(model),
+    stats: calculateModelStats(games, maxGuesses),
+    games,
+  }
+}
+
+// Resume key for one game: word and trial
+function gameKey(game: { word: string; trial?: number }): string {
+  return `${game.word}#${game.trial ?? 0}`
+}
+
+/**
+ * Games a model still has to play: every trial of every word not in `playedGames`
+ */
+export function remainingGames(
+  words: string[],
+  trials: number,
+  playedGames: BenchmarkGameResult[] = []
+): { word: string; trial: number }[] {
+  const played = new Set(playedGames.map(gameKey))
+  return words
+    .flatMap((word) => Array.from({ length: trials }, (_, trial) => ({ word, trial })))
+    .filter((game) => !played.has(gameKey(game)))
+}
+
+export interface BenchmarkModelOptions {
+  words: string[]
+  trials: number
+  settings: GameSettings
+  concurrency: number // games in flight at once
+  initialGames?: BenchmarkGameResult[] // games already played, skipped when resuming
+  onGameStart?: (word: string, trial: number) => void
+  // Called after every game with the model's results so far, e.g. to save intermediate results
+  onGameComplete?: (game: BenchmarkGameResult, progress: { completed: number; total: number }, result: BenchmarkModelResult) => void
+}
+
+/**
+ * Play every remaining game for one model, `concurrency` games at a time
+ */
+export async function benchmarkModel(model: ModelConfig, options: BenchmarkModelOptions): Promise<BenchmarkModelResult> {
+  const { words, trials, settings, concurrency, onGameStart, onGameComplete } = options
+  const games: BenchmarkGameResult[] = [...(options.initialGames ?? [])]
+  const queue = remainingGames(words, trials, games)
+  const total = queue.length
+  let completed = 0
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const { word, trial } = queue.shift()!
+      onGameStart?.(word, trial)
+      const game = await runBenchmarkGame(model, word, settings, trial)
+      games.push(game)
+      completed++
+      onGameComplete?.(game, { completed, total }, buildModelResult(model, [...games], settings.maxGuesses))
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, total)) }, worker))
+
+  return buildModelResult(model, games, settings.maxGuesses)
+}
+
+/**
+ * Results limited to some models and words, with stats and the leaderboard recomputed
+ * Used to report on part of a run and to drop bad model data from a results file.
+ */
+export function restrictResults(
+  results: BenchmarkResults,
+  keep: { modelIds?: string[]; words?: string[] }
+): BenchmarkResults {
+  const maxGuesses = results.metadata.maxGuesses ?? DEFAULT_MAX_GUESSES
+  const words = keep.words ? results.words.filter((w) => keep.words!.includes(w)) : results.words
+  const models = results.models
+    .filter((m) => !keep.modelIds || keep.modelIds.includes(m.id))
+    .map((m) => {
+      if (!keep.words) return m
+      const games = m.games.filter((g) => words.includes(g.word))
+      return { ...m, games, stats: calculateModelStats(games, maxGuesses) }
+    })
+
+  return {
+    metadata: {
+      ...results.metadata,
+      wordCount: words.length,
+      totalModels: models.length,
+      totalGames: models.reduce((sum, m) => sum + m.games.length, 0),
+      totalCost: models.reduce((sum, m) => sum + m.stats.totalCost, 0),
+    },
+    words,
+    models,
+    leaderboard: buildLeaderboard(models, maxGuesses),
+  }
+}
+
+export interface BenchmarkRunInfo {
+  startTime: number
+  settings: GameSettings
+  trials: number
+  partial?: boolean // an intermediate save of a run still in progress
+}
+
+/**
+ * Full results file for a set of model results, with a fresh leaderboard
+ */
+export function buildBenchmarkResults(
+  models: BenchmarkModelResult[],
+  words: string[],
+  run: BenchmarkRunInfo
+): BenchmarkResults {
+  return {
+    metadata: {
+      schemaVersion: BENCHMARK_SCHEMA_VERSION,
+      runDate: new Date().toISOString(),
+      wordCount: words.length,
+      version: run.partial ? "1.0-partial" : "1.0",
+      totalModels: models.length,
+      totalGames: models.reduce((sum, m) => sum + m.games.length, 0),
+      totalCost: models.reduce((sum, m) => sum + m.stats.totalCost, 0),
+      runDurationMs: Date.now() - run.startTime,
+      maxGuesses: run.settings.maxGuesses,
+      invalidGuessRetries: run.settings.invalidGuessRetries,
+      trialsPerWord: run.trials,
+      pricingVersion: loadPricingRegistry().version,
+    },
+    words,
+    models,
+    leaderboard: buildLeaderboard(models, run.settings.maxGuesses),
+  }
+}
@@ -0,0 +1,207 @@
+// Benchmark result schema - runtime validation and migrations for saved result files
+// Every file records the schema version it was written with in `metadata.schemaVersion` (files from
+// before it existed are version 1). Loading upgrades older files one version at a time and then
+// validates them, so old runs keep loading as the format grows. When the format changes, bump
+// BENCHMARK_SCHEMA_VERSION, describe it in SCHEMA_VERSIONS and add the migration from the previous version.
+
+import { z } from "zod"
+import type { BenchmarkResults } from "./benchmark-types"
+
+export const BENCHMARK_SCHEMA_VERSION = 2
+
+export const SCHEMA_VERSIONS: { version: number; description: string }[] = [
+  { version: 1, description: "Original format, no schemaVersion. Models that played no games saved a null win rate." },
+  { version: 2, description: "Adds metadata.schemaVersion. Win rates are always numbers." },
+]
+
+const confidenceIntervalSchema = z.tuple([z.number(), z.number()])
+
+const gameSchema = z.object({
+  word: z.string(),
+  trial: z.number().int().nonnegative().optional(),
+  solved: z.boolean(),
+  guessCount: z.number(),
+  timeMs: z.number(),
+  guesses: z.array(z.string()),
+  tokens: z.number(),
+  reasoningTokens: z.number().optional(),
+  cachedPromptTokens: z.number().optional(),
+  cost: z.number(),
+  invalidGuesses: z.number().optional(),
+  avgSkill: z.number().optional(),
+  avgLuck: z.number().optional(),
+  checkedGuesses: z.number().optional(),
+  inconsistentGuesses: z.number().optional(),
+})
+
+const statsSchema = z.object({
+  winRate: z.number(),
+  avgGuesses: z.number(),
+  winRateCI: confidenceIntervalSchema.optional(),
+  avgGuessesCI: confidenceIntervalSchema.optional(),
+  medianTimeMs: z.number(),
+  avgTimeMs: z.number(),
+  totalTokens: z.number(),
+  totalReasoningTokens: z.number().optional(),
+  totalCachedPromptTokens: z.number().optional(),
+  totalCost: z.number(),
+  gamesPlayed: z.number(),
+  gamesSolved: z.number(),
+  guessDistribution: z.record(z.number()),
+  invalidGuesses: z.number().optional(),
+  avgSkill: z.number().optional(),
+  avgLuck: z.number().optional(),
+  consistencyRate: z.number().optional(),
+})
+
+const modelPriceSchema = z.object({
+  effectiveFrom: z.string(),
+  input: z.number(),
+  output: z.number(),
+  cachedInput: z.number().optional(),
+  reasoning: z.number().optional(),
+  source: z.string().optional(),
+  version: z.number(),
+})
+
+const modelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  modelString: z.string(),
+  enableThinking: z.boolean().optional(),
+  thinkingLevel: z.string().optional(),
+  reasoningEffort: z.string().optional(),
+  baseline: z.boolean().optional(),
+  pricing: modelPriceSchema.optional(),
+  stats: statsSchema,
+  games: z.array(gameSchema),
+})
+
+const leaderboardEntrySchema = z.object({
+  rank: z.number(),
+  modelId: z.string(),
+  modelName: z.string(),
+  score: z.number(),
+  rating: z.number().optional(),
+  ratingError: z.number().optional(),
+  ratingRank: z.number().optional(),
+  winRate: z.number(),
+  avgGuesses: z.number(),
+  winRateCI: confidenceIntervalSchema.optional(),
+  avgGuessesCI: confidenceIntervalSchema.optional(),
+  medianTimeMs: z.number(),
+  totalCost: z.number(),
+  consistencyRate: z.number().optional(),
+  baseline: z.boolean().optional(),
+})
+
+const metadataSchema = z.object({
+  schemaVersion: z.literal(BENCHMARK_SCHEMA_VERSION),
+  runId: z.string().optional(),
+  runDate: z.string(),
+  wordCount: z.number(),
+  version: z.string(),
+  totalModels: z.number(),
+  totalGames: z.number(),
+  totalCost: z.number(),
+  runDurationMs: z.number(),
+  maxGuesses: z.number().optional(),
+  invalidGuessRetries: z.number().optional(),
+  trialsPerWord: z.number().int().positive().optional(),
+  pricingVersion: z.number().optional(),
+})
+
+export const benchmarkResultsSchema = z.object({
+  metadata: metadataSchema,
+  words: z.array(z.string()),
+  models: z.array(modelSchema),
+  leaderboard: z.array(leaderboardEntrySchema),
+})
+
+// Keep the schema and the BenchmarkResults interface in step: this fails to compile if they drift apart
+type SchemaMatchesTypes = z.infer<typeof benchmarkResultsSchema> extends BenchmarkResults ? true : never
+const schemaMatchesTypes: SchemaMatchesTypes = true
+void schemaMatchesTypes
+
+// A result file of unknown shape, as read from disk
+type RawResults = Record<string, unknown>
+
+function isRawResults(value: unknown): value is RawResults {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Migrations from each version to the next, keyed by the version they upgrade from
+// Anything they don't recognise is passed through for validation to report.
+const MIGRATIONS: Record<number, (data: RawResults) => RawResults> = {
+  1: (data) => {
+    const withWinRate = (value: unknown): unknown =>
+      isRawResults(value) && value.winRate === null ? { ...value, winRate: 0 } : value
+    return {
+      ...data,
+      metadata: { ...(isRawResults(data.metadata) ? data.metadata : {}), schemaVersion: 2 },
+      models: Array.isArray(data.models)
+        ? data.models.map((m: unknown) => (isRawResults(m) ? { ...m, stats: withWinRate(m.stats) } : m))
+        : data.models,
+      leaderboard: Array.isArray(data.leaderboard) ? data.leaderboard.map(withWinRate) : data.leaderboard,
+    }
+  },
+}
+
+/**
+ * Schema version a result file was written with
+ */
+export function getSchemaVersion(data: unknown): number {
+  const version = isRawResults(data) && isRawResults(data.metadata) ? data.metadata.schemaVersion : undefined
+  return typeof version === "number" ? version : 1
+}
+
+/**
+ * Upgrade a result file to the current schema version without validating it
+ */
+export function migrateBenchmarkResults(data: unknown): unknown {
+  let version = getSchemaVersion(data)
+  if (version > BENCHMARK_SCHEMA_VERSION) {
+    throw new Error(
+      `Benchmark results use schema version ${version}, newer than the supported version ${BENCHMARK_SCHEMA_VERSION}`
+    )
+  }
+
+  // Only objects can be upgraded, validation rejects anything else
+  if (!isRawResults(data)) return data
+
+  let migrated = data
+  while (version < BENCHMARK_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) throw new Error(`No migration from benchmark schema version ${version}`)
+    migrated = migrate(migrated)
+    version++
+  }
+  return migrated
+}
+
+const MAX_REPORTED_ISSUES = 10
+
+/**
+ * Upgrade and validate a result file, throwing an error that lists every problem found
+ * `source` names the file in the error message.
+ */
+export function parseBenchmarkResults(data: unknown, source = "benchmark results"): BenchmarkResults {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`Invalid ${source}: expected a JSON object`)
+  }
+
+  const result = benchmarkResultsSchema.safeParse(migrateBenchmarkResults(data))
+  if (result.success) return result.data
+
+  const issues = result.error.issues.map((issue) => {
+    const path = issue.path.reduce<string>(
+      (acc, key) => (typeof key === "number" ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key),
+      ""
+    )
+    return `  - ${path || "(root)"}: ${issue.message}`
+  })
+  const more = issues.length > MAX_REPORTED_ISSUES ? `\n  ...and ${issues.length - MAX_REPORTED_ISSUES} more` : ""
+  throw new Error(
+    `Invalid ${source} (schema version ${BENCHMARK_SCHEMA_VERSION}):\n${issues.slice(0, MAX_REPORTED_ISSUES).join("\n")}${more}`
+  )
+}
@@ -0,0 +1,234 @@
+// Statistics for benchmark results: confidence intervals and pairwise model comparisons
+// Words are resampled with replacement, keeping every trial of a word together, so an interval shows
+// how much a model's numbers depend on which words happened to be in the set. Resampling is seeded,
+// so the same games always give the same interval.
+
+import type { BenchmarkGameResult, BenchmarkModelResult } from "./benchmark-types"
+import { createSeededRandom, hashString } from "./random"
+
+export type ConfidenceInterval = [number, number] // [lower, upper]
+
+export const BOOTSTRAP_RESAMPLES = 1000
+export const CONFIDENCE_LEVEL = 0.95
+
+export interface BootstrapOptions {
+  resamples?: number
+  confidence?: number
+  seed?: number
+}
+
+/**
+ * Percentile bootstrap interval for a statistic over groups of observations
+ * Resamples where the statistic is undefined (e.g. no solved games to average) are skipped.
+ * Returns undefined when there is nothing to resample.
+ */
+export function bootstrapConfidenceInterval<T>(
+  groups: T[][],
+  statistic: (sample: T[]) => number | undefined,
+  { resamples = BOOTSTRAP_RESAMPLES, confidence = CONFIDENCE_LEVEL, seed = 0 }: BootstrapOptions = {},
+): ConfidenceInterval | undefined {
+  if (groups.length === 0) return undefined
+
+  const random = createSeededRandom(seed)
+  const estimates: number[] = []
+  for (let i = 0; i < resamples; i++) {
+    const sample: T[] = []
+    for (let j = 0; j < groups.length; j++) {
+      sample.push(...groups[Math.floor(random() * groups.length)])
+    }
+    const value = statistic(sample)
+    if (value !== undefined) estimates.push(value)
+  }
+  if (estimates.length === 0) return undefined
+
+  estimates.sort((a, b) => a - b)
+  const tail = (1 - confidence) / 2
+  const at = (q: number) => estimates[Math.min(estimates.length - 1, Math.max(0, Math.floor(q * estimates.length)))]
+  return [at(tail), at(1 - tail)]
+}
+
+/**
+ * Group a model's games by word, every trial of a word in one group
+ */
+export function groupGamesByWord(games: BenchmarkGameResult[]): BenchmarkGameResult[][] {
+  const byWord = new Map<string, BenchmarkGameResult[]>()
+  games.forEach((game) => {
+    const group = byWord.get(game.word)
+    if (group) group.push(game)
+    else byWord.set(game.word, [game])
+  })
+  return Array.from(byWord.values())
+}
+
+export function calculateWinRate(games: BenchmarkGameResult[]): number | undefined {
+  return games.length > 0 ? (games.filter((g) => g.solved).length / games.length) * 100 : undefined
+}
+
+// Average guesses over solved games, like BenchmarkModelStats.avgGuesses
+export function calculateAvgGuesses(games: BenchmarkGameResult[]): number | undefined {
+  const solved = games.filter((g) => g.solved)
+  return solved.length > 0 ? solved.reduce((sum, g) => sum + g.guessCount, 0) / solved.length : undefined
+}
+
+/**
+ * 95% bootstrap intervals for a model's win rate and average guesses
+ */
+export function calculateConfidenceIntervals(
+  games: BenchmarkGameResult[],
+  options: BootstrapOptions = {},
+): { winRateCI?: ConfidenceInterval; avgGuessesCI?: ConfidenceInterval } {
+  const groups = groupGamesByWord(games)
+  const seed = options.seed ?? hashString(groups.map((g) => g[0].word).join(","))
+  return {
+    winRateCI: bootstrapConfidenceInterval(groups, calculateWinRate, { ...options, seed }),
+    avgGuessesCI: bootstrapConfidenceInterval(groups, calculateAvgGuesses, { ...options, seed }),
+  }
+}
+
+// ── Pairwise comparison ──────────────────────────────────────
+// Two models are compared only on the games they both played (same word and trial), so every
+// difference is measured on the same puzzle. Tests are two-sided and exact where it's cheap.
+
+export const SIGNIFICANCE_LEVEL = 0.05
+const PERMUTATIONS = 10000 // Monte Carlo sign flips when exact enumeration is too large
+const MAX_EXACT_PAIRS = 16 // 2^16 sign patterns
+
+export interface SolveComparison {
+  pairs: number // shared games
+  bothSolved: number
+  onlyA: number // solved by A but not B
+  onlyB: number
+  winRateDifference: number // A minus B, percentage points
+  oddsRatio?: number // onlyA / onlyB (McNemar effect size), missing when neither has a unique solve
+  pValue: number // exact McNemar (binomial test on the discordant games)
+}
+
+export interface GuessComparison {
+  pairs: number // shared games both models solved
+  meanDifference: number // A minus B, negative = A needed fewer guesses
+  rankBiserial: number // -1 to 1, matched-pairs rank-biserial correlation, negative favours A
+  pValue: number // paired permutation test on the mean difference
+}
+
+export interface ModelComparison {
+  modelA: string
+  modelB: string
+  sharedGames: number
+  solves: SolveComparison
+  guesses?: GuessComparison // missing when no shared game was solved by both
+}
+
+function pairGames(a: BenchmarkGameResult[], b: BenchmarkGameResult[]): [BenchmarkGameResult, BenchmarkGameResult][] {
+  const key = (g: BenchmarkGameResult) => `${g.word}#${g.trial ?? 0}`
+  const byKey = new Map(b.map((g) => [key(g), g]))
+  return a.flatMap((g) => {
+    const other = byKey.get(key(g))
+    return other ? [[g, other] as [BenchmarkGameResult, BenchmarkGameResult]] : []
+  })
+}
+
+/**
+ * Two-sided exact McNemar test: are the discordant games split more unevenly than a fair coin would?
+ */
+export function mcnemarExactTest(onlyA: number, onlyB: number): number {
+  const n = onlyA + onlyB
+  if (n === 0) return 1
+  // P(X <= min) for X ~ Binomial(n, 0.5), built up term by term to stay in floating point range
+  let term = Math.pow(0.5, n)
+  let tail = term
+  for (let k = 1; k <= Math.min(onlyA, onlyB); k++) {
+    term = (term * (n - k + 1)) / k
+    tail += term
+  }
+  return Math.min(1, 2 * tail)
+}
+
+/**
+ * Two-sided paired permutation test on the mean of the differences
+ * Flips the sign of each difference, exactly when there are few of them, otherwise with seeded samples.
+ */
+export function pairedPermutationTest(differences: number[], seed = 0): number {
+  const nonZero = differences.filter((d) => d !== 0)
+  if (nonZero.length === 0) return 1
+
+  const observed = Math.abs(nonZero.reduce((sum, d) => sum + d, 0))
+  const atLeastAsExtreme = (signs: (i: number) => boolean) => {
+    const total = nonZero.reduce((sum, d, i) => sum + (signs(i) ? -d : d), 0)
+    return Math.abs(total) >= observed - 1e-9
+  }
+
+  if (nonZero.length <= MAX_EXACT_PAIRS) {
+    const patterns = 2 ** nonZero.length
+    let extreme = 0
+    for (let mask = 0; mask < patterns; mask++) {
+      if (atLeastAsExtreme((i) => (mask & (1 << i)) !== 0)) extreme++
+    }
+    return extreme / patterns
+  }
+
+  const random = createSeededRandom(seed)
+  let extreme = 0
+  for (let i = 0; i < PERMUTATIONS; i++) {
+    const flips = nonZero.map(() => random() < 0.5)
+    if (atLeastAsExtreme((j) => flips[j])) extreme++
+  }
+  // Count the observed arrangement so the estimate is never exactly 0
+  return (extreme + 1) / (PERMUTATIONS + 1)
+}
+
+/**
+ * Matched-pairs rank-biserial correlation, the effect size of the Wilcoxon signed-rank test
+ * Share of rank sum on positive differences minus the share on negative ones; ties get average ranks.
+ */
+export function rankBiserialCorrelation(differences: number[]): number {
+  const nonZero = differences.filter((d) => d !== 0).sort((x, y) => Math.abs(x) - Math.abs(y))
+  if (nonZero.length === 0) return 0
+
+  let positive = 0
+  let negative = 0
+  for (let i = 0; i < nonZero.length; ) {
+    let j = i
+    while (j < nonZero.length && Math.abs(nonZero[j]) === Math.abs(nonZero[i])) j++
+    const rank = (i + 1 + j) / 2 // average of ranks i+1..j
+    for (let k = i; k < j; k++) {
+      if (nonZero[k] > 0) positive += rank
+      else negative += rank
+    }
+    i = j
+  }
+  return (positive - negative) / (positive + negative)
+}
+
+/**
+ * Compare two models on the games they share
+ * Solve outcomes use McNemar's test; guess counts (games both solved) use a paired permutation test.
+ */
+export function compareModels(a: BenchmarkModelResult, b: BenchmarkModelResult): ModelComparison {
+  const pairs = pairGames(a.games, b.games)
+  const onlyA = pairs.filter(([ga, gb]) => ga.solved && !gb.solved).length
+  const onlyB = pairs.filter(([ga, gb]) => !ga.solved && gb.solved).length
+  const bothSolved = pairs.filter(([ga, gb]) => ga.solved && gb.solved)
+
+  const solves: SolveComparison = {
+    pairs: pairs.length,
+    bothSolved: bothSolved.length,
+    onlyA,
+    onlyB,
+    winRateDifference: pairs.length > 0 ? ((onlyA - onlyB) / pairs.length) * 100 : 0,
+    oddsRatio: onlyB > 0 ? onlyA / onlyB : onlyA > 0 ? Infinity : undefined,
+    pValue: mcnemarExactTest(onlyA, onlyB),
+  }
+
+  let guesses: GuessComparison | undefined
+  if (bothSolved.length > 0) {
+    const differences = bothSolved.map(([ga, gb]) => ga.guessCount - gb.guessCount)
+    guesses = {
+      pairs: differences.length,
+      meanDifference: differences.reduce((sum, d) => sum + d, 0) / differences.length,
+      rankBiserial: rankBiserialCorrelation(differences),
+      pValue: pairedPermutationTest(differences, hashString(`${a.id}|${b.id}`)),
+    }
+  }
+
+  return { modelA: a.id, modelB: b.id, sharedGames: pairs.length, solves, guesses }
+}
@@ -1,33 +1,45 @@
 // Benchmark data structures for Wordle AI benchmarking
 
+import type { ModelPrice } from "./pricing"
+import type { ConfidenceInterval } from "./benchmark-stats"
+
 export interface BenchmarkGameResult {
   word: string
+  trial?: number // 0-based when a word is played more than once (missing = 0)
   solved: boolean
-  guessCount: number // 1-6
+  guessCount: number // guess that solved it, or guesses made if failed
   timeMs: number
   guesses: string[] // The actual guesses made
   tokens: number
+  reasoningTokens?: number // part of tokens spent on hidden reasoning, when the provider reports it
+  cachedPromptTokens?: number // prompt tokens served from the provider's cache, when reported
   cost: number // USD estimate
+  invalidGuesses?: number // turns lost to answers that weren't a new dictionary word
+  avgSkill?: number // 0-100, expected information of each guess vs the best guess (lib/guess-analysis.ts)
+  avgLuck?: number // bits gained beyond what each guess was expected to reveal
+  checkedGuesses?: number // guesses made after some feedback, checked for consistency with it
+  inconsistentGuesses?: number // checked guesses that reused a grey letter, moved a green or kept a yellow in place
 }
 
 export interface BenchmarkModelStats {
   winRate: number // 0-100
   avgGuesses: number // average guesses for solved games
+  winRateCI?: ConfidenceInterval // 95% bootstrap interval over words (lib/benchmark-stats.ts)
+  avgGuessesCI?: ConfidenceInterval
   medianTimeMs: number
   avgTimeMs: number
   totalTokens: number
+  totalReasoningTokens?: number // missing when no game reported reasoning tokens
+  totalCachedPromptTokens?: number
   totalCost: number
   gamesPlayed: number
   gamesSolved: number
-  // Distribution of guesses (1-6) for solved games
-  guessDistribution: {
-    1: number
-    2: number
-    3: number
-    4: number
-    5: number
-    6: number
-  }
+  // Distribution of guesses for solved games, keyed by guess number (1 to the guess limit)
+  guessDistribution: Record<number, number>
+  invalidGuesses?: number // turns lost to invalid answers across all games
+  avgSkill?: number // mean of the games' avgSkill (missing in runs before guess analysis)
+  avgLuck?: number
+  consistencyRate?: number // 0-100: checked guesses that respected every hint (missing in older runs)
 }
 
 export interface BenchmarkModelResult {
@@ -37,6 +49,8 @@ export interface BenchmarkModelResult {
   enableThinking?: boolean
   thinkingLevel?: string
   reasoningEffort?: string
+  baseline?: boolean // algorithmic solver (lib/solvers.ts), not an LLM
+  pricing?: ModelPrice // rates the cost was calculated with, missing if the registry had no price
   stats: BenchmarkModelStats
   games: BenchmarkGameResult[]
 }
@@ -46,20 +60,33 @@ export interface BenchmarkLeaderboardEntry {
   modelId: string
   modelName: string
   score: number // Composite score for ranking
+  rating?: number // Bradley-Terry rating from head-to-head games (lib/ratings.ts), missing without shared games
+  ratingError?: number // half-width of the rating's 95% interval
+  ratingRank?: number // position when ranked by rating instead of score
   winRate: number
   avgGuesses: number
+  winRateCI?: ConfidenceInterval
+  avgGuessesCI?: ConfidenceInterval
   medianTimeMs: number
   totalCost: number
+  consistencyRate?: number
+  baseline?: boolean
 }
 
 export interface BenchmarkMetadata {
+  schemaVersion?: number // result format version (lib/benchmark-schema.ts), set on every file once loaded
+  runId?: string // ID in the run history store (lib/run-store.ts), missing for runs not stored there
   runDate: string // ISO date
   wordCount: number
-  version: string
+  version: string // run label, e.g. "1.0" or "1.0-partial" for intermediate saves
   totalModels: number
   totalGames: number
   totalCost: number
   runDurationMs: number
+  maxGuesses?: number // guess limit per game, 0 = unlimited (missing in runs before it was configurable: 6)
+  invalidGuessRetries?: number // extra attempts per turn after an invalid answer (missing in runs that used fallback words)
+  trialsPerWord?: number // games per word and model (missing = 1)
+  pricingVersion?: number // data/pricing.json version costs were calculated with (missing in runs before the registry)
 }
 
 export interface BenchmarkResults {
@@ -88,4 +115,4 @@ export interface BenchmarkAnalysis {
   }
 }
 
-export type BenchmarkTab = "overview" | "winrate" | "guesses" | "speed" | "cost" | "combined"
+export type BenchmarkTab = "overview" | "winrate" | "guesses" | "speed" | "cost" | "combined" | "compare"
@@ -0,0 +1,290 @@
+// Record-and-replay cassettes for model streams
+// Recording saves every provider stream (text and reasoning deltas, usage, finish) with its timing
+// to a JSON Lines file. Replaying plays those streams back through runModelOnClue in place of the
+// provider, so runs can be watched again, debugged offline, or re-scored without calling models.
+
+import * as fs from "fs"
+import * as path from "path"
+import type { LanguageModel } from "ai"
+import type { ModelConfig } from "./types"
+
+type CassetteLanguageModel = Exclude<LanguageModel, string>
+type CassetteCallOptions = Parameters<CassetteLanguageModel["doStream"]>[0]
+type CassetteStreamPart = Awaited<ReturnType<CassetteLanguageModel["doStream"]>>["stream"] extends ReadableStream<infer T> ? T : never
+
+export type CassetteMode = "record" | "replay"
+
+export const DEFAULT_CASSETTE_PATH = "cassettes/cassette.jsonl"
+
+// A stream part as saved: errors become their message, dates become ISO strings
+export type RecordedPart = { type: string; [key: string]: unknown }
+
+export interface CassetteEvent {
+  t: number // ms after the request started
+  part: RecordedPart
+}
+
+// One recorded model call
+export interface CassetteEntry {
+  modelId: string
+  modelString: string
+  provider: string
+  prompt: string
+  recordedAt: number
+  events: CassetteEvent[]
+  error?: string // the call failed before streaming
+  errorAt?: number
+}
+
+export interface CassetteSettings {
+  mode: CassetteMode
+  cassette: Cassette
+  speed: number // replay speed-up: 1 = original timing, 0 = no delays
+}
+
+/**
+ * Recorded streams, matched on replay by model id and prompt
+ * A prompt asked several times replays its recordings in the order they were made.
+ */
+export class Cassette {
+  private entries: CassetteEntry[]
+  private played = new Map<string, number>()
+
+  // Without a file path the cassette only lives in memory
+  constructor(readonly filePath?: string, entries: CassetteEntry[] = []) {
+    this.entries = entries
+  }
+
+  static load(filePath: string): Cassette {
+    if (!fs.existsSync(filePath)) return new Cassette(filePath)
+
+    const entries = fs
+      .readFileSync(filePath, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as CassetteEntry
+        } catch {
+          throw new Error(`Cassette ${filePath} has an unreadable entry on line ${index + 1}`)
+        }
+      })
+    return new Cassette(filePath, entries)
+  }
+
+  getEntries(): CassetteEntry[] {
+    return this.entries
+  }
+
+  add(entry: CassetteEntry) {
+    this.entries.push(entry)
+    if (this.filePath) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + "\n")
+    }
+  }
+
+  // The next recording of this call not yet replayed
+  take(modelId: string, prompt: string): CassetteEntry | undefined {
+    const key = `${modelId}\n${prompt}`
+    const skip = this.played.get(key) ?? 0
+    const matches = this.entries.filter((e) => e.modelId === modelId && e.prompt === prompt)
+    if (skip >= matches.length) return undefined
+    this.played.set(key, skip + 1)
+    return matches[skip]
+  }
+}
+
+type Env = Record<string, string | undefined>
+
+let envSettings: { key: string; settings?: CassetteSettings } | undefined
+
+/**
+ * Cassette settings from CASSETTE_MODE, CASSETTE_PATH and CASSETTE_SPEED
+ * The cassette is loaded once per process so replays keep their place across calls.
+ */
+export function getCassetteSettings(env: Env = process.env): CassetteSettings | undefined {
+  const key = [env.CASSETTE_MODE, env.CASSETTE_PATH, env.CASSETTE_SPEED].join("|")
+  if (envSettings?.key === key) return envSettings.settings
+
+  let settings: CassetteSettings | undefined
+  if (env.CASSETTE_MODE) {
+    if (env.CASSETTE_MODE !== "record" && env.CASSETTE_MODE !== "replay") {
+      throw new Error('CASSETTE_MODE must be "record" or "replay"')
+    }
+    const speed = env.CASSETTE_SPEED ? Number(env.CASSETTE_SPEED) : 1
+    if (!Number.isFinite(speed) || speed < 0) {
+      throw new Error("CASSETTE_SPEED must be a non-negative number (0 = no delays)")
+    }
+
+    const filePath = env.CASSETTE_PATH || DEFAULT_CASSETTE_PATH
+    if (env.CASSETTE_MODE === "replay" && !fs.existsSync(filePath)) {
+      throw new Error(`Cassette not found: ${filePath}`)
+    }
+    settings = {
+      mode: env.CASSETTE_MODE,
+      cassette: env.CASSETTE_MODE === "replay" ? Cassette.load(filePath) : new Cassette(filePath),
+      speed,
+    }
+  }
+
+  envSettings = { key, settings }
+  return settings
+}
+
+export function promptText(options: CassetteCallOptions): string {
+  return options.prompt
+    .flatMap((message) => typeof message.content === "string"
+      ? [message.content]
+      : message.content.map((part) => (part.type === "text" ? part.text : "")))
+    .join("\n")
+}
+
+function toRecordedPart(part: CassetteStreamPart): RecordedPart | null {
+  if (part.type === "raw") return null
+  if (part.type === "error") {
+    return { type: "error", error: part.error instanceof Error ? part.error.message : String(part.error) }
+  }
+  return JSON.parse(JSON.stringify(part))
+}
+
+function fromRecordedPart(part: RecordedPart): CassetteStreamPart {
+  if (part.type === "error") return { type: "error", error: new Error(String(part.error)) }
+  if (part.type === "response-metadata" && typeof part.timestamp === "string") {
+    return { ...part, timestamp: new Date(part.timestamp) } as CassetteStreamPart
+  }
+  return part as CassetteStreamPart
+}
+
+/**
+ * Wrap a provider model so each stream it returns is saved to the cassette once it finishes
+ * Streams cut short by an abort are not saved.
+ */
+export function recordLanguageModel(
+  inner: CassetteLanguageModel,
+  model: ModelConfig,
+  providerId: string,
+  cassette: Cassette,
+): CassetteLanguageModel {
+  return {
+    specificationVersion: inner.specificationVersion,
+    provider: inner.provider,
+    modelId: inner.modelId,
+    supportedUrls: inner.supportedUrls,
+    doGenerate: (callOptions) => inner.doGenerate(callOptions),
+
+    async doStream(callOptions) {
+      const start = performance.now()
+      const entry: CassetteEntry = {
+        modelId: model.id,
+        modelString: model.modelString,
+        provider: providerId,
+        prompt: promptText(callOptions),
+        recordedAt: Date.now(),
+        events: [],
+      }
+
+      let response: Awaited<ReturnType<CassetteLanguageModel["doStream"]>>
+      try {
+        response = await inner.doStream(callOptions)
+      } catch (err) {
+        if (!callOptions.abortSignal?.aborted) {
+          cassette.add({ ...entry, error: err instanceof Error ? err.message : String(err), errorAt: performance.now() - start })
+        }
+        throw err
+      }
+
+      const stream = response.stream.pipeThrough(
+        new TransformStream<CassetteStreamPart, CassetteStreamPart>({
+          transform(part, controller) {
+            const recorded = toRecordedPart(part)
+            if (recorded) entry.events.push({ t: Math.round(performance.now() - start), part: recorded })
+            controller.enqueue(part)
+          },
+          flush() {
+            if (!callOptions.abortSignal?.aborted) cassette.add(entry)
+          },
+        }),
+      )
+
+      return { ...response, stream }
+    },
+  }
+}
+
+/**
+ * A model that plays recorded streams back instead of calling the provider
+ * speed divides the recorded delays; 0 plays everything at once.
+ */
+export function createReplayModel(model: ModelConfig, cassette: Cassette, speed = 1): CassetteLanguageModel {
+  const wait = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      const aborted = () => Object.assign(new Error("Aborted"), { name: "AbortError" })
+      if (signal?.aborted) return reject(aborted())
+      if (speed === 0 || ms <= 0) return resolve()
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort)
+        resolve()
+      }, ms / speed)
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(aborted())
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+    })
+
+  const take = (callOptions: CassetteCallOptions) => {
+    const entry = cassette.take(model.id, promptText(callOptions))
+    if (!entry) {
+      throw new Error(`No recording of ${model.id} for this prompt in ${cassette.filePath ?? "the cassette"}`)
+    }
+    return entry
+  }
+
+  return {
+    specificationVersion: "v2",
+    provider: "cassette",
+    modelId: model.modelString,
+    supportedUrls: {},
+
+    async doGenerate(callOptions) {
+      const entry = take(callOptions)
+      if (entry.error) throw new Error(entry.error)
+      const parts = entry.events.map((e) => fromRecordedPart(e.part))
+      const text = parts.map((p) => (p.type === "text-delta" ? p.delta : "")).join("")
+      const finish = parts.find((p) => p.type === "finish")
+      return {
+        content: [{ type: "text", text }],
+        finishReason: finish?.type === "finish" ? finish.finishReason : "stop",
+        usage: finish?.type === "finish" ? finish.usage : { inputTokens: undefined, outputTokens: undefined, totalTokens: undefined },
+        warnings: [],
+      }
+    },
+
+    async doStream(callOptions) {
+      const entry = take(callOptions)
+      const signal = callOptions.abortSignal
+      if (entry.error) {
+        await wait(entry.errorAt ?? 0, signal)
+        throw new Error(entry.error)
+      }
+
+      let index = 0
+      let elapsed = 0
+      const stream = new ReadableStream<CassetteStreamPart>({
+        async pull(controller) {
+          const event = entry.events[index++]
+          if (!event) {
+            controller.close()
+            return
+          }
+          await wait(event.t - elapsed, signal)
+          elapsed = event.t
+          controller.enqueue(fromRecordedPart(event.part))
+        },
+      })
+
+      return { stream }
+    },
+  }
+}
@@ -324,6 +324,32 @@ export const DEFAULT_MODELS: ModelConfig[] = [
   },
 ]
 
+// Algorithmic solvers (lib/solvers.ts) raced as reference points - no API calls, so they don't count toward PUBLIC_MAX_MODELS
+export const BASELINE_MODELS: ModelConfig[] = [
+  {
+    id: "solver-entropy",
+    name: "Entropy Solver",
+    modelString: "entropy",
+    provider: "baseline",
+  },
+  {
+    id: "solver-frequency",
+    name: "Letter-Frequency Solver",
+    modelString: "frequency",
+    provider: "baseline",
+  },
+  {
+    id: "solver-random",
+    name: "Random Consistent Solver",
+    modelString: "random",
+    provider: "baseline",
+  },
+]
+
+export function isBaselineModel(model: { provider?: string }): boolean {
+  return model.provider === "baseline"
+}
+
 export const PUBLIC_MAX_MODELS = 3
 
 export const DEFAULT_MAX_TOKENS = 16
@@ -375,6 +401,9 @@ export const MODEL_COLORS: Record<string, string> = {
   "deepseek-r1-distill-llama-70b-thinking": "#b91c1c", // dark red (with thinking)
   "gpt-4.1-mini": "#14b8a6", // teal
   "grok-4-fast": "#00d4aa", // grok green/teal
+  "solver-entropy": "#64748b", // slate (baseline)
+  "solver-frequency": "#94a3b8", // lighter slate (baseline)
+  "solver-random": "#475569", // darker slate (baseline)
 }
 
 // Models that don't support temperature/topP (reasoning-only models)
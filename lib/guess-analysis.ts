@@ -0,0 +1,198 @@
+// Per-guess information and luck analysis (WordleBot-style)
+// Each scored guess is graded against the answers still possible at the time: how much information
+// it was expected to reveal, how much it actually revealed, and how it compares with the best guess.
+
+import type { GuessAnalysis, WordleFeedback, WordleHardMode } from "./types"
+import { SUPPORTED_WORD_LENGTHS, computeWordleFeedback, findHardModeViolations } from "./wordle-utils"
+import { getAllWords, getAllowedGuesses, isAnswerWord } from "./wordle-words"
+
+type Row = { word: string; feedback: WordleFeedback[] }
+
+export interface GuessAnalysisOptions {
+  wordLength: number
+  hardMode?: WordleHardMode // the best guess has to follow the same rules
+  extraCandidates?: string[] // possible answers missing from the answer list, e.g. a custom target word
+}
+
+// Letters of the answer not matched in place, reused between calls
+const unmatchedLetters = new Int8Array(26)
+
+// The feedback pattern of a guess as a base-3 number (absent 0, present 1, correct 2)
+// Same rules as computeWordleFeedback, without building arrays: the searches below score
+// every allowed guess against every candidate, millions of times for an opening guess.
+function feedbackCode(guess: string, answer: string): number {
+  unmatchedLetters.fill(0)
+  for (let i = 0; i < guess.length; i++) {
+    if (guess.charCodeAt(i) !== answer.charCodeAt(i)) unmatchedLetters[answer.charCodeAt(i) - 97]++
+  }
+
+  let code = 0
+  for (let i = 0; i < guess.length; i++) {
+    const letter = guess.charCodeAt(i)
+    let digit = 0
+    if (letter === answer.charCodeAt(i)) digit = 2
+    else if (unmatchedLetters[letter - 97] > 0) {
+      unmatchedLetters[letter - 97]--
+      digit = 1
+    }
+    code = code * 3 + digit
+  }
+  return code
+}
+
+// Candidates per feedback pattern, reused between calls and cleared as it's read
+const patternCounts = new Uint32Array(3 ** Math.max(...SUPPORTED_WORD_LENGTHS))
+
+// Bits of information a guess is expected to reveal about one board
+export function expectedInformation(guess: string, candidates: string[]): number {
+  const codes = candidates.map((candidate) => feedbackCode(guess, candidate))
+  codes.forEach((code) => patternCounts[code]++)
+
+  let bits = 0
+  codes.forEach((code) => {
+    const count = patternCounts[code]
+    if (count === 0) return // pattern already counted
+    const p = count / candidates.length
+    bits -= p * Math.log2(p)
+    patternCounts[code] = 0
+  })
+  return bits
+}
+
+// Opening guesses against the full answer list depend only on the word length and take seconds to
+// find, so they were worked out once with the search below (rerun it when a word list changes)
+const OPENING_GUESSES: Record<number, string> = { 4: "tale", 5: "soare", 6: "satire", 7: "saltire", 8: "notarise" }
+
+// Feedback patterns one search may work out (about a tenth of a second). Bigger searches, e.g. a
+// custom target word next to the full answer list, first rank the guesses on an even sample of
+// each board and then score only the most promising ones in full, so they can't stall the server.
+const SEARCH_BUDGET = 1_000_000
+const SHORTLIST_SIZE = 20
+
+function scoreGuesses(guesses: string[], boards: string[][]): Array<{ word: string; bits: number }> {
+  return guesses.map((word) => ({ word, bits: boards.reduce((sum, board) => sum + expectedInformation(word, board), 0) }))
+}
+
+/**
+ * The allowed guess expected to reveal the most information, summed over every board's candidates
+ * Used by the entropy solver baseline and to grade model guesses.
+ */
+export function findMostInformativeGuess(
+  boards: string[][],
+  wordLength: number,
+  tried: Set<string>,
+  allowed: (word: string) => boolean,
+): { word: string; bits: number } {
+  const candidateSet = new Set(boards.flat())
+  // The precomputed opening only holds while every board still has exactly the answer list
+  const opening = OPENING_GUESSES[wordLength]
+  const answerCount = getAllWords(wordLength).length
+  const fullBoards = boards.every((board) => board.length === answerCount && board.every((w) => isAnswerWord(w)))
+  const openingAllowed = tried.size === 0 && opening !== undefined && allowed(opening)
+  if (openingAllowed && fullBoards) {
+    return { word: opening, bits: boards.reduce((sum, board) => sum + expectedInformation(opening, board), 0) }
+  }
+
+  let guesses = getAllowedGuesses(wordLength).filter((w) => !tried.has(w) && allowed(w))
+  const work = guesses.length * boards.reduce((sum, board) => sum + board.length, 0)
+  if (work > SEARCH_BUDGET) {
+    const step = Math.ceil(work / SEARCH_BUDGET)
+    const sampled = boards.map((board) => board.filter((_, i) => i % step === 0))
+    const shortlist = new Set(
+      scoreGuesses(guesses, sampled)
+        .sort((a, b) => b.bits - a.bits)
+        .slice(0, SHORTLIST_SIZE)
+        .map((g) => g.word),
+    )
+    // An opening against nearly the whole answer list is unlikely to beat the precomputed one
+    if (openingAllowed) shortlist.add(opening)
+    guesses = guesses.filter((w) => shortlist.has(w))
+  }
+
+  let best = { word: "", bits: -1 }
+  scoreGuesses(guesses, boards).forEach(({ word, bits }) => {
+    // On a tie, a word that could be the answer is the better play
+    const better = bits > best.bits + 1e-9 || (Math.abs(bits - best.bits) <= 1e-9 && candidateSet.has(word) && !candidateSet.has(best.word))
+    if (better) best = { word, bits }
+  })
+
+  return best
+}
+
+// Best guesses repeat a lot (many models open the same way), so they're remembered
+const bestGuessCache = new Map<string, { word: string; bits: number }>()
+const BEST_GUESS_CACHE_LIMIT = 2000
+
+function consistentCandidates(pool: string[], rows: Row[]): string[] {
+  return pool.filter((candidate) =>
+    rows.every(({ word, feedback }) => computeWordleFeedback(word, candidate).every((f, i) => f === feedback[i])),
+  )
+}
+
+function findBestGuess(candidates: string[], rows: Row[], options: GuessAnalysisOptions) {
+  const hardMode = (options.hardMode ?? "off") !== "off"
+  const tried = new Set(rows.map((r) => r.word))
+  const key = `${options.wordLength}|${hardMode}|${Array.from(tried).sort().join(",")}|${candidates.join(",")}`
+  const cached = bestGuessCache.get(key)
+  if (cached) return cached
+
+  // With one or two answers left, guessing one of them is as good as it gets
+  const untried = candidates.filter((c) => !tried.has(c))
+  const best = untried.length > 0 && untried.length <= 2
+    ? { word: untried[0], bits: expectedInformation(untried[0], candidates) }
+    : findMostInformativeGuess([candidates], options.wordLength, tried, (w) => !hardMode || findHardModeViolations(w, rows).length === 0)
+
+  if (bestGuessCache.size >= BEST_GUESS_CACHE_LIMIT) bestGuessCache.clear()
+  bestGuessCache.set(key, best)
+  return best
+}
+
+/**
+ * Grade one guess given the scored guesses before it
+ * Rows without feedback (invalid or rejected turns) are ignored. Returns undefined when the
+ * feedback rules out every known answer, since there's nothing to measure against.
+ */
+export function analyzeGuess(
+  previousGuesses: Row[],
+  word: string,
+  feedback: WordleFeedback[],
+  options: GuessAnalysisOptions,
+): GuessAnalysis | undefined {
+  if (feedback.length !== options.wordLength) return undefined
+
+  const rows = previousGuesses.filter((g) => g.feedback.length === options.wordLength)
+  const pool = Array.from(new Set([...getAllWords(options.wordLength), ...(options.extraCandidates ?? [])]))
+  const before = consistentCandidates(pool, rows)
+  const after = consistentCandidates(before, [{ word, feedback }])
+  if (before.length === 0 || after.length === 0) return undefined
+
+  const expectedBits = expectedInformation(word, before)
+  const best = findBestGuess(before, rows, options)
+  // A guess at least as good as the search found (e.g. a tie) counts as best
+  const bestGuess = expectedBits >= best.bits ? { word, bits: expectedBits } : best
+
+  return {
+    candidatesBefore: before.length,
+    candidatesAfter: after.length,
+    expectedBits,
+    actualBits: Math.log2(before.length / after.length),
+    bestGuess: bestGuess.word,
+    bestExpectedBits: bestGuess.bits,
+    skill: bestGuess.bits > 0 ? Math.round((expectedBits / bestGuess.bits) * 100) : before.includes(word) ? 100 : 0,
+    luck: Math.log2(before.length / after.length) - expectedBits,
+  }
+}
+
+/**
+ * Average skill and luck over a game's analyzed guesses
+ */
+export function summarizeGuessAnalysis(
+  analyses: Array<GuessAnalysis | undefined>,
+): { avgSkill?: number; avgLuck?: number } {
+  const analyzed = analyses.filter((a): a is GuessAnalysis => a !== undefined)
+  if (analyzed.length === 0) return {}
+  return {
+    avgSkill: analyzed.reduce((sum, a) => sum + a.skill, 0) / analyzed.length,
+    avgLuck: analyzed.reduce((sum, a) => sum + a.luck, 0) / analyzed.length,
+  }
+}
@@ -8,9 +8,21 @@ import type {
   WordleGameState,
   WordleRaceResult,
   WordleModelResult,
+  WordleRaceOptions,
   ModelConfig,
 } from "@/lib/types"
-import { computeWordleFeedback, calculateClosenessScore, calculateEstimatedCost, rankWordleResults } from "@/lib/wordle-utils"
+import {
+  computeWordleFeedback,
+  calculateClosenessScore,
+  rankWordleResults,
+  getGuessLimit,
+  summarizeBoards,
+  findConsistencyViolations,
+  calculateConsistencyRate,
+  sumTokenUsage,
+  DEFAULT_MAX_GUESSES,
+} from "@/lib/wordle-utils"
+import { calculateEstimatedCost, toBillableUsage } from "@/lib/pricing"
 
 interface StreamEvent {
   type: "config" | "state" | "modelStart" | "reasoning-delta" | "guess" | "modelComplete" | "complete" | "error"
@@ -38,7 +50,13 @@ interface UseWordleStreamResult {
   targetWord: string | null
   currentGuessThinking: Map<string, string> // modelId -> reasoning text for current guess
   submitUserGuess: (word: string) => void
-  startWordleRace: (name: string, models?: ModelConfig[], targetWord?: string, includeUser?: boolean) => Promise<void>
+  startWordleRace: (
+    name: string,
+    models?: ModelConfig[],
+    targetWord?: string,
+    includeUser?: boolean,
+    options?: WordleRaceOptions,
+  ) => Promise<void>
   endEarly: () => void
   reset: () => void
 }
@@ -83,7 +101,13 @@ export function useWordleStream(): UseWordleStreamResult {
   }, [])
 
   const startWordleRace = useCallback(
-    async (name: string, models?: ModelConfig[], targetWordParam?: string, includeUserParam?: boolean) => {
+    async (
+      name: string,
+      models?: ModelConfig[],
+      targetWordParam?: string,
+      includeUserParam?: boolean,
+      options: WordleRaceOptions = {},
+    ) => {
       reset()
       setIsRunning(true)
       setError(null)
@@ -113,6 +137,15 @@ export function useWordleStream(): UseWordleStreamResult {
             models: models || [], 
             targetWord: targetWordParam,
             includeUser: includeUserParam || false,
+            hardMode: options.hardMode,
+            wordLength: options.wordLength,
+            maxGuesses: options.maxGuesses,
+            boardCount: options.boardCount,
+            host: options.host,
+            lyingFeedback: options.lyingFeedback,
+            seed: options.seed,
+            daily: options.daily,
+            invalidGuessRetries: options.invalidGuessRetries,
           }),
           signal: abortController.signal,
         })
@@ -333,13 +366,15 @@ export function useWordleStream(): UseWordleStreamResult {
       return
     }
 
+    // The lane has already checked the word list (on the server)
     const normalizedWord = word.toLowerCase().trim()
-    if (normalizedWord.length !== 5 || !/^[a-z]{5}$/.test(normalizedWord)) {
+    if (normalizedWord.length !== targetWord.length || !/^[a-z]+$/.test(normalizedWord)) {
       return
     }
 
+    const guessLimit = getGuessLimit(config?.maxGuesses ?? DEFAULT_MAX_GUESSES)
     const guessIndex = userGameState.guesses.length
-    if (guessIndex >= 6) {
+    if (guessIndex >= guessLimit) {
       return
     }
 
@@ -364,11 +399,12 @@ export function useWordleStream(): UseWordleStreamResult {
       e2eMs: guessTime,
       ttftMs: guessTime,
       correct,
+      inconsistencies: guessIndex > 0 ? findConsistencyViolations(normalizedWord, userGameState.guesses) : undefined,
     }
 
     const newGuesses = [...userGameState.guesses, guess]
     const solved = correct
-    const failed = !solved && newGuesses.length >= 6
+    const failed = !solved && newGuesses.length >= guessLimit
     
     // Calculate total time to solve
     const totalTime = userStartTimeRef.current 
@@ -383,7 +419,7 @@ export function useWordleStream(): UseWordleStreamResult {
       solvedAtGuess: solved ? guessIndex + 1 : undefined,
       timeToSolveMs: solved ? totalTime : undefined,
     })
-  }, [userGameState, targetWord])
+  }, [userGameState, targetWord, config])
 
   const endEarly = useCallback(() => {
     const existingResult = result // Get existing result from state before we create new one
@@ -465,34 +501,37 @@ export function useWordleStream(): UseWordleStreamResult {
       let closenessScore: number | undefined
       let correctLetters: number | undefined
       let presentLetters: number | undefined
-
-      if (!gameState.solved && gameState.guesses.length > 0) {
-        const lastGuess = gameState.guesses[gameState.guesses.length - 1]
-        const closeness = calculateClosenessScore(lastGuess.feedback)
+      let boardsSolved: number | undefined
+
+      if (config.boardCount && config.boardCount > 1) {
+        const summary = summarizeBoards(gameState.guesses, config.boardCount)
+        boardsSolved = summary.boardsSolved
+        if (!gameState.solved) {
+          closenessScore = summary.closenessScore
+          correctLetters = summary.correctLetters
+          presentLetters = summary.presentLetters
+        }
+      } else if (!gameState.solved && gameState.guesses.some((g) => g.feedback.length > 0)) {
+        // Invalid and rejected guesses got no feedback, so use the last one that did
+        const lastScoredGuess = [...gameState.guesses].reverse().find((g) => g.feedback.length > 0)!
+        const closeness = calculateClosenessScore(lastScoredGuess.feedback)
         closenessScore = closeness.totalScore
         correctLetters = closeness.correctCount
         presentLetters = closeness.presentCount
       }
 
-      // Calculate total tokens and cost
-      let totalTokens = 0
-      let totalCost = 0
-      let totalPromptTokens = 0
-      let totalCompletionTokens = 0
+      // Calculate total tokens and cost (reasoning and cached tokens are priced at their own rates)
+      const usage = sumTokenUsage(gameState.guesses.map((g) => g.tokenUsage))
+      const totalTokens = usage?.total ?? 0
+      // Custom entries keep their base model's modelString, so they're priced the same
+      const totalCost = usage && (usage.prompt > 0 || usage.completion > 0)
+        ? calculateEstimatedCost(model, toBillableUsage(usage))
+        : 0
 
-      gameState.guesses.forEach((guess) => {
-        if (guess.tokenUsage) {
-          totalTokens += guess.tokenUsage.total
-          totalPromptTokens += guess.tokenUsage.prompt
-          totalCompletionTokens += guess.tokenUsage.completion
-        }
-      })
-
-      if (totalPromptTokens > 0 || totalCompletionTokens > 0) {
-        // Use baseModelId for cost calculation if this is a custom entry
-        const modelIdForCost = model.baseModelId || model.id
-        totalCost = calculateEstimatedCost(modelIdForCost, totalPromptTokens, totalCompletionTokens)
-      }
+      const hardModeViolations = config.hardMode && config.hardMode !== "off"
+        ? gameState.guesses.filter((g) => g.hardModeViolations && g.hardModeViolations.length > 0).length
+        : undefined
+      const invalidGuesses = gameState.guesses.filter((g) => g.invalid).length
 
       modelResults.push({
         modelId: model.id,
@@ -504,7 +543,13 @@ export function useWordleStream(): UseWordleStreamResult {
         correctLetters,
         presentLetters,
         totalTokens: totalTokens > 0 ? totalTokens : undefined,
+        reasoningTokens: usage?.reasoning,
+        cachedPromptTokens: usage?.cachedPrompt,
         totalCost: totalCost > 0 ? totalCost : undefined,
+        hardModeViolations,
+        invalidGuesses: invalidGuesses > 0 ? invalidGuesses : undefined,
+        consistencyRate: calculateConsistencyRate(gameState.guesses),
+        boardsSolved,
         didNotFinish,
         rank: 0, // Will be set after sorting
       })
@@ -512,7 +557,7 @@ export function useWordleStream(): UseWordleStreamResult {
 
     // Add user result if participating
     if (includeUser && userGameState) {
-      const didNotFinish = !userGameState.solved && !userGameState.failed && userGameState.guesses.length < 6
+      const didNotFinish = !userGameState.solved && !userGameState.failed
 
       // Calculate closeness for failed attempts (only if we have target word)
       let closenessScore: number | undefined
@@ -542,7 +587,7 @@ export function useWordleStream(): UseWordleStreamResult {
       })
 
       if (totalPromptTokens > 0 || totalCompletionTokens > 0) {
-        totalCost = calculateEstimatedCost("user", totalPromptTokens, totalCompletionTokens)
+        totalCost = calculateEstimatedCost({ id: "user", modelString: "user" }, { input: totalPromptTokens, output: totalCompletionTokens })
       }
 
       // Calculate time spent
@@ -575,6 +620,7 @@ export function useWordleStream(): UseWordleStreamResult {
         presentLetters,
         totalTokens: totalTokens > 0 ? totalTokens : undefined,
         totalCost: totalCost > 0 ? totalCost : undefined,
+        consistencyRate: calculateConsistencyRate(userGameState.guesses),
         didNotFinish,
         rank: 0, // Will be set after sorting
       })
@@ -586,6 +632,10 @@ export function useWordleStream(): UseWordleStreamResult {
     const finalResult: WordleRaceResult = {
       gameId: config.id,
       targetWord: finalTargetWord,
+      targetWords: existingResult?.targetWords,
+      lyingFeedback: config.lyingFeedback || undefined,
+      seed: existingResult?.seed, // the config event leaves it out until the race is over
+      daily: config.daily,
       modelResults,
       winner,
     }
@@ -0,0 +1,237 @@
+// Offline mock model - plays Wordle and answers race clues without a network call or API key
+// It implements the AI SDK language model interface, so runModelOnClue streams reasoning and text
+// from it exactly as it would from a real provider.
+
+import type { LanguageModel } from "ai"
+import type { Clue, WordleFeedback } from "./types"
+import { hashString } from "./random"
+import { chooseSolverBaselineGuess } from "./solvers"
+import { promptText } from "./cassettes"
+
+type MockLanguageModel = Exclude<LanguageModel, string>
+type MockStreamPart = Awaited<ReturnType<MockLanguageModel["doStream"]>>["stream"] extends ReadableStream<infer T> ? T : never
+
+// "solver" plays consistent words, "canned" replays a fixed list, "answer" cheats with the clue's answer
+export type MockStrategy = "solver" | "canned" | "answer"
+
+export interface MockModelOptions {
+  strategy: MockStrategy
+  words: string[] // canned: one guess per turn, in order
+  latencyMs: number // delay before the first chunk and between chunks
+  reasoning: boolean // stream a short reasoning trace before the answer
+  seed: number // varies which consistent word the solver picks
+}
+
+export const DEFAULT_MOCK_LATENCY_MS = 30
+
+/**
+ * Parse a mock modelString such as "solver", "solver?latencyMs=0&seed=3" or "canned:crane,slate"
+ * Anything else (e.g. a real model's "openai/gpt-5" in offline mode) plays as a solver seeded by the string.
+ */
+export function parseMockModelString(modelString: string, defaultLatencyMs = DEFAULT_MOCK_LATENCY_MS): MockModelOptions {
+  const [base, query = ""] = modelString.split("?")
+  const params = new URLSearchParams(query)
+  const [name, list = ""] = base.split(":")
+  const strategy: MockStrategy = name === "canned" || name === "answer" ? name : "solver"
+  const latencyMs = Number(params.get("latencyMs") ?? defaultLatencyMs)
+  const seed = params.get("seed")
+
+  return {
+    strategy,
+    words: strategy === "canned" ? list.split(",").map((w) => w.trim().toLowerCase()).filter(Boolean) : [],
+    latencyMs: Number.isFinite(latencyMs) && latencyMs >= 0 ? latencyMs : defaultLatencyMs,
+    reasoning: params.get("reasoning") !== "false",
+    seed: seed !== null && Number.isInteger(Number(seed)) ? Number(seed) : hashString(base),
+  }
+}
+
+interface ParsedWordlePrompt {
+  rowsByBoard: Map<number, Array<{ word: string; feedback: WordleFeedback[] }>>
+  solvedBoards: Set<number>
+  tried: Set<string> // every earlier guess and refused answer
+}
+
+const TILE_FEEDBACK: Record<string, WordleFeedback> = { "🟩": "correct", "🟨": "present", "⬜": "absent" }
+
+function parseTiles(text: string): WordleFeedback[] {
+  return Array.from(text).map((c) => TILE_FEEDBACK[c]).filter((f): f is WordleFeedback => !!f)
+}
+
+/**
+ * Read the guesses and feedback back out of a single- or multi-board Wordle prompt
+ */
+export function parseWordlePrompt(prompt: string): ParsedWordlePrompt {
+  const parsed: ParsedWordlePrompt = { rowsByBoard: new Map(), solvedBoards: new Set(), tried: new Set() }
+  const addRow = (board: number, word: string, feedback: WordleFeedback[]) => {
+    if (feedback.length !== word.length) return
+    parsed.rowsByBoard.set(board, [...(parsed.rowsByBoard.get(board) ?? []), { word, feedback }])
+    if (feedback.every((f) => f === "correct")) parsed.solvedBoards.add(board)
+  }
+
+  let currentWord: string | null = null
+  prompt.split("\n").forEach((line) => {
+    const guess = line.match(/^Guess \d+: ([A-Z]+)(.*)$/)
+    if (guess) {
+      currentWord = guess[1].toLowerCase()
+      parsed.tried.add(currentWord)
+      if (/INVALID|REJECTED/.test(guess[2])) {
+        currentWord = null
+      } else {
+        addRow(0, currentWord, parseTiles(guess[2]))
+      }
+      return
+    }
+
+    const board = line.match(/^\s+Board (\d+): (.*)$/)
+    if (board && currentWord) {
+      addRow(Number(board[1]) - 1, currentWord, parseTiles(board[2]))
+      return
+    }
+
+    const refused = line.match(/^- "([A-Z]+)":/)
+    if (refused) parsed.tried.add(refused[1].toLowerCase())
+  })
+
+  return parsed
+}
+
+/**
+ * Decide what the mock says for a clue: the answer text plus a reasoning trace
+ */
+export function chooseMockAnswer(
+  prompt: string,
+  clue: Clue,
+  mode: "json" | "plain",
+  options: MockModelOptions,
+): { text: string; reasoning: string } {
+  const wordleTurn = clue.id.match(/^wordle-guess-(\d+)$/)
+  let answer: string
+  let reasoning: string
+
+  if (options.strategy === "canned" && options.words.length > 0) {
+    const index = wordleTurn ? Number(wordleTurn[1]) : 0
+    answer = options.words[Math.min(index, options.words.length - 1)]
+    reasoning = `Playing scripted word ${index + 1}: ${answer}.`
+  } else if (options.strategy === "answer" && clue.answer) {
+    answer = clue.answer
+    reasoning = "I already know this one."
+  } else if (wordleTurn) {
+    // Same pick as the "random" solver baseline, so the two stay in step
+    const guess = chooseSolverBaselineGuess(prompt, clue.length, "random", options.seed)
+    answer = guess.word
+    reasoning = `${guess.candidates} word${guess.candidates === 1 ? "" : "s"} still fit the feedback. Trying ${answer}.`
+  } else {
+    answer = clue.answer
+    reasoning = `The clue points to ${answer}.`
+  }
+
+  return { text: mode === "json" ? JSON.stringify({ answer }) : answer, reasoning }
+}
+
+// Split text into small pieces so the UI sees it arrive token by token
+function chunkText(text: string, size = 3): string[] {
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size))
+  return chunks
+}
+
+function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4))
+}
+
+// What a scripted model says in reply to a prompt
+export interface ScriptedReply {
+  text: string
+  reasoning?: string // streamed before the text when set
+  usage: { inputTokens: number; outputTokens: number; totalTokens: number; reasoningTokens?: number }
+}
+
+/**
+ * A language model that answers in-process, streaming its reply in small chunks
+ * Shared by the mock provider and the solver baselines.
+ */
+export function createScriptedLanguageModel(
+  provider: string,
+  modelId: string,
+  latencyMs: number,
+  respond: (prompt: string) => ScriptedReply,
+): MockLanguageModel {
+  return {
+    specificationVersion: "v2",
+    provider,
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(callOptions) {
+      const { text, usage } = respond(promptText(callOptions))
+      return { content: [{ type: "text", text }], finishReason: "stop", usage, warnings: [] }
+    },
+
+    async doStream(callOptions) {
+      const { text, reasoning, usage } = respond(promptText(callOptions))
+      const parts: MockStreamPart[] = [{ type: "stream-start", warnings: [] }]
+      if (reasoning) {
+        parts.push({ type: "reasoning-start", id: "reasoning-0" })
+        chunkText(reasoning, 8).forEach((delta) => parts.push({ type: "reasoning-delta", id: "reasoning-0", delta }))
+        parts.push({ type: "reasoning-end", id: "reasoning-0" })
+      }
+      parts.push({ type: "text-start", id: "text-0" })
+      chunkText(text).forEach((delta) => parts.push({ type: "text-delta", id: "text-0", delta }))
+      parts.push({ type: "text-end", id: "text-0" }, { type: "finish", finishReason: "stop", usage })
+
+      const signal = callOptions.abortSignal
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const stream = new ReadableStream<MockStreamPart>({
+        start(controller) {
+          let index = 0
+          const abort = () => {
+            clearTimeout(timer)
+            controller.error(Object.assign(new Error("Aborted"), { name: "AbortError" }))
+          }
+          if (signal?.aborted) return abort()
+          signal?.addEventListener("abort", abort, { once: true })
+
+          const push = () => {
+            controller.enqueue(parts[index++])
+            if (index >= parts.length) {
+              signal?.removeEventListener("abort", abort)
+              controller.close()
+              return
+            }
+            timer = setTimeout(push, latencyMs)
+          }
+          timer = setTimeout(push, latencyMs)
+        },
+        cancel() {
+          clearTimeout(timer)
+        },
+      })
+
+      return { stream }
+    },
+  }
+}
+
+/**
+ * Create a mock model for one clue
+ */
+export function createMockLanguageModel(
+  modelString: string,
+  clue: Clue,
+  mode: "json" | "plain",
+  defaultLatencyMs = DEFAULT_MOCK_LATENCY_MS,
+): MockLanguageModel {
+  const options = parseMockModelString(modelString, defaultLatencyMs)
+
+  return createScriptedLanguageModel("mock", modelString, options.latencyMs, (prompt) => {
+    const { text, reasoning } = chooseMockAnswer(prompt, clue, mode, options)
+    const inputTokens = estimateTokens(prompt)
+    const reasoningTokens = options.reasoning ? estimateTokens(reasoning) : undefined
+    const outputTokens = estimateTokens(text) + (reasoningTokens ?? 0)
+    return {
+      text,
+      reasoning: options.reasoning ? reasoning : undefined,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, reasoningTokens },
+    }
+  })
+}
@@ -0,0 +1,292 @@
+// Multi-board Wordle engine (Dordle/Quordle/Octordle) - every guess is played on every unsolved board
+
+import type {
+  ModelConfig,
+  WordleConfig,
+  WordleState,
+  WordleGuess,
+  WordleGameState,
+  WordleModelResult,
+  WordleRaceResult,
+  WordleFeedback,
+} from "./types"
+import { generateMultiWordlePrompt } from "./prompts"
+import {
+  computeWordleFeedback,
+  rankWordleResults,
+  getGuessLimit,
+  summarizeBoards,
+  sumTokenUsage,
+  findConsistencyViolations,
+  calculateConsistencyRate,
+  DEFAULT_INVALID_GUESS_RETRIES,
+} from "./wordle-utils"
+import { requestValidGuess, type WordleCallbacks } from "./wordle-engine"
+import { calculateEstimatedCost, toBillableUsage } from "./pricing"
+
+/**
+ * Multi-board Wordle race engine
+ */
+export class MultiWordleEngine {
+  private config: WordleConfig
+  private callbacks: WordleCallbacks
+  private state: WordleState
+  private modelStates: Map<string, WordleGameState>
+  private targetWords: string[]
+  private signal?: AbortSignal
+
+  constructor(config: WordleConfig, callbacks: WordleCallbacks = {}, signal?: AbortSignal) {
+    this.config = config
+    this.callbacks = callbacks
+    this.signal = signal
+    this.targetWords = (config.targetWords ?? [config.targetWord]).map((w) => w.toLowerCase())
+
+    // Initialize model states
+    this.modelStates = new Map()
+    config.models.forEach((model) => {
+      this.modelStates.set(model.id, {
+        modelId: model.id,
+        guesses: [],
+        solved: false,
+        failed: false,
+      })
+    })
+
+    this.state = {
+      gameId: config.id,
+      status: "pending",
+      modelStates: this.modelStates,
+    }
+  }
+
+  /**
+   * Start the multi-board race
+   */
+  async start(): Promise<WordleRaceResult> {
+    console.log(`[wordle] Starting ${this.targetWords.length}-board race ${this.config.id} with ${this.config.models.length} models`)
+    console.log(`[wordle] Target words: ${this.targetWords.join(", ")}`)
+
+    const startTime = Date.now()
+    this.updateState({
+      status: "running",
+      startedAt: startTime,
+    })
+
+    // Run all models in parallel
+    await Promise.all(this.config.models.map((model) => this.runModelGame(model)))
+
+    const modelResults = this.calculateResults()
+    const winner = modelResults.find((r) => r.solved && r.rank === 1)?.modelId
+
+    const result: WordleRaceResult = {
+      gameId: this.config.id,
+      targetWord: this.targetWords[0],
+      targetWords: this.targetWords,
+      seed: this.config.seed,
+      daily: this.config.daily,
+      modelResults,
+      winner,
+    }
+
+    this.updateState({
+      status: this.signal?.aborted ? "cancelled" : "completed",
+      completedAt: Date.now(),
+    })
+
+    if (this.callbacks.onRaceComplete) {
+      this.callbacks.onRaceComplete(result)
+    }
+
+    console.log(this.signal?.aborted ? `[wordle] Race ${this.config.id} cancelled` : `[wordle] Multi-board race completed! Winner: ${modelResults[0]?.modelName}`)
+
+    return result
+  }
+
+  /**
+   * Run a single model's multi-board game
+   */
+  private async runModelGame(model: ModelConfig): Promise<void> {
+    const gameState = this.modelStates.get(model.id)!
+    const boardCount = this.targetWords.length
+    const wordLength = this.config.wordLength
+    const guessLimit = getGuessLimit(this.config.maxGuesses)
+    const solvedBoards = new Set<number>()
+    const previousGuesses: Array<{
+      word: string
+      boardFeedback: WordleFeedback[][]
+      invalid?: boolean
+      invalidReason?: string
+    }> = []
+
+    for (let guessIndex = 0; guessIndex < guessLimit; guessIndex++) {
+      if (this.signal?.aborted) break
+
+      if (this.callbacks.onModelStart) {
+        this.callbacks.onModelStart(model.id, guessIndex)
+      }
+
+      // Ask for a dictionary word, re-prompting after invalid answers
+      const turn = await requestValidGuess({
+        raceId: this.config.id,
+        model,
+        guessIndex,
+        wordLength,
+        previousWords: new Set(previousGuesses.map((g) => g.word).filter(Boolean)),
+        retries: this.config.invalidGuessRetries ?? DEFAULT_INVALID_GUESS_RETRIES,
+        answer: this.targetWords.find((_, board) => !solvedBoards.has(board)) ?? this.targetWords[0],
+        acceptedWords: this.targetWords,
+        buildPrompt: (invalidAttempts) => generateMultiWordlePrompt(boardCount, previousGuesses, {
+          wordLength,
+          maxGuesses: this.config.maxGuesses,
+          invalidAttempts,
+        }),
+        onModelProgress: this.callbacks.onModelProgress,
+        signal: this.signal,
+      })
+      if (turn.aborted) break
+      const guessedWord = turn.word
+
+      if (turn.invalidReason) {
+        console.warn(`[wordle] Model ${model.id} made no valid guess after ${turn.attempts} attempt(s): "${guessedWord}" (${turn.invalidReason})`)
+      }
+
+      // Check the guess against the hints on every board that is still open
+      const openBoardRows = this.targetWords
+        .map((_, board) => ({ board, rows: previousGuesses.map((g) => ({ word: g.word, feedback: g.boardFeedback[board] ?? [] })) }))
+        .filter(({ board, rows }) => !solvedBoards.has(board) && rows.some((r) => r.feedback.length > 0))
+      const inconsistencies = !turn.invalidReason && openBoardRows.length > 0
+        ? openBoardRows.flatMap(({ board, rows }) =>
+            findConsistencyViolations(guessedWord, rows).map((violation) => `Board ${board + 1}: ${violation}`),
+          )
+        : undefined
+
+      // Score the guess on every board that is still open
+      const solvedThisGuess: number[] = []
+      const boardFeedback = this.targetWords.map((target, board) => {
+        if (solvedBoards.has(board) || turn.invalidReason) return []
+        if (guessedWord === target) solvedThisGuess.push(board)
+        return computeWordleFeedback(guessedWord, target)
+      })
+      solvedThisGuess.forEach((board) => solvedBoards.add(board))
+      const allSolved = solvedBoards.size === boardCount
+
+      const guess: WordleGuess = {
+        modelId: model.id,
+        guessIndex,
+        word: guessedWord,
+        feedback: [],
+        tRequest: turn.tRequest,
+        tFirst: turn.tFirst,
+        tLast: turn.tLast,
+        e2eMs: turn.e2eMs,
+        ttftMs: turn.ttftMs,
+        correct: allSolved,
+        tokenUsage: turn.tokenUsage,
+        invalid: turn.invalidReason ? true : undefined,
+        invalidReason: turn.invalidReason,
+        attempts: turn.attempts > 1 ? turn.attempts : undefined,
+        inconsistencies,
+        boardFeedback,
+        solvedBoards: solvedThisGuess.length > 0 ? solvedThisGuess : undefined,
+      }
+
+      gameState.guesses.push(guess)
+      previousGuesses.push({ word: guessedWord, boardFeedback, invalid: guess.invalid, invalidReason: guess.invalidReason })
+
+      this.modelStates.set(model.id, gameState)
+      this.updateState({})
+
+      if (this.callbacks.onGuessComplete) {
+        this.callbacks.onGuessComplete(guess)
+      }
+
+      if (allSolved) {
+        gameState.solved = true
+        gameState.solvedAtGuess = guessIndex + 1
+        gameState.timeToSolveMs = gameState.guesses.reduce((sum, g) => sum + g.e2eMs, 0)
+        this.modelStates.set(model.id, gameState)
+
+        if (this.callbacks.onModelComplete) {
+          this.callbacks.onModelComplete(model.id, gameState)
+        }
+        break
+      }
+    }
+
+    // Mark as failed if any board is left - a cancelled game is left unfinished instead
+    if (!gameState.solved && !this.signal?.aborted) {
+      gameState.failed = true
+      this.modelStates.set(model.id, gameState)
+
+      if (this.callbacks.onModelComplete) {
+        this.callbacks.onModelComplete(model.id, gameState)
+      }
+    }
+  }
+
+  /**
+   * Calculate final results: boards solved first, then total guesses, then time
+   */
+  private calculateResults(): WordleModelResult[] {
+    const boardCount = this.targetWords.length
+
+    const results = this.config.models.map((model): WordleModelResult => {
+      const gameState = this.modelStates.get(model.id)!
+      const totalTime = gameState.guesses.reduce((sum, g) => sum + g.e2eMs, 0)
+      const summary = summarizeBoards(gameState.guesses, boardCount)
+      const invalidGuesses = gameState.guesses.filter((g) => g.invalid).length
+
+      const usage = sumTokenUsage(gameState.guesses.map((g) => g.tokenUsage))
+      const totalTokens = usage?.total ?? 0
+
+      // Custom entries keep their base model's modelString, so they're priced the same
+      const totalCost = usage && (usage.prompt > 0 || usage.completion > 0)
+        ? calculateEstimatedCost(model, toBillableUsage(usage))
+        : 0
+
+      return {
+        modelId: model.id,
+        modelName: model.name || model.id,
+        solved: gameState.solved,
+        guessCount: gameState.solved ? gameState.solvedAtGuess! : gameState.guesses.length,
+        timeToSolveMs: gameState.solved ? totalTime : undefined,
+        closenessScore: gameState.solved ? undefined : summary.closenessScore,
+        correctLetters: gameState.solved ? undefined : summary.correctLetters,
+        presentLetters: gameState.solved ? undefined : summary.presentLetters,
+        totalTokens: totalTokens > 0 ? totalTokens : undefined,
+        reasoningTokens: usage?.reasoning,
+        cachedPromptTokens: usage?.cachedPrompt,
+        totalCost: totalCost > 0 ? totalCost : undefined,
+        boardsSolved: summary.boardsSolved,
+        invalidGuesses: invalidGuesses > 0 ? invalidGuesses : undefined,
+        consistencyRate: calculateConsistencyRate(gameState.guesses),
+        didNotFinish: !gameState.solved && !gameState.failed ? true : undefined,
+        rank: 0, // Will be set after sorting
+      }
+    })
+
+    return rankWordleResults(results)
+  }
+
+  /**
+   * Update state and notify
+   */
+  private updateState(updates: Partial<WordleState>) {
+    this.state = {
+      ...this.state,
+      ...updates,
+      modelStates: this.modelStates,
+    }
+
+    if (this.callbacks.onStateChange) {
+      this.callbacks.onStateChange(this.state)
+    }
+  }
+
+  /**
+   * Get current state
+   */
+  getState(): WordleState {
+    return this.state
+  }
+}
@@ -0,0 +1,113 @@
+// Pricing registry - per-provider token prices loaded from data/pricing.json
+// Every price has the date it took effect, so a run is costed at the prices of the day it ran and
+// older results can be traced back to the exact rates used. Bump `version` whenever the file changes.
+
+import type { ModelConfig, TokenUsage } from "./types"
+import { getModelProviderId } from "./providers"
+import pricingJson from "@/data/pricing.json"
+
+// USD per million tokens
+export interface TokenPrice {
+  effectiveFrom: string // YYYY-MM-DD, the price applies from this date until the next one
+  input: number
+  output: number
+  cachedInput?: number // prompt tokens read from the provider's cache, defaults to `input`
+  reasoning?: number // hidden reasoning tokens, defaults to `output`
+  source?: string // where the price was taken from
+}
+
+export interface PricingEntry {
+  provider: string
+  modelString: string // "*" prices every model on the provider (self-hosted and simulated ones)
+  prices: TokenPrice[]
+}
+
+export interface PricingRegistry {
+  version: number
+  updated: string
+  currency: string
+  unit: string
+  models: PricingEntry[]
+}
+
+// Token counts as the provider reported them. Cached tokens are part of `input` and reasoning
+// tokens are part of `output`, the way the AI SDK reports them.
+export interface BillableUsage {
+  input: number
+  output: number
+  cachedInput?: number
+  reasoning?: number
+}
+
+export type PricedModel = Pick<ModelConfig, "id" | "modelString" | "provider">
+
+// A matched price with the registry version it came from, for tracing results back to it
+export interface ModelPrice extends TokenPrice {
+  version: number
+}
+
+export function loadPricingRegistry(): PricingRegistry {
+  return pricingJson as PricingRegistry
+}
+
+/**
+ * The price in effect for a model on a given day, or undefined if the registry has none
+ * Models are matched on the provider they actually run against and their modelString.
+ */
+export function findModelPrice(
+  model: PricedModel,
+  at: Date = new Date(),
+  registry: PricingRegistry = loadPricingRegistry(),
+): ModelPrice | undefined {
+  const provider = getModelProviderId(model)
+  const entry =
+    registry.models.find((m) => m.provider === provider && m.modelString === model.modelString) ??
+    registry.models.find((m) => m.provider === provider && m.modelString === "*")
+  if (!entry) return undefined
+
+  const day = at.toISOString().slice(0, 10)
+  const price = entry.prices
+    .filter((p) => p.effectiveFrom <= day)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0]
+  return price ? { ...price, version: registry.version } : undefined
+}
+
+/**
+ * The billable counts in a TokenUsage as recorded on guesses and clue attempts
+ */
+export function toBillableUsage(usage: TokenUsage): BillableUsage {
+  return { input: usage.prompt, output: usage.completion, cachedInput: usage.cachedPrompt, reasoning: usage.reasoning }
+}
+
+// Each unpriced model is only reported once per process
+const warnedUnpriced = new Set<string>()
+
+/**
+ * Calculate the cost in USD of the tokens a provider reported
+ * Models without a price cost 0 and log a warning, so a gap in the registry is visible rather than guessed.
+ */
+export function calculateEstimatedCost(
+  model: PricedModel,
+  usage: BillableUsage,
+  at: Date = new Date(),
+  registry: PricingRegistry = loadPricingRegistry(),
+): number {
+  const price = findModelPrice(model, at, registry)
+  if (!price) {
+    const key = `${getModelProviderId(model)}/${model.modelString}`
+    if (!warnedUnpriced.has(key)) {
+      warnedUnpriced.add(key)
+      console.warn(`[pricing] No price for ${model.id} (${key}) in pricing registry v${registry.version}, cost reported as $0`)
+    }
+    return 0
+  }
+
+  const cached = Math.min(usage.cachedInput ?? 0, usage.input)
+  const reasoning = Math.min(usage.reasoning ?? 0, usage.output)
+  return (
+    (usage.input - cached) * price.input +
+    cached * (price.cachedInput ?? price.input) +
+    (usage.output - reasoning) * price.output +
+    reasoning * (price.reasoning ?? price.output)
+  ) / 1_000_000
+}
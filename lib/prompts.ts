@@ -1,6 +1,7 @@
 // Prompt templates for Crossword Sprint
 
-import type { Clue } from "./types"
+import type { Clue, WordleHardMode } from "./types"
+import { DEFAULT_MAX_GUESSES, DEFAULT_WORD_LENGTH } from "./wordle-utils"
 
 /**
  * Generate JSON mode prompt for a clue
@@ -39,14 +40,80 @@ export function generatePrompt(clue: Clue, mode: "json" | "plain" = "json"): str
   return mode === "json" ? generateJsonPrompt(clue) : generatePlainPrompt(clue)
 }
 
+type WordlePromptGuess = {
+  word: string
+  feedback: Array<"correct" | "present" | "absent">
+  rejected?: boolean
+  hardModeViolations?: string[]
+  invalid?: boolean
+  invalidReason?: string
+}
+
+// An answer refused earlier in the current turn, shown so the model can correct itself
+export interface InvalidGuessAttempt {
+  word: string
+  reason: string
+}
+
+export interface WordlePromptOptions {
+  hardMode?: WordleHardMode
+  wordLength?: number // default 5
+  maxGuesses?: number // default 6, 0 = unlimited
+  lyingFeedback?: boolean // one tile in every feedback row is a lie
+  invalidAttempts?: InvalidGuessAttempt[] // refused answers for the guess being asked for
+}
+
+const LYING_FEEDBACK_RULE = "- WARNING: exactly one tile in every feedback row is a lie (its color is wrong). The other tiles are truthful."
+
+/**
+ * Format one previous guess as a prompt line, e.g. "Guess 1: CRANE 🟩⬜🟨⬜⬜"
+ */
+function formatGuessLine(guess: WordlePromptGuess, index: number): string {
+  if (guess.invalid) {
+    return `Guess ${index + 1}: ${guess.word ? guess.word.toUpperCase() : "(no word)"} INVALID (${guess.invalidReason || "not accepted"}, turn lost)\n`
+  }
+  if (guess.rejected) {
+    const reason = guess.hardModeViolations?.join("; ") || "ignored revealed hints"
+    return `Guess ${index + 1}: ${guess.word.toUpperCase()} REJECTED (hard mode: ${reason})\n`
+  }
+  return `Guess ${index + 1}: ${guess.word.toUpperCase()} ${formatFeedback(guess.feedback)}\n`
+}
+
+/**
+ * Tell the model which answers were refused earlier in this turn
+ */
+function formatInvalidAttempts(attempts: InvalidGuessAttempt[], wordLength: number): string {
+  let text = "Your last answer was not accepted:\n"
+  attempts.forEach((attempt) => {
+    text += `- ${attempt.word ? `"${attempt.word.toUpperCase()}"` : "(no word)"}: ${attempt.reason}\n`
+  })
+  text += `Reply with a different, valid ${wordLength}-letter English word.\n\n`
+  return text
+}
+
+function formatFeedback(feedback: Array<"correct" | "present" | "absent">): string {
+  return feedback
+    .map((f) => {
+      if (f === "correct") return "🟩"
+      if (f === "present") return "🟨"
+      return "⬜"
+    })
+    .join("")
+}
+
 /**
  * Generate Wordle prompt with previous guesses and feedback
  */
 export function generateWordlePrompt(
   targetWord: string,
-  previousGuesses: Array<{ word: string; feedback: Array<"correct" | "present" | "absent"> }>,
+  previousGuesses: WordlePromptGuess[],
   customTemplate?: string,
+  options: WordlePromptOptions = {},
 ): string {
+  const hardMode = options.hardMode ?? "off"
+  const wordLength = options.wordLength ?? DEFAULT_WORD_LENGTH
+  const maxGuesses = options.maxGuesses ?? DEFAULT_MAX_GUESSES
+
   // If custom template is provided, use it and append previous guesses
   if (customTemplate) {
     let prompt = customTemplate
@@ -61,15 +128,8 @@ export function generateWordlePrompt(
         prompt += "\n\nPrevious guesses and feedback:\n"
         const previousWords = new Set<string>()
         previousGuesses.forEach((guess, index) => {
-          const feedbackStr = guess.feedback
-            .map((f) => {
-              if (f === "correct") return "🟩"
-              if (f === "present") return "🟨"
-              return "⬜"
-            })
-            .join("")
-          prompt += `Guess ${index + 1}: ${guess.word.toUpperCase()} ${feedbackStr}\n`
-          previousWords.add(guess.word.toLowerCase())
+          prompt += formatGuessLine(guess, index)
+          if (guess.word) previousWords.add(guess.word.toLowerCase())
         })
         prompt += `\nIMPORTANT: Do NOT repeat any previous guesses. Do NOT guess: ${Array.from(previousWords).map(w => w.toUpperCase()).join(", ")}\n\n`
       } else {
@@ -80,15 +140,8 @@ export function generateWordlePrompt(
           let guessesText = ""
           const previousWords = new Set<string>()
           previousGuesses.forEach((guess, index) => {
-            const feedbackStr = guess.feedback
-              .map((f) => {
-                if (f === "correct") return "🟩"
-                if (f === "present") return "🟨"
-                return "⬜"
-              })
-              .join("")
-            guessesText += `Guess ${index + 1}: ${guess.word.toUpperCase()} ${feedbackStr}\n`
-            previousWords.add(guess.word.toLowerCase())
+            guessesText += formatGuessLine(guess, index)
+            if (guess.word) previousWords.add(guess.word.toLowerCase())
           })
           guessesText += `\nIMPORTANT: Do NOT repeat any previous guesses. Do NOT guess: ${Array.from(previousWords).map(w => w.toUpperCase()).join(", ")}\n`
           prompt = prompt.replace(guessPlaceholder, guessesText)
@@ -97,35 +150,48 @@ export function generateWordlePrompt(
           prompt += "\n\nPrevious guesses:\n"
           const previousWords = new Set<string>()
           previousGuesses.forEach((guess, index) => {
-            const feedbackStr = guess.feedback
-              .map((f) => {
-                if (f === "correct") return "🟩"
-                if (f === "present") return "🟨"
-                return "⬜"
-              })
-              .join("")
-            prompt += `Guess ${index + 1}: ${guess.word.toUpperCase()} ${feedbackStr}\n`
-            previousWords.add(guess.word.toLowerCase())
+            prompt += formatGuessLine(guess, index)
+            if (guess.word) previousWords.add(guess.word.toLowerCase())
           })
           prompt += `\nIMPORTANT: Do NOT repeat any previous guesses. Do NOT guess: ${Array.from(previousWords).map(w => w.toUpperCase()).join(", ")}\n\n`
         }
       }
     }
 
+    if (options.lyingFeedback) {
+      prompt += `\n\n${LYING_FEEDBACK_RULE}\n`
+    }
+
+    if (options.invalidAttempts && options.invalidAttempts.length > 0) {
+      prompt += `\n\n${formatInvalidAttempts(options.invalidAttempts, wordLength)}`
+    }
+
     return prompt
   }
 
+  let hardModeRules = ""
+  if (hardMode !== "off") {
+    hardModeRules = "- HARD MODE: any revealed hints must be used in subsequent guesses (green letters stay in place, yellow letters must be included)\n"
+    if (hardMode === "enforce") {
+      hardModeRules += "- Guesses that break the hard mode rule are rejected, get no feedback and still use up a guess\n"
+    }
+  }
+
+  const guessLimitRule = maxGuesses > 0
+    ? `- You have up to ${maxGuesses} guesses total`
+    : "- There is no guess limit, but solve it in as few guesses as possible"
+
   // Default prompt generation
-  let prompt = `You are playing Wordle. Guess a 5-letter English word.
+  let prompt = `You are playing Wordle. Guess a ${wordLength}-letter English word.
 
 Rules:
-- You have up to 6 guesses total
+${guessLimitRule}
 - After each guess, you'll get feedback:
   * Green (correct): letter is in the word and in the correct position
   * Yellow (present): letter is in the word but in a different position
   * Gray (absent): letter is not in the word at all
-- IMPORTANT: Do NOT repeat any previous guesses. Each guess must be a different word.
-- Output ONLY a single 5-letter lowercase word, nothing else
+${options.lyingFeedback ? `${LYING_FEEDBACK_RULE}\n` : ""}${hardModeRules}- IMPORTANT: Do NOT repeat any previous guesses. Each guess must be a different word.
+- Output ONLY a single ${wordLength}-letter lowercase word, nothing else
 - No punctuation, no explanation, just the word
 
 `
@@ -134,20 +200,95 @@ Rules:
     prompt += "Previous guesses and feedback:\n"
     const previousWords = new Set<string>()
     previousGuesses.forEach((guess, index) => {
-      const feedbackStr = guess.feedback
-        .map((f) => {
-          if (f === "correct") return "🟩"
-          if (f === "present") return "🟨"
-          return "⬜"
-        })
-        .join("")
-      prompt += `Guess ${index + 1}: ${guess.word.toUpperCase()} ${feedbackStr}\n`
-      previousWords.add(guess.word.toLowerCase())
+      prompt += formatGuessLine(guess, index)
+      if (guess.word) previousWords.add(guess.word.toLowerCase())
     })
-    prompt += `\nDo NOT guess any of these words again: ${Array.from(previousWords).map(w => w.toUpperCase()).join(", ")}\n\n`
+    prompt += previousWords.size > 0
+      ? `\nDo NOT guess any of these words again: ${Array.from(previousWords).map(w => w.toUpperCase()).join(", ")}\n\n`
+      : "\n"
+  }
+
+  if (options.invalidAttempts && options.invalidAttempts.length > 0) {
+    prompt += formatInvalidAttempts(options.invalidAttempts, wordLength)
+  }
+
+  prompt += `Your next guess (output only the ${wordLength}-letter word, must be different from all previous guesses):`
+
+  return prompt
+}
+
+type MultiWordlePromptGuess = {
+  word: string
+  boardFeedback: Array<Array<"correct" | "present" | "absent">>
+  invalid?: boolean
+  invalidReason?: string
+}
+
+/**
+ * Generate a multi-board (Dordle/Quordle/Octordle) prompt
+ * Every guess is scored against every board; boards drop out once solved.
+ * Custom templates are single-board only, so this always uses the default wording.
+ */
+export function generateMultiWordlePrompt(
+  boardCount: number,
+  previousGuesses: MultiWordlePromptGuess[],
+  options: Pick<WordlePromptOptions, "wordLength" | "maxGuesses" | "invalidAttempts"> = {},
+): string {
+  const wordLength = options.wordLength ?? DEFAULT_WORD_LENGTH
+  const maxGuesses = options.maxGuesses ?? DEFAULT_MAX_GUESSES
+
+  const guessLimitRule = maxGuesses > 0
+    ? `- You have up to ${maxGuesses} guesses total, shared by all boards`
+    : "- There is no guess limit, but solve every board in as few guesses as possible"
+
+  let prompt = `You are playing multi-board Wordle with ${boardCount} boards. Each board hides a different ${wordLength}-letter English word.
+
+Rules:
+${guessLimitRule}
+- Every guess is played on every board that is not solved yet, and you get separate feedback for each board:
+  * Green (correct): letter is in that board's word and in the correct position
+  * Yellow (present): letter is in that board's word but in a different position
+  * Gray (absent): letter is not in that board's word at all
+- A board is solved when you guess its word exactly; solve all ${boardCount} boards to win
+- IMPORTANT: Do NOT repeat any previous guesses. Each guess must be a different word.
+- Output ONLY a single ${wordLength}-letter lowercase word, nothing else
+- No punctuation, no explanation, just the word
+
+`
+
+  if (previousGuesses.length > 0) {
+    const solvedBoards = new Set<number>()
+    prompt += "Previous guesses and feedback:\n"
+    previousGuesses.forEach((guess, index) => {
+      if (guess.invalid) {
+        prompt += `Guess ${index + 1}: ${guess.word ? guess.word.toUpperCase() : "(no word)"} INVALID (${guess.invalidReason || "not accepted"}, turn lost)\n`
+        return
+      }
+      prompt += `Guess ${index + 1}: ${guess.word.toUpperCase()}\n`
+      for (let board = 0; board < boardCount; board++) {
+        const feedback = guess.boardFeedback[board] ?? []
+        if (feedback.length === 0) continue // already solved before this guess
+        prompt += `  Board ${board + 1}: ${formatFeedback(feedback)}`
+        if (feedback.every((f) => f === "correct")) {
+          solvedBoards.add(board)
+          prompt += " SOLVED"
+        }
+        prompt += "\n"
+      }
+    })
+
+    const unsolved = Array.from({ length: boardCount }, (_, board) => board)
+      .filter((board) => !solvedBoards.has(board))
+      .map((board) => board + 1)
+    prompt += `\nBoards still to solve: ${unsolved.join(", ")}\n`
+    prompt += `Do NOT guess any of these words again: ${previousGuesses.filter(g => g.word).map(g => g.word.toUpperCase()).join(", ")}\n\n`
+  }
+
+  if (options.invalidAttempts && options.invalidAttempts.length > 0) {
+    prompt += formatInvalidAttempts(options.invalidAttempts, wordLength)
   }
 
-  prompt += "Your next guess (output only the 5-letter word, must be different from all previous guesses):"
+  prompt += `Your next guess (output only the ${wordLength}-letter word, must be different from all previous guesses):`
 
   return prompt
 }
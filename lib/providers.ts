@@ -0,0 +1,165 @@
+// Provider registry - OpenAI-compatible endpoints a ModelConfig can run against
+// OpenRouter is the default. Self-hosted servers (Ollama, llama.cpp, vLLM) and direct vendor APIs
+// are reached the same way, each with its own base URL, credentials and capabilities.
+
+export const DEFAULT_PROVIDER_ID = "openrouter"
+// Answers in-process (lib/mock-model.ts); MOCK_PROVIDER=true sends every model here for offline runs
+export const MOCK_PROVIDER_ID = "mock"
+// Algorithmic solver baselines (lib/solvers.ts), also answered in-process
+export const BASELINE_PROVIDER_ID = "baseline"
+
+export interface ProviderCapabilities {
+  temperature: boolean // accepts temperature/topP
+  responsesApi: boolean // serves the OpenAI Responses API, used for reasoning summaries
+  requiresApiKey: boolean // refuse to run without a key (local servers usually don't need one)
+}
+
+export interface ProviderConfig {
+  id: string
+  name: string
+  baseURL: string
+  baseURLEnv?: string // env var that overrides baseURL
+  apiKeyEnv?: string // env var holding the API key
+  headers?: Record<string, string>
+  simulated?: boolean // no endpoint, answered in-process by the mock model or a solver
+  capabilities: ProviderCapabilities
+}
+
+// Settings resolved from the environment, ready to build a client with
+export interface ProviderSettings {
+  provider: ProviderConfig
+  baseURL: string
+  apiKey?: string
+}
+
+type Env = Record<string, string | undefined>
+
+export const BUILT_IN_PROVIDERS: ProviderConfig[] = [
+  {
+    id: "openrouter",
+    name: "OpenRouter",
+    baseURL: "https://openrouter.ai/api/v1",
+    apiKeyEnv: "OPENROUTER_API_KEY",
+    capabilities: { temperature: true, responsesApi: true, requiresApiKey: true },
+  },
+  {
+    id: "openai",
+    name: "OpenAI",
+    baseURL: "https://api.openai.com/v1",
+    apiKeyEnv: "OPENAI_API_KEY",
+    capabilities: { temperature: true, responsesApi: true, requiresApiKey: true },
+  },
+  {
+    id: "ollama",
+    name: "Ollama",
+    baseURL: "http://localhost:11434/v1",
+    baseURLEnv: "OLLAMA_BASE_URL",
+    capabilities: { temperature: true, responsesApi: false, requiresApiKey: false },
+  },
+  {
+    id: "llama-cpp",
+    name: "llama.cpp server",
+    baseURL: "http://localhost:8080/v1",
+    baseURLEnv: "LLAMA_CPP_BASE_URL",
+    apiKeyEnv: "LLAMA_CPP_API_KEY",
+    capabilities: { temperature: true, responsesApi: false, requiresApiKey: false },
+  },
+  {
+    id: "vllm",
+    name: "vLLM",
+    baseURL: "http://localhost:8000/v1",
+    baseURLEnv: "VLLM_BASE_URL",
+    apiKeyEnv: "VLLM_API_KEY",
+    capabilities: { temperature: true, responsesApi: false, requiresApiKey: false },
+  },
+  {
+    id: MOCK_PROVIDER_ID,
+    name: "Mock (offline)",
+    baseURL: "",
+    simulated: true,
+    capabilities: { temperature: true, responsesApi: false, requiresApiKey: false },
+  },
+  {
+    id: BASELINE_PROVIDER_ID,
+    name: "Solver baselines",
+    baseURL: "",
+    simulated: true,
+    capabilities: { temperature: false, responsesApi: false, requiresApiKey: false },
+  },
+]
+
+/**
+ * All providers: the built-ins plus any declared in the CUSTOM_PROVIDERS env var
+ * CUSTOM_PROVIDERS is a JSON array of ProviderConfig; an entry with a built-in id replaces it
+ */
+export function getProviders(env: Env = process.env): ProviderConfig[] {
+  const providers = new Map(BUILT_IN_PROVIDERS.map((p) => [p.id, p]))
+  parseCustomProviders(env.CUSTOM_PROVIDERS).forEach((p) => providers.set(p.id, p))
+  return Array.from(providers.values())
+}
+
+function parseCustomProviders(raw: string | undefined): ProviderConfig[] {
+  if (!raw) return []
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    throw new Error("CUSTOM_PROVIDERS must be a JSON array of provider configs")
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("CUSTOM_PROVIDERS must be a JSON array of provider configs")
+  }
+
+  return parsed.map((entry: Partial<ProviderConfig>) => {
+    if (!entry?.id || !entry.baseURL) {
+      throw new Error("Every custom provider needs an id and a baseURL")
+    }
+    return {
+      ...entry,
+      id: entry.id,
+      name: entry.name || entry.id,
+      baseURL: entry.baseURL,
+      capabilities: {
+        temperature: entry.capabilities?.temperature ?? true,
+        responsesApi: entry.capabilities?.responsesApi ?? false,
+        requiresApiKey: entry.capabilities?.requiresApiKey ?? !!entry.apiKeyEnv,
+      },
+    }
+  })
+}
+
+/**
+ * Provider a model actually runs on - every model except the solver baselines goes to the
+ * mock provider when MOCK_PROVIDER=true
+ */
+export function getModelProviderId(model: { provider?: string }, env: Env = process.env): string {
+  if (env.MOCK_PROVIDER === "true" && model.provider !== BASELINE_PROVIDER_ID) return MOCK_PROVIDER_ID
+  return model.provider ?? DEFAULT_PROVIDER_ID
+}
+
+export function getProvider(id: string = DEFAULT_PROVIDER_ID, env: Env = process.env): ProviderConfig | undefined {
+  return getProviders(env).find((p) => p.id === id)
+}
+
+/**
+ * Resolve a provider's base URL and key from the environment
+ * Throws if the provider is unknown or needs a key that isn't set
+ */
+export function resolveProviderSettings(id: string = DEFAULT_PROVIDER_ID, env: Env = process.env): ProviderSettings {
+  const provider = getProvider(id, env)
+  if (!provider) {
+    throw new Error(`Unknown provider: ${id}`)
+  }
+
+  const apiKey = provider.apiKeyEnv ? env[provider.apiKeyEnv] : undefined
+  if (provider.capabilities.requiresApiKey && !apiKey) {
+    throw new Error(`Provider ${id} needs ${provider.apiKeyEnv ?? "an API key"} to be set`)
+  }
+
+  return {
+    provider,
+    baseURL: (provider.baseURLEnv && env[provider.baseURLEnv]) || provider.baseURL,
+    apiKey,
+  }
+}
@@ -22,10 +22,12 @@ export class RaceEngine {
   private callbacks: RaceCallbacks
   private allAttempts: ClueAttempt[] = []
   private state: RaceState
+  private signal?: AbortSignal
 
-  constructor(config: RaceConfig, callbacks: RaceCallbacks = {}) {
+  constructor(config: RaceConfig, callbacks: RaceCallbacks = {}, signal?: AbortSignal) {
     this.raceConfig = config
     this.callbacks = callbacks
+    this.signal = signal
 
     const totalClues = config.rounds.reduce((sum, round) => sum + round.clues.length, 0)
 
@@ -54,6 +56,7 @@ export class RaceEngine {
     try {
       // Run each round sequentially
       for (const round of this.raceConfig.rounds) {
+        if (this.signal?.aborted) break
         console.log(`[v0] Starting round ${round.id}`)
 
         this.updateState({
@@ -79,6 +82,14 @@ export class RaceEngine {
         modelNames,
       )
 
+      // Models that hadn't answered every clue when the race was cancelled
+      const cancelled = !!this.signal?.aborted
+      if (cancelled) {
+        finalScores.forEach((score) => {
+          if (score.totalAttempts < this.state.totalClues) score.didNotFinish = true
+        })
+      }
+
       const winner = finalScores[0]?.modelId
 
       const raceResult: RaceResult = {
@@ -89,16 +100,16 @@ export class RaceEngine {
       }
 
       this.updateState({
-        status: "completed",
+        status: cancelled ? "cancelled" : "completed",
         completedAt: Date.now(),
-        progress: 100,
+        progress: cancelled ? this.state.progress : 100,
       })
 
       if (this.callbacks.onRaceComplete) {
         this.callbacks.onRaceComplete(raceResult)
       }
 
-      console.log(`[v0] Race completed! Winner: ${finalScores[0]?.modelName}`)
+      console.log(cancelled ? `[v0] Race ${this.raceConfig.id} cancelled` : `[v0] Race completed! Winner: ${finalScores[0]?.modelName}`)
 
       return raceResult
     } catch (error) {
@@ -143,6 +154,7 @@ export class RaceEngine {
           this.callbacks.onModelProgress(modelId, clueId, partialText)
         }
       },
+      this.signal,
     )
 
     // Group attempts by clue
@@ -0,0 +1,36 @@
+// Seeded random numbers so randomized game settings can be replayed exactly
+
+/**
+ * Hash a string to a 32-bit unsigned integer (FNV-1a)
+ * Used to derive independent seeds, e.g. one per model from a race seed
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Create a deterministic random number generator (mulberry32)
+ * Returns a function that yields numbers in [0, 1), like Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Pick a fresh seed for runs that didn't ask for one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32)
+}
@@ -0,0 +1,132 @@
+// Bradley-Terry ratings from head-to-head games
+// Every word two models both played is a match: solving beats failing, and between two solves the
+// one with fewer guesses wins. Equal outcomes are draws. Ratings come from the games alone, so unlike
+// the composite score they don't depend on hand-picked weights.
+
+import type { BenchmarkModelResult } from "./benchmark-types"
+import type { WordleRaceResult } from "./types"
+
+export const BASE_RATING = 1500
+const ELO_SCALE = 400 / Math.LN10 // rating points per unit of log-strength, as in Elo
+const PRIOR_GAMES = 1 // virtual win and loss against an average opponent, keeps unbeaten or winless models finite
+const MAX_ITERATIONS = 1000
+const TOLERANCE = 1e-9
+
+export interface RatingMatch {
+  modelA: string
+  modelB: string
+  scoreA: number // 1 = A won, 0.5 = draw, 0 = B won
+}
+
+export interface ModelRating {
+  modelId: string
+  rating: number // Elo scale, the average model is BASE_RATING
+  ratingError: number // half-width of the 95% interval
+  matches: number
+}
+
+interface GameOutcome {
+  solved: boolean
+  guessCount: number
+}
+
+/**
+ * Score of game A against game B on the same word: 1 win, 0.5 draw, 0 loss
+ */
+export function compareGameOutcomes(a: GameOutcome, b: GameOutcome): number {
+  if (a.solved !== b.solved) return a.solved ? 1 : 0
+  if (!a.solved || a.guessCount === b.guessCount) return 0.5
+  return a.guessCount < b.guessCount ? 1 : 0
+}
+
+/**
+ * One match per pair of models for every game (word and trial) they both played
+ */
+export function matchesFromBenchmark(models: BenchmarkModelResult[]): RatingMatch[] {
+  const gamesByModel = models.map((model) => ({
+    id: model.id,
+    games: new Map((model.games ?? []).map((g) => [`${g.word}#${g.trial ?? 0}`, g])),
+  }))
+
+  const matches: RatingMatch[] = []
+  gamesByModel.forEach((a, i) => {
+    gamesByModel.slice(i + 1).forEach((b) => {
+      a.games.forEach((game, key) => {
+        const other = b.games.get(key)
+        if (other) matches.push({ modelA: a.id, modelB: b.id, scoreA: compareGameOutcomes(game, other) })
+      })
+    })
+  })
+  return matches
+}
+
+/**
+ * One match per pair of models in a live race
+ */
+export function matchesFromRace(result: WordleRaceResult): RatingMatch[] {
+  return result.modelResults.flatMap((a, i) =>
+    result.modelResults.slice(i + 1).map((b) => ({
+      modelA: a.modelId,
+      modelB: b.modelId,
+      scoreA: compareGameOutcomes(a, b),
+    }))
+  )
+}
+
+/**
+ * Fit Bradley-Terry strengths (draws count half a win each) with Hunter's MM algorithm
+ * Returns ratings sorted best first. The error comes from the Fisher information of each strength.
+ */
+export function calculateRatings(matches: RatingMatch[]): ModelRating[] {
+  const ids = Array.from(new Set(matches.flatMap((m) => [m.modelA, m.modelB])))
+  if (ids.length === 0) return []
+
+  const index = new Map(ids.map((id, i) => [id, i]))
+  const n = ids.length
+  const games = Array.from({ length: n }, () => new Array<number>(n).fill(0))
+  const wins = new Array<number>(n).fill(PRIOR_GAMES)
+  const played = new Array<number>(n).fill(0)
+  matches.forEach(({ modelA, modelB, scoreA }) => {
+    const a = index.get(modelA)!
+    const b = index.get(modelB)!
+    games[a][b]++
+    games[b][a]++
+    wins[a] += scoreA
+    wins[b] += 1 - scoreA
+    played[a]++
+    played[b]++
+  })
+
+  // The prior opponent has strength 1 and plays every model 2 * PRIOR_GAMES times
+  let strength = new Array<number>(n).fill(1)
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = strength.map((s, i) => {
+      let denominator = (2 * PRIOR_GAMES) / (s + 1)
+      for (let j = 0; j < n; j++) {
+        if (games[i][j] > 0) denominator += games[i][j] / (s + strength[j])
+      }
+      return wins[i] / denominator
+    })
+    const change = Math.max(...next.map((s, i) => Math.abs(Math.log(s / strength[i]))))
+    strength = next
+    if (change < TOLERANCE) break
+  }
+
+  // Center so the geometric mean strength sits at BASE_RATING
+  const meanLog = strength.reduce((sum, s) => sum + Math.log(s), 0) / n
+
+  return ids
+    .map((modelId, i) => {
+      let information = (2 * PRIOR_GAMES * strength[i]) / (strength[i] + 1) ** 2
+      for (let j = 0; j < n; j++) {
+        if (games[i][j] > 0) information += (games[i][j] * strength[i] * strength[j]) / (strength[i] + strength[j]) ** 2
+      }
+      return {
+        modelId,
+        rating: BASE_RATING + ELO_SCALE * (Math.log(strength[i]) - meanLog),
+        ratingError: (1.96 * ELO_SCALE) / Math.sqrt(information),
+        matches: played[i],
+      }
+    })
+    .sort((a, b) => b.rating - a.rating)
+}
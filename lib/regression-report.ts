@@ -0,0 +1,157 @@
+// Regression report for two benchmark runs
+// Checks a run diff (lib/benchmark-diff.ts) against thresholds and renders it as Markdown, so silent
+// quality changes in provider models show up between runs. `scripts/benchmark.ts report --compare` is the command.
+
+import type { BenchmarkRunDiff, ModelRunDiff, RunRef } from "./benchmark-diff"
+
+export interface RegressionThresholds {
+  maxWinRateDrop: number // percentage points
+  maxAvgGuessesIncrease: number
+  maxMedianTimeIncreasePct: number // % of the base median time
+  maxCostIncreasePct: number // % of the base cost
+  maxNewlyFailedWords: number // per model
+  failOnRemovedModels: boolean
+}
+
+export const DEFAULT_REGRESSION_THRESHOLDS: RegressionThresholds = {
+  maxWinRateDrop: 10,
+  maxAvgGuessesIncrease: 0.5,
+  maxMedianTimeIncreasePct: 50,
+  maxCostIncreasePct: 50,
+  maxNewlyFailedWords: 3,
+  failOnRemovedModels: false,
+}
+
+export type RegressionMetric = "winRate" | "avgGuesses" | "medianTimeMs" | "totalCost" | "newlyFailed" | "removed"
+
+export interface Regression {
+  modelId: string
+  modelName: string
+  metric: RegressionMetric
+  message: string
+}
+
+export interface RegressionReport {
+  diff: BenchmarkRunDiff
+  thresholds: RegressionThresholds
+  regressions: Regression[]
+}
+
+// Growth as a % of the base value, undefined when there is no base to grow from
+function percentIncrease(base: number, head: number): number | undefined {
+  return base > 0 ? ((head - base) / base) * 100 : undefined
+}
+
+function modelRegressions(model: ModelRunDiff, thresholds: RegressionThresholds): Regression[] {
+  const regressions: Regression[] = []
+  const add = (metric: RegressionMetric, message: string) =>
+    regressions.push({ modelId: model.modelId, modelName: model.modelName, metric, message })
+
+  if (model.status === "removed") {
+    if (thresholds.failOnRemovedModels) add("removed", "missing from the head run")
+    return regressions
+  }
+
+  const { winRate, avgGuesses, medianTimeMs, totalCost } = model
+  if (winRate && -winRate.delta > thresholds.maxWinRateDrop) {
+    add("winRate", `win rate fell ${(-winRate.delta).toFixed(1)} points (${winRate.base.toFixed(1)}% -> ${winRate.head.toFixed(1)}%)`)
+  }
+  if (avgGuesses && avgGuesses.delta > thresholds.maxAvgGuessesIncrease) {
+    add("avgGuesses", `avg guesses rose ${avgGuesses.delta.toFixed(2)} (${avgGuesses.base.toFixed(2)} -> ${avgGuesses.head.toFixed(2)})`)
+  }
+  const timeIncrease = medianTimeMs && percentIncrease(medianTimeMs.base, medianTimeMs.head)
+  if (medianTimeMs && timeIncrease !== undefined && timeIncrease > thresholds.maxMedianTimeIncreasePct) {
+    add("medianTimeMs", `median time rose ${timeIncrease.toFixed(0)}% (${(medianTimeMs.base / 1000).toFixed(1)}s -> ${(medianTimeMs.head / 1000).toFixed(1)}s)`)
+  }
+  const costIncrease = totalCost && percentIncrease(totalCost.base, totalCost.head)
+  if (totalCost && costIncrease !== undefined && costIncrease > thresholds.maxCostIncreasePct) {
+    add("totalCost", `cost rose ${costIncrease.toFixed(0)}% ($${totalCost.base.toFixed(4)} -> $${totalCost.head.toFixed(4)})`)
+  }
+  if (model.newlyFailed.length > thresholds.maxNewlyFailedWords) {
+    add("newlyFailed", `${model.newlyFailed.length} words went from solved to failed: ${model.newlyFailed.join(", ")}`)
+  }
+  return regressions
+}
+
+/**
+ * Every threshold a run diff crosses
+ */
+export function findRegressions(
+  diff: BenchmarkRunDiff,
+  thresholds: RegressionThresholds = DEFAULT_REGRESSION_THRESHOLDS
+): Regression[] {
+  return diff.models.flatMap((model) => modelRegressions(model, thresholds))
+}
+
+export function buildRegressionReport(
+  diff: BenchmarkRunDiff,
+  thresholds: RegressionThresholds = DEFAULT_REGRESSION_THRESHOLDS
+): RegressionReport {
+  return { diff, thresholds, regressions: findRegressions(diff, thresholds) }
+}
+
+function describeRun(run: RunRef): string {
+  return `${run.runId ?? run.runDate} (${run.label}, ${run.runDate.slice(0, 10)})`
+}
+
+function signed(value: number, digits: number, suffix = ""): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(digits)}${suffix}`
+}
+
+/**
+ * Markdown version of a regression report, for CI logs and PR comments
+ */
+export function formatRegressionMarkdown({ diff, regressions }: RegressionReport): string {
+  const lines: string[] = ["# Benchmark Diff", "", `- Base: ${describeRun(diff.base)}`, `- Head: ${describeRun(diff.head)}`, ""]
+
+  lines.push(`## Regressions (${regressions.length})`, "")
+  if (regressions.length === 0) lines.push("No thresholds crossed.")
+  regressions.forEach((r) => lines.push(`- **${r.modelName}**: ${r.message}`))
+  lines.push("")
+
+  const added = diff.models.filter((m) => m.status === "added")
+  const removed = diff.models.filter((m) => m.status === "removed")
+  if (added.length > 0 || removed.length > 0) {
+    lines.push("## Models Added and Removed", "")
+    added.forEach((m) => lines.push(`- Added: ${m.modelName} (\`${m.modelId}\`)`))
+    removed.forEach((m) => lines.push(`- Removed: ${m.modelName} (\`${m.modelId}\`)`))
+    lines.push("")
+  }
+
+  const changed = diff.models.filter((m) => m.status === "changed")
+  if (changed.length > 0) {
+    lines.push(
+      "## Model Changes",
+      "",
+      "| Model | Win % | Avg Guesses | Median Time | Cost | Newly Solved | Newly Failed |",
+      "|-------|-------|-------------|-------------|------|--------------|--------------|"
+    )
+    changed.forEach((m) => {
+      lines.push(
+        `| ${m.modelName} | ${m.winRate!.head.toFixed(1)} (${signed(m.winRate!.delta, 1)}) ` +
+          `| ${m.avgGuesses!.head.toFixed(2)} (${signed(m.avgGuesses!.delta, 2)}) ` +
+          `| ${(m.medianTimeMs!.head / 1000).toFixed(1)}s (${signed(m.medianTimeMs!.delta / 1000, 1, "s")}) ` +
+          `| $${m.totalCost!.head.toFixed(4)} (${signed(m.totalCost!.delta, 4)}) ` +
+          `| ${m.newlySolved.join(", ") || "-"} | ${m.newlyFailed.join(", ") || "-"} |`
+      )
+    })
+    lines.push("")
+  }
+
+  const switched = diff.words.filter((w) => w.newlySolvedBy.length > 0 || w.newlyFailedBy.length > 0)
+  if (switched.length > 0) {
+    lines.push(
+      "## Words That Switched",
+      "",
+      "| Word | Solve Rate | Newly Solved By | Newly Failed By |",
+      "|------|------------|-----------------|-----------------|"
+    )
+    switched.forEach((w) => {
+      const rate = w.solveRate ? `${w.solveRate.head.toFixed(0)}% (${signed(w.solveRate.delta, 0)})` : "-"
+      lines.push(`| ${w.word} | ${rate} | ${w.newlySolvedBy.join(", ") || "-"} | ${w.newlyFailedBy.join(", ") || "-"} |`)
+    })
+    lines.push("")
+  }
+
+  return lines.join("\n")
+}
@@ -0,0 +1,179 @@
+// Benchmark run history - every finished run is kept as its own file in data/runs/<runId>.json
+// data/benchmark-results.json is still what the site publishes. The store keeps earlier runs around
+// so numbers from before a provider updated its models aren't lost, and so two runs can be diffed.
+// data/runs/index.json keeps a summary of every run so listing them doesn't load each file.
+
+import * as fs from "fs"
+import * as path from "path"
+import { z } from "zod"
+import type { BenchmarkResults } from "./benchmark-types"
+import { parseBenchmarkResults } from "./benchmark-schema"
+import { loadBenchmarkResults } from "./benchmark-data"
+
+export const DEFAULT_RUNS_DIR = path.join(process.cwd(), "data/runs")
+
+// Stands for data/benchmark-results.json wherever a run ID is accepted
+export const PUBLISHED_RUN_ID = "published"
+
+// What the run selector and listings show without loading every game
+export interface RunSummary {
+  id: string
+  runDate: string
+  label: string // metadata.version
+  totalModels: number
+  totalGames: number
+  wordCount: number
+  totalCost: number
+}
+
+const runSummarySchema = z.object({
+  id: z.string(),
+  runDate: z.string(),
+  label: z.string(),
+  totalModels: z.number(),
+  totalGames: z.number(),
+  wordCount: z.number(),
+  totalCost: z.number(),
+})
+
+const INDEX_FILE = "index.json"
+const RUN_ID_PATTERN = /^[\w.-]+$/
+
+export function isValidRunId(id: string): boolean {
+  return RUN_ID_PATTERN.test(id) && `${id}.json` !== INDEX_FILE
+}
+
+/**
+ * Run ID derived from the run date, e.g. 2026-02-06T16-41-39-119Z
+ */
+export function createRunId(results: BenchmarkResults): string {
+  return results.metadata.runDate.replace(/[:.]/g, "-")
+}
+
+function runPath(id: string, dir: string): string {
+  if (!isValidRunId(id)) throw new Error(`Invalid run ID: ${id}`)
+  return path.join(dir, `${id}.json`)
+}
+
+/**
+ * Save a run under its own ID and return the ID
+ * An existing run is never overwritten; a clashing ID gets a numeric suffix.
+ */
+export function saveRun(results: BenchmarkResults, dir: string = DEFAULT_RUNS_DIR): string {
+  fs.mkdirSync(dir, { recursive: true })
+  const baseId = createRunId(results)
+  let id = baseId
+  for (let n = 2; fs.existsSync(runPath(id, dir)); n++) id = `${baseId}-${n}`
+
+  const stored: BenchmarkResults = { ...results, metadata: { ...results.metadata, runId: id } }
+  fs.writeFileSync(runPath(id, dir), JSON.stringify(stored, null, 2))
+  writeIndex(dir, [...readIndex(dir), summarizeRun(id, stored)])
+  return id
+}
+
+/**
+ * Load a stored run, upgraded and validated like any result file
+ */
+export function loadRun(id: string, dir: string = DEFAULT_RUNS_DIR): BenchmarkResults {
+  const filePath = runPath(id, dir)
+  if (!fs.existsSync(filePath)) throw new Error(`Run not found: ${id}`)
+  const results = parseBenchmarkResults(JSON.parse(fs.readFileSync(filePath, "utf-8")), filePath)
+  return { ...results, metadata: { ...results.metadata, runId: id } }
+}
+
+/**
+ * A stored run, or the published results for PUBLISHED_RUN_ID
+ */
+export function loadRunOrPublished(id: string, dir: string = DEFAULT_RUNS_DIR): BenchmarkResults {
+  return id === PUBLISHED_RUN_ID ? loadBenchmarkResults() : loadRun(id, dir)
+}
+
+/**
+ * The run a page asked for (?run=<id>), or the published results
+ * IDs that aren't listed and runs that fail to load (deleted, hand-edited or invalid since the
+ * index was written) fall back to the published results, so a stale link never fails the page.
+ */
+export function loadSelectedRun(
+  id: string | undefined,
+  runs: RunSummary[],
+  dir: string = DEFAULT_RUNS_DIR,
+): { data: BenchmarkResults; selectedRun?: string } {
+  if (id && isValidRunId(id) && runs.some((run) => run.id === id)) {
+    try {
+      return { data: loadRun(id, dir), selectedRun: id }
+    } catch (error) {
+      console.warn(`[runs] Showing the published results instead of ${id}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+  return { data: loadBenchmarkResults() }
+}
+
+function summarizeRun(id: string, { metadata }: BenchmarkResults): RunSummary {
+  return {
+    id,
+    runDate: metadata.runDate,
+    label: metadata.version,
+    totalModels: metadata.totalModels,
+    totalGames: metadata.totalGames,
+    wordCount: metadata.wordCount,
+    totalCost: metadata.totalCost,
+  }
+}
+
+// A missing or unreadable index is rebuilt from the run files by listRuns
+function readIndex(dir: string): RunSummary[] {
+  const filePath = path.join(dir, INDEX_FILE)
+  if (!fs.existsSync(filePath)) return []
+  try {
+    return z.array(runSummarySchema).parse(JSON.parse(fs.readFileSync(filePath, "utf-8")))
+  } catch (error) {
+    console.warn(`[runs] Ignoring ${INDEX_FILE}: ${error instanceof Error ? error.message : error}`)
+    return []
+  }
+}
+
+function writeIndex(dir: string, runs: RunSummary[]): void {
+  fs.writeFileSync(path.join(dir, INDEX_FILE), JSON.stringify(runs, null, 2))
+}
+
+/**
+ * Every stored run, newest first
+ * Summaries come from the index. Run files it doesn't know yet (copied in by hand or saved before
+ * it existed) are loaded once and added; files that can't be loaded are skipped with a warning so
+ * one bad run doesn't hide the rest. A missing or read-only directory never fails the listing.
+ */
+export function listRuns(dir: string = DEFAULT_RUNS_DIR): RunSummary[] {
+  let ids: string[]
+  try {
+    ids = fs.existsSync(dir)
+      ? fs.readdirSync(dir).filter((file) => file.endsWith(".json") && file !== INDEX_FILE).map((file) => file.slice(0, -".json".length))
+      : []
+  } catch (error) {
+    console.warn(`[runs] Can't read ${dir}: ${error instanceof Error ? error.message : error}`)
+    return []
+  }
+
+  const indexed = new Map(readIndex(dir).map((run) => [run.id, run]))
+  const runs = ids.flatMap((id) => {
+    const summary = indexed.get(id)
+    if (summary) return [summary]
+    try {
+      return [summarizeRun(id, loadRun(id, dir))]
+    } catch (error) {
+      console.warn(`[runs] Skipping ${id}.json: ${error instanceof Error ? error.message : error}`)
+      return []
+    }
+  })
+
+  // Keep the index in step with the files, unless the directory can't be written (e.g. on deploy)
+  const changed = runs.length !== indexed.size || runs.some((run) => !indexed.has(run.id))
+  if (changed) {
+    try {
+      writeIndex(dir, runs)
+    } catch (error) {
+      console.warn(`[runs] Can't update ${INDEX_FILE}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  return runs.sort((a, b) => b.runDate.localeCompare(a.runDate))
+}
@@ -0,0 +1,122 @@
+// Algorithmic Wordle solvers - non-LLM baselines that race alongside the models
+// They run behind the "baseline" provider, so WordleEngine, the routes and the benchmark scripts
+// treat them like any other ModelConfig. Each reads the game state back out of the prompt.
+
+import type { Clue } from "./types"
+import { findHardModeViolations } from "./wordle-utils"
+import { filterCandidates, getAllWords } from "./wordle-words"
+import { findMostInformativeGuess } from "./guess-analysis"
+import { createSeededRandom, hashString } from "./random"
+import { createScriptedLanguageModel, parseWordlePrompt } from "./mock-model"
+
+// "entropy" maximizes expected information, "frequency" plays the consistent word with the most
+// common letters, "random" plays any consistent word
+export type SolverStrategy = "entropy" | "frequency" | "random"
+
+export const SOLVER_STRATEGIES: SolverStrategy[] = ["entropy", "frequency", "random"]
+
+export interface SolverGuess {
+  word: string
+  candidates: number // answers still possible on the targeted boards
+  reasoning: string
+}
+
+export function isSolverStrategy(value: string): value is SolverStrategy {
+  return (SOLVER_STRATEGIES as string[]).includes(value)
+}
+
+/**
+ * Parse a baseline modelString such as "entropy" or "random?seed=3"
+ */
+export function parseSolverModelString(modelString: string): { strategy: SolverStrategy; seed: number } {
+  const [name, query = ""] = modelString.split("?")
+  if (!isSolverStrategy(name)) {
+    throw new Error(`Unknown solver: ${name}`)
+  }
+  const seed = new URLSearchParams(query).get("seed")
+  return { strategy: name, seed: seed !== null && Number.isInteger(Number(seed)) ? Number(seed) : hashString(name) }
+}
+
+function chooseFrequencyGuess(candidates: string[]): string {
+  const letterCounts = new Map<string, number>()
+  const positionCounts = new Map<string, number>()
+  candidates.forEach((word) => {
+    new Set(word).forEach((letter) => letterCounts.set(letter, (letterCounts.get(letter) ?? 0) + 1))
+    Array.from(word).forEach((letter, i) => positionCounts.set(`${i}${letter}`, (positionCounts.get(`${i}${letter}`) ?? 0) + 1))
+  })
+
+  // Common letters count once per word so repeats don't waste tiles; common positions break ties
+  const score = (word: string) =>
+    Array.from(new Set(word)).reduce((sum, letter) => sum + (letterCounts.get(letter) ?? 0), 0) +
+    Array.from(word).reduce((sum, letter, i) => sum + (positionCounts.get(`${i}${letter}`) ?? 0), 0) / word.length
+
+  return candidates.reduce((best, word) => (score(word) > score(best) ? word : best), candidates[0])
+}
+
+/**
+ * Pick the solver's next guess from the prompt of a single- or multi-board game
+ * When the feedback rules out every answer (e.g. lying feedback) the solver falls back to any untried answer.
+ */
+export function chooseSolverBaselineGuess(
+  prompt: string,
+  wordLength: number,
+  strategy: SolverStrategy,
+  seed = 0,
+): SolverGuess {
+  const { rowsByBoard, solvedBoards, tried } = parseWordlePrompt(prompt)
+  const openBoards = rowsByBoard.size > 0
+    ? Array.from(rowsByBoard.keys()).filter((board) => !solvedBoards.has(board))
+    : [0]
+
+  let boards = openBoards
+    .map((board) => filterCandidates(rowsByBoard.get(board) ?? [], wordLength).filter((w) => !tried.has(w)))
+    .filter((candidates) => candidates.length > 0)
+  if (boards.length === 0) {
+    boards = [getAllWords(wordLength).filter((w) => !tried.has(w))]
+  }
+  const smallest = boards.reduce((a, b) => (b.length < a.length ? b : a))
+  const count = (n: number) => `${n} possible answer${n === 1 ? "" : "s"}`
+
+  if (smallest.length === 1) {
+    return { word: smallest[0], candidates: 1, reasoning: `Only ${smallest[0]} fits the feedback.` }
+  }
+
+  if (strategy === "random") {
+    const random = createSeededRandom(hashString(`${seed}:${Array.from(tried).join(",")}`))
+    const word = smallest[Math.floor(random() * smallest.length)]
+    return { word, candidates: smallest.length, reasoning: `${count(smallest.length)} left. Picking ${word} at random.` }
+  }
+
+  if (strategy === "frequency") {
+    const word = chooseFrequencyGuess(smallest)
+    return { word, candidates: smallest.length, reasoning: `${count(smallest.length)} left. ${word} uses the most common letters.` }
+  }
+
+  // With two answers left on a board, guessing one of them beats any probe
+  if (boards.length === 1 && smallest.length === 2) {
+    return { word: smallest[0], candidates: 2, reasoning: `Two answers left. Trying ${smallest[0]}.` }
+  }
+  // In hard mode only probes that reuse every revealed hint are allowed
+  const rows = rowsByBoard.get(0) ?? []
+  const hardMode = /HARD MODE/.test(prompt)
+  const { word, bits } = findMostInformativeGuess(boards, wordLength, tried, (w) => !hardMode || findHardModeViolations(w, rows).length === 0)
+  const total = boards.reduce((sum, b) => sum + b.length, 0)
+  return { word, candidates: total, reasoning: `${count(total)} left. ${word} is expected to reveal ${bits.toFixed(2)} bits.` }
+}
+
+/**
+ * Create the language model a solver baseline plays through for one clue
+ * It answers instantly and uses no tokens.
+ */
+export function createSolverLanguageModel(modelString: string, clue: Clue, mode: "json" | "plain") {
+  const { strategy, seed } = parseSolverModelString(modelString)
+
+  return createScriptedLanguageModel("baseline", modelString, 0, (prompt) => {
+    const guess = chooseSolverBaselineGuess(prompt, clue.length, strategy, seed)
+    return {
+      text: mode === "json" ? JSON.stringify({ answer: guess.word }) : guess.word,
+      reasoning: guess.reasoning,
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+    }
+  })
+}
@@ -24,10 +24,21 @@ export interface Round {
   maxTokens?: number // per-answer cap
 }
 
+// Tokens as the provider reported them. Reasoning tokens are part of completion and cached tokens part
+// of prompt; both are only set when the provider breaks them out.
+export interface TokenUsage {
+  prompt: number
+  completion: number
+  total: number
+  reasoning?: number // hidden thinking tokens
+  cachedPrompt?: number // prompt tokens served from the provider's cache
+}
+
 export interface ModelConfig {
   id: string
   name: string
-  modelString: string // e.g. "openai/gpt-5", "anthropic/claude-4.5"
+  modelString: string // e.g. "openai/gpt-5", "anthropic/claude-4.5", or the model name on a self-hosted server
+  provider?: string // provider id from lib/providers.ts, default "openrouter"
   temperature?: number // default 0.1
   topP?: number // default 1
   customPrompt?: string // Custom prompt override for Wordle (optional)
@@ -70,11 +81,7 @@ export interface ClueAttempt {
   formatOk: boolean // passed schema/output validation
   correct: boolean // matches ground truth
   clueScore: number // 0-100
-  tokenUsage?: {
-    prompt: number
-    completion: number
-    total: number
-  }
+  tokenUsage?: TokenUsage
   error?: string // Add optional error field to track failures
 }
 
@@ -108,12 +115,13 @@ export interface ModelScore {
   medianE2EMs: number
   medianTTFTMs?: number
   e2eVariance: number // for tie-breaking
+  didNotFinish?: boolean // the race was cancelled before this model answered every clue
   rank: number
 }
 
 // Race state for real-time updates
 
-export type RaceStatus = "pending" | "running" | "completed" | "error"
+export type RaceStatus = "pending" | "running" | "completed" | "cancelled" | "error"
 
 export interface RaceState {
   raceId: string
@@ -131,6 +139,24 @@ export interface RaceState {
 
 export type WordleFeedback = "correct" | "present" | "absent"
 
+// Hard mode: "track" records guesses that ignore revealed hints, "enforce" also rejects them
+export type WordleHardMode = "off" | "track" | "enforce"
+
+// Host strategy: "fixed" picks the target word up front, "absurdle" keeps dodging guesses
+export type WordleHostMode = "fixed" | "absurdle"
+
+// WordleBot-style review of a single-board guess, measured against the answer list and the true feedback
+export interface GuessAnalysis {
+  candidatesBefore: number // answers still possible before the guess
+  candidatesAfter: number // answers still possible after its feedback
+  expectedBits: number // information the guess was expected to reveal
+  actualBits: number // information it did reveal: log2(before / after)
+  bestGuess: string // the most informative guess available
+  bestExpectedBits: number
+  skill: number // 0-100: expectedBits as a share of bestExpectedBits
+  luck: number // actualBits - expectedBits: positive when the feedback was kinder than average
+}
+
 export interface WordleGuess {
   modelId: string
   guessIndex: number // 0-5
@@ -142,32 +168,60 @@ export interface WordleGuess {
   e2eMs: number
   ttftMs?: number
   correct: boolean // true if this guess was correct
-  tokenUsage?: {
-    prompt: number
-    completion: number
-    total: number
-  }
+  tokenUsage?: TokenUsage
+  hardModeViolations?: string[] // Revealed hints this guess ignored (only when hard mode is on)
+  rejected?: boolean // Hard mode "enforce": guess was refused, used a turn and got no feedback
+  invalid?: boolean // No valid dictionary word after every retry: used a turn and got no feedback
+  invalidReason?: string // Why the last attempt was refused, e.g. "not in word list"
+  attempts?: number // Model calls made this turn (more than 1 when invalid answers were retried)
+  boardFeedback?: WordleFeedback[][] // Multi-board: feedback per board, empty for boards already solved
+  solvedBoards?: number[] // Multi-board: indices of the boards this guess solved
+  shownFeedback?: WordleFeedback[] // Lying feedback: what the model was told (feedback stays truthful)
+  lieIndex?: number // Lying feedback: position of the tile that lied
+  analysis?: GuessAnalysis // Single-board guesses that got feedback
+  inconsistencies?: string[] // Hints shown earlier that this guess contradicts: empty if it respected them all, missing if there was nothing to check
 }
 
 export interface WordleGameState {
   modelId: string
   guesses: WordleGuess[]
   solved: boolean
-  solvedAtGuess?: number // which guess number solved it (1-6)
+  solvedAtGuess?: number // which guess number solved it (1-maxGuesses)
   timeToSolveMs?: number // total time from start to solve
-  failed: boolean // true if didn't solve in 6 guesses
+  failed: boolean // true if didn't solve within the guess limit
 }
 
 export interface WordleConfig {
   id: string
   name: string
   models: ModelConfig[]
-  targetWord: string // the word to solve (not revealed to frontend initially)
-  wordLength: number // always 5
-  maxGuesses: number // always 6
+  targetWord: string // the word to solve (not revealed to frontend initially, empty with the absurdle host)
+  wordLength: number // 4-8, default 5
+  maxGuesses: number // default 6, 0 = unlimited (stops at UNLIMITED_GUESS_CAP)
+  hardMode?: WordleHardMode // default "off"
+  boardCount?: number // 1 (Wordle), 2 (Dordle), 4 (Quordle) or 8 (Octordle), default 1
+  targetWords?: string[] // Multi-board: one word per board, targetWord is the first
+  host?: WordleHostMode // default "fixed"
+  lyingFeedback?: boolean // Fibble-style: one tile per feedback row shown to the model is wrong
+  seed?: number // seeds word selection and the lies so a race can be replayed exactly
+  daily?: string // UTC date (YYYY-MM-DD) when playing the daily word, seed is derived from it
+  invalidGuessRetries?: number // extra attempts per turn after an invalid answer, default 2
   createdAt: number
 }
 
+// Optional race settings passed from the setup form to the stream route
+export interface WordleRaceOptions {
+  hardMode?: WordleHardMode
+  wordLength?: number
+  maxGuesses?: number
+  boardCount?: number
+  host?: WordleHostMode
+  lyingFeedback?: boolean
+  seed?: number
+  daily?: boolean
+  invalidGuessRetries?: number
+}
+
 export interface WordleState {
   gameId: string
   status: RaceStatus
@@ -180,20 +234,35 @@ export interface WordleModelResult {
   modelId: string
   modelName: string
   solved: boolean
-  guessCount: number // 1-6, or 6 if failed
+  guessCount: number // guess that solved it, or guesses made if failed
   timeToSolveMs?: number // undefined if failed
   rank: number
   closenessScore?: number // For failed attempts: how close they got (based on last guess)
   correctLetters?: number // Number of correct letters in correct positions from last guess
   presentLetters?: number // Number of correct letters in wrong positions from last guess
   totalTokens?: number // Total tokens used across all guesses
+  reasoningTokens?: number // Part of totalTokens spent on hidden reasoning (when the provider reports it)
+  cachedPromptTokens?: number // Prompt tokens served from the provider's cache (when reported)
   totalCost?: number // Estimated cost in USD (if available)
   didNotFinish?: boolean // true if race ended early and model was still running
+  hardModeViolations?: number // Guesses that ignored revealed hints (only when hard mode is on)
+  invalidGuesses?: number // Turns lost to invalid answers
+  boardsSolved?: number // Multi-board: how many boards were solved (solved = all of them)
+  hostWord?: string // Absurdle: the word the host ended up with against this model
+  avgSkill?: number // Mean GuessAnalysis.skill over analyzed guesses
+  avgLuck?: number // Mean GuessAnalysis.luck in bits
+  guessAnalysis?: Array<GuessAnalysis & { word: string }> // One per analyzed guess, in order
+  consistencyRate?: number // 0-100: share of guesses that respected every hint shown so far
+  honestAvgGuesses?: number // Lying feedback: the model's average in the honest benchmark, when played on its settings
 }
 
 export interface WordleRaceResult {
   gameId: string
-  targetWord: string
+  targetWord: string // Absurdle: the word the host was forced into by the top-ranked model
+  targetWords?: string[] // Multi-board: every board's word
+  lyingFeedback?: boolean // models were shown one wrong tile per feedback row
+  seed?: number // seed the word(s) and lies were drawn from - replaying with it gives the same race
+  daily?: string // UTC date of the daily word, if this was one
   modelResults: WordleModelResult[]
   winner?: string // modelId
 }
@@ -8,12 +8,29 @@ import type {
   WordleGameState,
   WordleModelResult,
   WordleRaceResult,
+  WordleFeedback,
   Clue,
 } from "./types"
 import { runModelOnClue } from "./ai-runner"
-import { generateWordlePrompt } from "./prompts"
-import { computeWordleFeedback, extractWordleGuess, calculateClosenessScore, calculateEstimatedCost, rankWordleResults } from "./wordle-utils"
-import { isValidWord } from "./wordle-words"
+import { generateWordlePrompt, type InvalidGuessAttempt } from "./prompts"
+import {
+  computeWordleFeedback,
+  extractWordleGuess,
+  calculateClosenessScore,
+  rankWordleResults,
+  findHardModeViolations,
+  findConsistencyViolations,
+  calculateConsistencyRate,
+  sumTokenUsage,
+  getGuessLimit,
+  chooseAdversarialFeedback,
+  applyLyingFeedback,
+  DEFAULT_INVALID_GUESS_RETRIES,
+} from "./wordle-utils"
+import { findInvalidGuessReason, getAllWords } from "./wordle-words"
+import { createSeededRandom, hashString } from "./random"
+import { analyzeGuess, summarizeGuessAnalysis } from "./guess-analysis"
+import { calculateEstimatedCost, toBillableUsage } from "./pricing"
 
 export interface WordleCallbacks {
   onStateChange?: (state: WordleState) => void
@@ -24,6 +41,99 @@ export interface WordleCallbacks {
   onRaceComplete?: (result: WordleRaceResult) => void
 }
 
+export interface GuessTurn {
+  word: string // the accepted guess, or the last refused answer ("" if nothing parsable)
+  invalidReason?: string // set when every attempt this turn was refused
+  aborted?: boolean // the race was cancelled mid-turn, nothing should be recorded
+  attempts: number
+  tRequest: number
+  tFirst?: number
+  tLast: number
+  e2eMs: number // summed over every attempt
+  ttftMs?: number
+  tokenUsage?: WordleGuess["tokenUsage"]
+}
+
+/**
+ * Ask a model for one turn's guess
+ * Answers that aren't a new dictionary word are refused and the model is re-prompted,
+ * up to `retries` extra times. The turn is spent either way - nothing is guessed on its behalf.
+ */
+export async function requestValidGuess(options: {
+  raceId: string
+  model: ModelConfig
+  guessIndex: number
+  wordLength: number
+  previousWords: Set<string>
+  retries: number
+  answer: string
+  acceptedWords?: string[] // the game's own targets, playable even when outside the dictionary
+  buildPrompt: (invalidAttempts: InvalidGuessAttempt[]) => string
+  onModelProgress?: WordleCallbacks["onModelProgress"]
+  signal?: AbortSignal
+}): Promise<GuessTurn> {
+  const { model, guessIndex, wordLength, previousWords, onModelProgress } = options
+  const invalidAttempts: InvalidGuessAttempt[] = []
+  let turn: GuessTurn | undefined
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    // Create a synthetic clue for the AI runner
+    const syntheticClue: Clue = {
+      id: `wordle-guess-${guessIndex}`,
+      clue: options.buildPrompt(invalidAttempts),
+      answer: options.answer,
+      length: wordLength,
+      caseRule: "lower",
+    }
+
+    // Run the model
+    const result = await runModelOnClue({
+      raceId: options.raceId,
+      roundId: "wordle-round",
+      clue: syntheticClue,
+      model,
+      mode: "plain",
+      maxTokens: 10, // Wordle guesses should be short
+      timeoutMs: 10000, // 10 second timeout per guess
+      signal: options.signal,
+      onModelProgress: onModelProgress
+        ? (modelId: string, clueId: string, reasoning: string) => {
+            // Convert clueId to guessIndex (clueId format: "wordle-guess-N")
+            const match = clueId.match(/wordle-guess-(\d+)/)
+            const extractedGuessIndex = match ? parseInt(match[1], 10) : guessIndex
+            onModelProgress(modelId, extractedGuessIndex, reasoning)
+          }
+        : undefined,
+    })
+
+    const word = (extractWordleGuess(result.attempt.output, wordLength) || "").toLowerCase().trim()
+    const invalidReason = findInvalidGuessReason(word, previousWords, wordLength, options.acceptedWords) ?? undefined
+    const tokenUsage = sumTokenUsage([turn?.tokenUsage, result.attempt.tokenUsage])
+
+    turn = {
+      word,
+      invalidReason,
+      attempts: attempt + 1,
+      tRequest: turn?.tRequest ?? result.attempt.tRequest,
+      tFirst: turn?.tFirst ?? result.attempt.tFirst,
+      tLast: result.attempt.tLast,
+      e2eMs: (turn?.e2eMs ?? 0) + result.attempt.e2eMs,
+      ttftMs: turn?.ttftMs ?? result.attempt.ttftMs,
+      tokenUsage,
+    }
+
+    if (result.aborted) {
+      turn.aborted = true
+      break
+    }
+    if (!invalidReason) break
+    console.warn(`[wordle] Model ${model.id} gave an invalid answer "${result.attempt.output}": ${invalidReason}`)
+    invalidAttempts.push({ word, reason: invalidReason })
+  }
+
+  return turn!
+}
+
 /**
  * Wordle race engine
  */
@@ -32,11 +142,15 @@ export class WordleEngine {
   private callbacks: WordleCallbacks
   private state: WordleState
   private modelStates: Map<string, WordleGameState>
+  private hostWords: Map<string, string> // Absurdle: word the host ended up with per model
   private gameStartTime: number
+  private signal?: AbortSignal // cancels the race, unfinished models are reported as didNotFinish
 
-  constructor(config: WordleConfig, callbacks: WordleCallbacks = {}) {
+  constructor(config: WordleConfig, callbacks: WordleCallbacks = {}, signal?: AbortSignal) {
     this.config = config
     this.callbacks = callbacks
+    this.signal = signal
+    this.hostWords = new Map()
 
     // Initialize model states
     this.modelStates = new Map()
@@ -63,7 +177,11 @@ export class WordleEngine {
    */
   async start(): Promise<WordleRaceResult> {
     console.log(`[wordle] Starting Wordle race ${this.config.id} with ${this.config.models.length} models`)
-    console.log(`[wordle] Target word: ${this.config.targetWord}`)
+    if (this.config.host === "absurdle") {
+      console.log(`[wordle] Absurdle host: no target word until the models force one`)
+    } else {
+      console.log(`[wordle] Target word: ${this.config.targetWord}`)
+    }
 
     const startTime = Date.now()
     this.gameStartTime = startTime
@@ -83,13 +201,16 @@ export class WordleEngine {
 
     const result: WordleRaceResult = {
       gameId: this.config.id,
-      targetWord: this.config.targetWord,
+      targetWord: modelResults[0]?.hostWord ?? this.config.targetWord,
+      lyingFeedback: this.config.lyingFeedback || undefined,
+      seed: this.config.seed,
+      daily: this.config.daily,
       modelResults,
       winner,
     }
 
     this.updateState({
-      status: "completed",
+      status: this.signal?.aborted ? "cancelled" : "completed",
       completedAt: Date.now(),
     })
 
@@ -97,7 +218,7 @@ export class WordleEngine {
       this.callbacks.onRaceComplete(result)
     }
 
-    console.log(`[wordle] Race completed! Winner: ${modelResults[0]?.modelName}`)
+    console.log(this.signal?.aborted ? `[wordle] Race ${this.config.id} cancelled` : `[wordle] Race completed! Winner: ${modelResults[0]?.modelName}`)
 
     return result
   }
@@ -107,155 +228,125 @@ export class WordleEngine {
    */
   private async runModelGame(model: ModelConfig): Promise<void> {
     const gameState = this.modelStates.get(model.id)!
-    const previousGuesses: Array<{ word: string; feedback: Array<"correct" | "present" | "absent"> }> = []
+    const previousGuesses: Array<{
+      word: string
+      feedback: Array<"correct" | "present" | "absent">
+      rejected?: boolean
+      hardModeViolations?: string[]
+      invalid?: boolean
+      invalidReason?: string
+    }> = []
+    const hardMode = this.config.hardMode ?? "off"
+    const wordLength = this.config.wordLength
+    const guessLimit = getGuessLimit(this.config.maxGuesses)
+
+    // Absurdle host: every word is a candidate until feedback rules it out
+    const absurdle = this.config.host === "absurdle"
+    let candidates = absurdle ? getAllWords(wordLength) : []
+    const scoreGuess = (word: string): { feedback: WordleFeedback[]; correct: boolean } => {
+      if (absurdle) {
+        const chosen = chooseAdversarialFeedback(word, candidates)
+        candidates = chosen.candidates
+        return { feedback: chosen.feedback, correct: chosen.feedback.every((f) => f === "correct") }
+      }
+      return {
+        feedback: computeWordleFeedback(word, this.config.targetWord),
+        correct: word === this.config.targetWord.toLowerCase(),
+      }
+    }
+
+    // Lying feedback: each model gets its own seeded lies so parallel games stay reproducible
+    const lieRandom = this.config.lyingFeedback
+      ? createSeededRandom(hashString(`${this.config.seed ?? 0}:${model.id}`))
+      : undefined
+
+    for (let guessIndex = 0; guessIndex < guessLimit; guessIndex++) {
+      if (this.signal?.aborted) break
 
-    for (let guessIndex = 0; guessIndex < this.config.maxGuesses; guessIndex++) {
       // Notify model start
       if (this.callbacks.onModelStart) {
         this.callbacks.onModelStart(model.id, guessIndex)
       }
 
-      // Generate prompt with previous guesses (use custom prompt if available)
-      const prompt = generateWordlePrompt(
-        this.config.targetWord,
-        previousGuesses,
-        model.customPrompt
-      )
-
-      // Create a synthetic clue for the AI runner
-      const syntheticClue: Clue = {
-        id: `wordle-guess-${guessIndex}`,
-        clue: prompt,
-        answer: this.config.targetWord,
-        length: 5,
-        caseRule: "lower",
-      }
-
-      // Run the model
-      const result = await runModelOnClue({
+      // Ask for a dictionary word, re-prompting after invalid answers (use custom prompt if available)
+      const previousWords = new Set(previousGuesses.map((g) => g.word.toLowerCase()).filter(Boolean))
+      const turn = await requestValidGuess({
         raceId: this.config.id,
-        roundId: "wordle-round",
-        clue: syntheticClue,
         model,
-        mode: "plain",
-        maxTokens: 10, // Wordle guesses should be short
-        timeoutMs: 10000, // 10 second timeout per guess
-        onModelProgress: this.callbacks.onModelProgress
-          ? (modelId: string, clueId: string, reasoning: string) => {
-              // Convert clueId to guessIndex (clueId format: "wordle-guess-N")
-              const match = clueId.match(/wordle-guess-(\d+)/)
-              const extractedGuessIndex = match ? parseInt(match[1], 10) : guessIndex
-              this.callbacks.onModelProgress!(modelId, extractedGuessIndex, reasoning)
-            }
-          : undefined,
+        guessIndex,
+        wordLength,
+        previousWords,
+        retries: this.config.invalidGuessRetries ?? DEFAULT_INVALID_GUESS_RETRIES,
+        answer: this.config.targetWord,
+        acceptedWords: this.config.targetWord ? [this.config.targetWord.toLowerCase()] : undefined,
+        buildPrompt: (invalidAttempts) => generateWordlePrompt(
+          this.config.targetWord,
+          previousGuesses,
+          model.customPrompt,
+          { hardMode, wordLength, maxGuesses: this.config.maxGuesses, lyingFeedback: this.config.lyingFeedback, invalidAttempts },
+        ),
+        onModelProgress: this.callbacks.onModelProgress,
+        signal: this.signal,
       })
+      if (turn.aborted) break
+      const guessedWord = turn.word
 
-      // Use timing from the attempt result
-      const tRequest = result.attempt.tRequest
-      const tLast = result.attempt.tLast
-      const e2eMs = result.attempt.e2eMs
-
-      // Extract the guessed word
-      let guessedWord = extractWordleGuess(result.attempt.output) || result.attempt.normalized || ""
-
-      // Normalize to lowercase for comparison
-      guessedWord = guessedWord.toLowerCase().trim()
-
-      // Check if this word has already been guessed
-      const previousWords = new Set(previousGuesses.map(g => g.word.toLowerCase()))
-      const isDuplicate = previousWords.has(guessedWord)
-      
-      if (isDuplicate) {
-        console.warn(`[wordle] Model ${model.id} repeated previous guess: "${guessedWord}". Previous guesses: ${Array.from(previousWords).join(", ")}`)
-        // Mark this as an invalid guess - we'll treat it as if the model failed to produce a valid guess
-        guessedWord = ""
+      if (turn.invalidReason) {
+        console.warn(`[wordle] Model ${model.id} made no valid guess after ${turn.attempts} attempt(s): "${guessedWord}" (${turn.invalidReason})`)
       }
 
-      // Validate guess format
-      let validGuess = guessedWord.length === 5 && /^[a-z]{5}$/.test(guessedWord)
-      if (!validGuess && guessedWord) {
-        // Try to clean it up
-        const cleaned = guessedWord.toLowerCase().trim().slice(0, 5)
-        if (cleaned.length === 5 && /^[a-z]{5}$/.test(cleaned)) {
-          // But check again if it's a duplicate after cleaning
-          if (!previousWords.has(cleaned)) {
-            validGuess = true
-            guessedWord = cleaned
-          }
-        }
+      // Hard mode: check the guess reuses every hint revealed so far
+      const hardModeViolations = hardMode !== "off" && !turn.invalidReason ? findHardModeViolations(guessedWord, previousGuesses) : []
+      const rejected = hardMode === "enforce" && hardModeViolations.length > 0
+      if (hardModeViolations.length > 0) {
+        console.warn(`[wordle] Model ${model.id} broke hard mode with "${guessedWord}": ${hardModeViolations.join("; ")}${rejected ? " (rejected)" : ""}`)
       }
 
-      if (!validGuess || guessedWord.length !== 5) {
-        console.warn(`[wordle] Model ${model.id} produced invalid guess: "${result.attempt.output}"`)
-        // Use a fallback - generate a word that hasn't been guessed yet
-        // Try common Wordle starter words that haven't been used
-        const commonWords = ["crane", "slate", "adieu", "audio", "house", "mouse", "pound", "round", "sound", "found"]
-        let fallback = commonWords.find(w => !previousWords.has(w)) || guessedWord.slice(0, 5).padEnd(5, "a")
-        
-        // If fallback is still a duplicate, try to modify it
-        let attempts = 0
-        while (previousWords.has(fallback) && attempts < 10) {
-          // Try appending a different letter
-          const lastChar = fallback[fallback.length - 1]
-          const nextChar = String.fromCharCode(((lastChar.charCodeAt(0) - 97 + 1) % 26) + 97)
-          fallback = fallback.slice(0, 4) + nextChar
-          attempts++
-        }
-        
-        const feedback = computeWordleFeedback(fallback, this.config.targetWord)
-        const correct = fallback === this.config.targetWord.toLowerCase()
-
-        const guess: WordleGuess = {
-          modelId: model.id,
-          guessIndex,
-          word: fallback,
-          feedback,
-          tRequest,
-          tFirst: result.attempt.tFirst,
-          tLast,
-          e2eMs,
-          ttftMs: result.attempt.ttftMs,
-          correct,
-          tokenUsage: result.attempt.tokenUsage,
-        }
-
-        gameState.guesses.push(guess)
-        previousGuesses.push({ word: fallback, feedback })
-
-        if (this.callbacks.onGuessComplete) {
-          this.callbacks.onGuessComplete(guess)
-        }
-
-        if (correct) {
-          gameState.solved = true
-          gameState.solvedAtGuess = guessIndex + 1
-          gameState.timeToSolveMs = e2eMs
-          break
-        }
-
-        continue
-      }
+      // Check the guess against the feedback the model was shown (lies included)
+      const checkConsistency = !turn.invalidReason && previousGuesses.some((g) => g.feedback.length > 0)
+      const inconsistencies = checkConsistency ? findConsistencyViolations(guessedWord, previousGuesses) : undefined
 
-      // Compute feedback
-      const feedback = computeWordleFeedback(guessedWord, this.config.targetWord)
-      const correct = guessedWord.toLowerCase() === this.config.targetWord.toLowerCase()
+      // Compute feedback (invalid and rejected guesses get none)
+      const { feedback, correct } = turn.invalidReason || rejected ? { feedback: [], correct: false } : scoreGuess(guessedWord)
+      const lie = lieRandom && feedback.length > 0 && !correct ? applyLyingFeedback(feedback, lieRandom) : undefined
 
       const guess: WordleGuess = {
         modelId: model.id,
         guessIndex,
-        word: guessedWord.toLowerCase(),
+        word: guessedWord,
         feedback,
-        tRequest,
-        tFirst: result.attempt.tFirst,
-        tLast,
-        e2eMs,
-        ttftMs: result.attempt.ttftMs,
+        tRequest: turn.tRequest,
+        tFirst: turn.tFirst,
+        tLast: turn.tLast,
+        e2eMs: turn.e2eMs,
+        ttftMs: turn.ttftMs,
         correct,
-        tokenUsage: result.attempt.tokenUsage,
+        tokenUsage: turn.tokenUsage,
+        hardModeViolations: hardModeViolations.length > 0 ? hardModeViolations : undefined,
+        rejected: rejected || undefined,
+        invalid: turn.invalidReason ? true : undefined,
+        invalidReason: turn.invalidReason,
+        attempts: turn.attempts > 1 ? turn.attempts : undefined,
+        shownFeedback: lie?.shownFeedback,
+        lieIndex: lie?.lieIndex,
+        inconsistencies,
+        // Graded on the true feedback, so lies don't count against the model
+        analysis: analyzeGuess(gameState.guesses, guessedWord, feedback, {
+          wordLength,
+          hardMode,
+          extraCandidates: absurdle ? undefined : [this.config.targetWord.toLowerCase()],
+        }),
       }
 
       gameState.guesses.push(guess)
-      previousGuesses.push({ word: guessedWord.toLowerCase(), feedback })
+      previousGuesses.push({
+        word: guessedWord,
+        feedback: lie?.shownFeedback ?? feedback,
+        rejected: guess.rejected,
+        hardModeViolations: guess.hardModeViolations,
+        invalid: guess.invalid,
+        invalidReason: guess.invalidReason,
+      })
 
       // Update state
       this.modelStates.set(model.id, gameState)
@@ -269,7 +360,7 @@ export class WordleEngine {
       if (correct) {
         gameState.solved = true
         gameState.solvedAtGuess = guessIndex + 1
-        gameState.timeToSolveMs = e2eMs
+        gameState.timeToSolveMs = turn.e2eMs
         this.modelStates.set(model.id, gameState)
 
         if (this.callbacks.onModelComplete) {
@@ -279,8 +370,12 @@ export class WordleEngine {
       }
     }
 
-    // Mark as failed if not solved
-    if (!gameState.solved) {
+    if (absurdle && candidates.length > 0) {
+      this.hostWords.set(model.id, candidates[0])
+    }
+
+    // Mark as failed if not solved - a cancelled game is left unfinished instead
+    if (!gameState.solved && !this.signal?.aborted) {
       gameState.failed = true
       this.modelStates.set(model.id, gameState)
 
@@ -305,46 +400,51 @@ export class WordleEngine {
       let correctLetters: number | undefined
       let presentLetters: number | undefined
 
-      if (!gameState.solved && gameState.guesses.length > 0) {
-        // Get the last guess to determine closeness
-        const lastGuess = gameState.guesses[gameState.guesses.length - 1]
-        const closeness = calculateClosenessScore(lastGuess.feedback)
+      // Get the last guess that got feedback to determine closeness
+      const lastScoredGuess = [...gameState.guesses].reverse().find((g) => g.feedback.length > 0)
+      if (!gameState.solved && lastScoredGuess) {
+        const closeness = calculateClosenessScore(lastScoredGuess.feedback)
         closenessScore = closeness.totalScore
         correctLetters = closeness.correctCount
         presentLetters = closeness.presentCount
       }
 
-      // Calculate total tokens and cost
-      let totalTokens = 0
-      let totalCost = 0
-      let totalPromptTokens = 0
-      let totalCompletionTokens = 0
-
-      gameState.guesses.forEach((guess) => {
-        if (guess.tokenUsage) {
-          totalTokens += guess.tokenUsage.total
-          totalPromptTokens += guess.tokenUsage.prompt
-          totalCompletionTokens += guess.tokenUsage.completion
-        }
-      })
-
-      if (totalPromptTokens > 0 || totalCompletionTokens > 0) {
-        // Use baseModelId for cost calculation if this is a custom entry
-        const modelIdForCost = model.baseModelId || model.id
-        totalCost = calculateEstimatedCost(modelIdForCost, totalPromptTokens, totalCompletionTokens)
-      }
+      // Calculate total tokens and cost (reasoning and cached tokens are priced at their own rates)
+      const usage = sumTokenUsage(gameState.guesses.map((g) => g.tokenUsage))
+      const totalTokens = usage?.total ?? 0
+      // Custom entries keep their base model's modelString, so they're priced the same
+      const totalCost = usage && (usage.prompt > 0 || usage.completion > 0)
+        ? calculateEstimatedCost(model, toBillableUsage(usage))
+        : 0
+
+      const hardModeViolations = this.config.hardMode && this.config.hardMode !== "off"
+        ? gameState.guesses.filter((g) => g.hardModeViolations && g.hardModeViolations.length > 0).length
+        : undefined
+      const invalidGuesses = gameState.guesses.filter((g) => g.invalid).length
+      const analyzed = gameState.guesses.filter((g) => g.analysis)
+      const { avgSkill, avgLuck } = summarizeGuessAnalysis(analyzed.map((g) => g.analysis))
 
       results.push({
         modelId: model.id,
         modelName: model.name || model.id,
         solved: gameState.solved,
-        guessCount: gameState.solved ? gameState.solvedAtGuess! : this.config.maxGuesses,
+        guessCount: gameState.solved ? gameState.solvedAtGuess! : gameState.guesses.length,
         timeToSolveMs: gameState.solved ? totalTime : undefined,
         closenessScore,
         correctLetters,
         presentLetters,
         totalTokens: totalTokens > 0 ? totalTokens : undefined,
+        reasoningTokens: usage?.reasoning,
+        cachedPromptTokens: usage?.cachedPrompt,
         totalCost: totalCost > 0 ? totalCost : undefined,
+        hardModeViolations,
+        invalidGuesses: invalidGuesses > 0 ? invalidGuesses : undefined,
+        hostWord: this.hostWords.get(model.id),
+        avgSkill,
+        avgLuck,
+        consistencyRate: calculateConsistencyRate(gameState.guesses),
+        guessAnalysis: analyzed.length > 0 ? analyzed.map((g) => ({ word: g.word, ...g.analysis! })) : undefined,
+        didNotFinish: !gameState.solved && !gameState.failed ? true : undefined,
         rank: 0, // Will be set after sorting
       })
     })
@@ -1,8 +1,50 @@
 // Wordle utility functions
 
-import type { WordleFeedback, WordleModelResult } from "./types"
+import type { TokenUsage, WordleFeedback, WordleGuess, WordleModelResult } from "./types"
 import { normalizeAnswer } from "./scoring"
-import { isValidWord } from "./wordle-words"
+
+// Kept free of the word lists (lib/wordle-words.ts) so client components can use it without
+// downloading the dictionaries
+
+export const DEFAULT_WORD_LENGTH = 5
+export const SUPPORTED_WORD_LENGTHS = [4, 5, 6, 7, 8]
+
+export function isSupportedWordLength(length: number): boolean {
+  return SUPPORTED_WORD_LENGTHS.includes(length)
+}
+
+export const DEFAULT_MAX_GUESSES = 6
+// "Unlimited" games (maxGuesses = 0) still stop here so a stuck model can't run forever
+export const UNLIMITED_GUESS_CAP = 30
+
+/**
+ * Resolve a configured guess limit to the number of guesses actually allowed
+ * 0 means unlimited, which is capped at UNLIMITED_GUESS_CAP
+ */
+export function getGuessLimit(maxGuesses: number): number {
+  return maxGuesses > 0 ? maxGuesses : UNLIMITED_GUESS_CAP
+}
+
+// Extra attempts a model gets within one turn after an invalid answer
+export const DEFAULT_INVALID_GUESS_RETRIES = 2
+export const MAX_INVALID_GUESS_RETRIES = 5
+
+// 1 = Wordle, 2 = Dordle, 4 = Quordle, 8 = Octordle
+export const SUPPORTED_BOARD_COUNTS = [1, 2, 4, 8]
+
+/**
+ * Standard guess limit for a board count (6 Wordle, 7 Dordle, 9 Quordle, 13 Octordle)
+ */
+export function getDefaultMaxGuesses(boardCount = 1): number {
+  return boardCount > 1 ? boardCount + 5 : DEFAULT_MAX_GUESSES
+}
+
+/**
+ * Format a guess limit for display ("6", or "∞" for unlimited)
+ */
+export function formatGuessLimit(maxGuesses: number): string {
+  return maxGuesses > 0 ? `${maxGuesses}` : "∞"
+}
 
 /**
  * Compute Wordle feedback for a guess against a target word
@@ -11,20 +53,21 @@ import { isValidWord } from "./wordle-words"
 export function computeWordleFeedback(guess: string, target: string): WordleFeedback[] {
   const normalizedGuess = guess.toLowerCase().trim()
   const normalizedTarget = target.toLowerCase().trim()
+  const length = normalizedTarget.length || DEFAULT_WORD_LENGTH
 
-  if (normalizedGuess.length !== 5 || normalizedTarget.length !== 5) {
+  if (normalizedGuess.length !== length || normalizedTarget.length !== length) {
     // Invalid input, return all absent
-    return Array(5).fill("absent" as WordleFeedback)
+    return Array(length).fill("absent" as WordleFeedback)
   }
 
-  const feedback: WordleFeedback[] = Array(5).fill("absent")
+  const feedback: WordleFeedback[] = Array(length).fill("absent")
   const targetLetters = normalizedTarget.split("")
   const guessLetters = normalizedGuess.split("")
   const usedTargetIndices = new Set<number>()
   const usedGuessIndices = new Set<number>()
 
   // First pass: mark correct positions (green)
-  for (let i = 0; i < 5; i++) {
+  for (let i = 0; i < length; i++) {
     if (guessLetters[i] === targetLetters[i]) {
       feedback[i] = "correct"
       usedTargetIndices.add(i)
@@ -33,12 +76,12 @@ export function computeWordleFeedback(guess: string, target: string): WordleFeed
   }
 
   // Second pass: mark present letters (yellow)
-  for (let i = 0; i < 5; i++) {
+  for (let i = 0; i < length; i++) {
     if (usedGuessIndices.has(i)) continue // Already marked as correct
 
     const guessLetter = guessLetters[i]
     // Find first unused occurrence in target
-    for (let j = 0; j < 5; j++) {
+    for (let j = 0; j < length; j++) {
       if (usedTargetIndices.has(j)) continue
       if (targetLetters[j] === guessLetter) {
         feedback[i] = "present"
@@ -54,14 +97,14 @@ export function computeWordleFeedback(guess: string, target: string): WordleFeed
 /**
  * Validate and normalize a Wordle guess
  */
-export function normalizeWordleGuess(raw: string): string | null {
+export function normalizeWordleGuess(raw: string, wordLength = DEFAULT_WORD_LENGTH): string | null {
   const normalized = normalizeAnswer(raw, "plain", "lower", false)
-  if (normalized.length !== 5) {
+  if (normalized.length !== wordLength) {
     return null
   }
-  // Check if it's a valid word (optional - could allow any 5-letter string)
-  // For now, we'll be lenient and allow any 5-letter lowercase string
-  if (!/^[a-z]{5}$/.test(normalized)) {
+  // Check if it's a valid word (optional - could allow any string of the right length)
+  // For now, we'll be lenient and allow any lowercase string of the right length
+  if (!/^[a-z]+$/.test(normalized)) {
     return null
   }
   return normalized
@@ -70,24 +113,248 @@ export function normalizeWordleGuess(raw: string): string | null {
 /**
  * Extract word from model output for Wordle
  */
-export function extractWordleGuess(output: string): string | null {
-  // Try to extract a 5-letter word from the output
+export function extractWordleGuess(output: string, wordLength = DEFAULT_WORD_LENGTH): string | null {
+  // Try to extract a word of the right length from the output
   const normalized = normalizeAnswer(output, "plain", "lower", false)
   
-  // Look for exactly 5 letters
-  const match = normalized.match(/[a-z]{5}/)
+  // Look for exactly wordLength letters
+  const match = normalized.match(new RegExp(`[a-z]{${wordLength}}`))
   if (match) {
     return match[0]
   }
   
-  // If normalized is exactly 5 chars, use it
-  if (normalized.length === 5 && /^[a-z]{5}$/.test(normalized)) {
+  // If normalized is exactly wordLength chars, use it
+  if (normalized.length === wordLength && /^[a-z]+$/.test(normalized)) {
     return normalized
   }
   
   return null
 }
 
+function ordinal(n: number): string {
+  const suffixes: Record<number, string> = { 1: "st", 2: "nd", 3: "rd" }
+  return `${n}${suffixes[n] || "th"}`
+}
+
+/**
+ * Check a guess against the hints revealed by previous guesses (Wordle "hard mode").
+ * Green letters must stay in place and yellow letters must be reused.
+ * Returns a list of human-readable violations, empty if the guess is allowed.
+ */
+export function findHardModeViolations(
+  guess: string,
+  previousGuesses: Array<{ word: string; feedback: WordleFeedback[] }>,
+): string[] {
+  const normalizedGuess = guess.toLowerCase().trim()
+  const requiredPositions = new Map<number, string>()
+  const requiredCounts = new Map<string, number>()
+
+  previousGuesses.forEach(({ word, feedback }) => {
+    const revealedCounts = new Map<string, number>()
+    word.toLowerCase().split("").forEach((letter, i) => {
+      if (feedback[i] === "correct") {
+        requiredPositions.set(i, letter)
+      }
+      if (feedback[i] === "correct" || feedback[i] === "present") {
+        revealedCounts.set(letter, (revealedCounts.get(letter) ?? 0) + 1)
+      }
+    })
+    revealedCounts.forEach((count, letter) => {
+      requiredCounts.set(letter, Math.max(requiredCounts.get(letter) ?? 0, count))
+    })
+  })
+
+  const violations: string[] = []
+
+  Array.from(requiredPositions.entries())
+    .sort(([a], [b]) => a - b)
+    .forEach(([i, letter]) => {
+      if (normalizedGuess[i] !== letter) {
+        violations.push(`${ordinal(i + 1)} letter must be ${letter.toUpperCase()}`)
+      }
+    })
+
+  requiredCounts.forEach((count, letter) => {
+    const guessCount = normalizedGuess.split("").filter((l) => l === letter).length
+    if (guessCount < count) {
+      violations.push(
+        count > 1
+          ? `Guess must contain ${count} ${letter.toUpperCase()}s`
+          : `Guess must contain ${letter.toUpperCase()}`,
+      )
+    }
+  })
+
+  return violations
+}
+
+/**
+ * Check a guess against everything revealed by previous guesses, whether or not hard mode is on.
+ * Absent letters must not come back, green letters must stay in place and yellow letters must be
+ * reused somewhere new. Rows without feedback (invalid or rejected turns) are skipped.
+ * Returns a list of human-readable inconsistencies, empty if the guess respects every hint.
+ */
+export function findConsistencyViolations(
+  guess: string,
+  previousGuesses: Array<{ word: string; feedback: WordleFeedback[] }>,
+): string[] {
+  const normalizedGuess = guess.toLowerCase().trim()
+  const rows = previousGuesses.filter((g) => g.feedback.length === normalizedGuess.length)
+  const violations = new Set<string>()
+  const countIn = (letter: string) => normalizedGuess.split("").filter((l) => l === letter).length
+
+  rows.forEach(({ word, feedback }) => {
+    const letters = word.toLowerCase().split("")
+    const revealedCounts = new Map<string, number>()
+    letters.forEach((letter, i) => {
+      if (feedback[i] !== "absent") {
+        revealedCounts.set(letter, (revealedCounts.get(letter) ?? 0) + 1)
+      }
+    })
+
+    letters.forEach((letter, i) => {
+      if (feedback[i] === "correct" && normalizedGuess[i] !== letter) {
+        violations.add(`${ordinal(i + 1)} letter must be ${letter.toUpperCase()}`)
+      }
+      if (feedback[i] === "present" && normalizedGuess[i] === letter) {
+        violations.add(`${letter.toUpperCase()} can't be the ${ordinal(i + 1)} letter`)
+      }
+      // A grey tile caps the letter at the copies shown green or yellow in the same row
+      if (feedback[i] === "absent" && countIn(letter) > (revealedCounts.get(letter) ?? 0)) {
+        violations.add(
+          revealedCounts.has(letter)
+            ? `Guess can't contain more than ${revealedCounts.get(letter)} ${letter.toUpperCase()}`
+            : `Guess can't contain ${letter.toUpperCase()}`,
+        )
+      }
+    })
+
+    revealedCounts.forEach((count, letter) => {
+      if (countIn(letter) < count) {
+        violations.add(count > 1 ? `Guess must contain ${count} ${letter.toUpperCase()}s` : `Guess must contain ${letter.toUpperCase()}`)
+      }
+    })
+  })
+
+  return Array.from(violations)
+}
+
+/**
+ * Share of checked guesses (0-100) that respected every earlier hint, undefined if none were checked
+ */
+export function calculateConsistencyRate(guesses: WordleGuess[]): number | undefined {
+  const checked = guesses.filter((g) => g.inconsistencies !== undefined)
+  if (checked.length === 0) return undefined
+  return (checked.filter((g) => g.inconsistencies!.length === 0).length / checked.length) * 100
+}
+
+export interface BoardSummary {
+  solvedAtGuess: Array<number | undefined> // per board, which guess number solved it
+  boardsSolved: number
+  closenessScore: number
+  correctLetters: number
+  presentLetters: number
+}
+
+/**
+ * Summarize a multi-board game from the per-board feedback on each guess
+ * Closeness adds up the latest feedback on every board that is still unsolved
+ */
+export function summarizeBoards(
+  guesses: Array<Pick<WordleGuess, "boardFeedback">>,
+  boardCount: number,
+): BoardSummary {
+  const solvedAtGuess: Array<number | undefined> = Array(boardCount).fill(undefined)
+  const lastFeedback: WordleFeedback[][] = Array.from({ length: boardCount }, () => [])
+
+  guesses.forEach((guess, guessIndex) => {
+    guess.boardFeedback?.forEach((feedback, board) => {
+      if (feedback.length === 0 || board >= boardCount) return
+      lastFeedback[board] = feedback
+      if (solvedAtGuess[board] === undefined && feedback.every((f) => f === "correct")) {
+        solvedAtGuess[board] = guessIndex + 1
+      }
+    })
+  })
+
+  let closenessScore = 0
+  let correctLetters = 0
+  let presentLetters = 0
+  lastFeedback.forEach((feedback, board) => {
+    if (solvedAtGuess[board] !== undefined) return
+    const closeness = calculateClosenessScore(feedback)
+    closenessScore += closeness.totalScore
+    correctLetters += closeness.correctCount
+    presentLetters += closeness.presentCount
+  })
+
+  return {
+    solvedAtGuess,
+    boardsSolved: solvedAtGuess.filter((g) => g !== undefined).length,
+    closenessScore,
+    correctLetters,
+    presentLetters,
+  }
+}
+
+export interface AdversarialFeedback {
+  feedback: WordleFeedback[]
+  candidates: string[] // words still consistent with every feedback given so far
+}
+
+/**
+ * Absurdle host: split the remaining candidates by the feedback the guess would get
+ * and keep the largest group. Ties go to the least helpful feedback (lowest closeness),
+ * so the guess itself is only accepted once it is the last word left.
+ */
+export function chooseAdversarialFeedback(guess: string, candidates: string[]): AdversarialFeedback {
+  const groups = new Map<string, AdversarialFeedback>()
+  candidates.forEach((candidate) => {
+    const feedback = computeWordleFeedback(guess, candidate)
+    const key = feedback.join(",")
+    const group = groups.get(key)
+    if (group) {
+      group.candidates.push(candidate)
+    } else {
+      groups.set(key, { feedback, candidates: [candidate] })
+    }
+  })
+
+  let best: AdversarialFeedback | undefined
+  let bestScore = 0
+  for (const group of groups.values()) {
+    const score = calculateClosenessScore(group.feedback).totalScore
+    if (
+      !best ||
+      group.candidates.length > best.candidates.length ||
+      (group.candidates.length === best.candidates.length && score < bestScore)
+    ) {
+      best = group
+      bestScore = score
+    }
+  }
+
+  // Nothing left to split (only happens with an empty word list)
+  return best ?? { feedback: Array(guess.length).fill("absent" as WordleFeedback), candidates: [] }
+}
+
+const FEEDBACK_VALUES: WordleFeedback[] = ["correct", "present", "absent"]
+
+/**
+ * Fibble-style lie: change exactly one tile of a feedback row to a different value
+ * `random` should be seeded so the same run always tells the same lies
+ */
+export function applyLyingFeedback(
+  feedback: WordleFeedback[],
+  random: () => number,
+): { shownFeedback: WordleFeedback[]; lieIndex: number } {
+  const lieIndex = Math.floor(random() * feedback.length)
+  const alternatives = FEEDBACK_VALUES.filter((f) => f !== feedback[lieIndex])
+  const shownFeedback = [...feedback]
+  shownFeedback[lieIndex] = alternatives[Math.floor(random() * alternatives.length)]
+  return { shownFeedback, lieIndex }
+}
+
 /**
  * Calculate closeness score from Wordle feedback
  * Returns an object with correctCount, presentCount, and totalScore
@@ -121,66 +388,36 @@ export function calculateClosenessScore(feedback: WordleFeedback[]): {
 }
 
 /**
- * Estimate cost per token for a model (rough approximation in USD per 1M tokens)
- * These are approximate values and should be updated with actual pricing
+ * Add up token usage across calls, undefined if none reported any
+ * Reasoning and cached counts are only kept when at least one call reported them.
  */
-function getEstimatedCostPerMillionTokens(modelId: string): { input: number; output: number } {
-  // Rough cost estimates per 1M tokens (input/output)
-  // These are approximations and should be updated with actual pricing
-  const costMap: Record<string, { input: number; output: number }> = {
-    "gpt-5": { input: 2.5, output: 10 },
-    "gpt-5-mini": { input: 0.15, output: 0.6 },
-    "gpt-5-nano": { input: 0.05, output: 0.2 },
-    "gpt-5.1": { input: 2.5, output: 10 },
-    "gpt-5.1-high": { input: 2.5, output: 10 },
-    "gpt-5.1-medium": { input: 2.5, output: 10 },
-    "gpt-5.1-low": { input: 2.5, output: 10 },
-    "gpt-5.1-none": { input: 2.5, output: 10 },
-    "gpt-5.2": { input: 1.75, output: 14 },
-    "gpt-4.1-mini": { input: 0.15, output: 0.6 },
-    "gemini-2.5-flash": { input: 0.075, output: 0.3 },
-    "gemini-2.5-pro": { input: 1.25, output: 5 },
-    "claude-opus-4.6": { input: 5, output: 25 },
-    "claude-opus-4.6-thinking": { input: 5, output: 25 },
-    "claude-opus-4.5": { input: 5, output: 25 },
-    "claude-opus-4.5-thinking": { input: 5, output: 25 },
-    "claude-opus-4": { input: 15, output: 75 },
-    "claude-opus-4-thinking": { input: 15, output: 75 },
-    "claude-sonnet-4": { input: 3, output: 15 },
-    "claude-sonnet-4-thinking": { input: 3, output: 15 },
-    "claude-sonnet-4.5": { input: 3, output: 15 },
-    "claude-haiku-4.5": { input: 0.25, output: 1.25 },
-    "llama-3.3-70b": { input: 0.59, output: 0.79 }, // Groq pricing
-    "kimi-k2-0905": { input: 0.59, output: 0.79 }, // Groq pricing
-    "qwen3-32b": { input: 0.59, output: 0.79 }, // Groq pricing
-    "grok-4-fast": { input: 0.1, output: 0.1 },
-  }
+export function sumTokenUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const reported = usages.filter((u): u is TokenUsage => u !== undefined)
+  if (reported.length === 0) return undefined
 
-  return costMap[modelId] || { input: 1, output: 1 } // Default fallback
-}
-
-/**
- * Calculate estimated cost in USD from token usage
- */
-export function calculateEstimatedCost(
-  modelId: string,
-  promptTokens: number,
-  completionTokens: number,
-): number {
-  const costs = getEstimatedCostPerMillionTokens(modelId)
-  const inputCost = (promptTokens / 1_000_000) * costs.input
-  const outputCost = (completionTokens / 1_000_000) * costs.output
-  return inputCost + outputCost
+  const sum = (key: keyof TokenUsage) => reported.reduce((total, u) => total + (u[key] ?? 0), 0)
+  const optional = (key: "reasoning" | "cachedPrompt") => (reported.some((u) => u[key] !== undefined) ? sum(key) : undefined)
+  return {
+    prompt: sum("prompt"),
+    completion: sum("completion"),
+    total: sum("total"),
+    reasoning: optional("reasoning"),
+    cachedPrompt: optional("cachedPrompt"),
+  }
 }
 
 /**
  * Rank and sort WordleModelResults in-place.
+ * Multi-board results rank by boards solved first.
  * Solved models rank higher, then by guess count, then by time.
- * Failed models ranked by closeness score.
+ * Failed models ranked by closeness score, then by guesses made (so it works for any guess limit).
  * Mutates the array and assigns rank fields. Returns the same array.
  */
 export function rankWordleResults(results: WordleModelResult[]): WordleModelResult[] {
   results.sort((a, b) => {
+    const boardsA = a.boardsSolved ?? (a.solved ? 1 : 0)
+    const boardsB = b.boardsSolved ?? (b.solved ? 1 : 0)
+    if (boardsA !== boardsB) return boardsB - boardsA
     if (a.solved !== b.solved) return a.solved ? -1 : 1
 
     if (a.solved && b.solved) {
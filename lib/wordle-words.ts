@@ -1,77 +1,181 @@
-// Wordle word list - common 5-letter words
-// This includes both solution words and valid guess words
-
-const WORDLE_WORDS = [
-  "about", "above", "abuse", "actor", "acute", "admit", "adopt", "adult", "after", "again",
-  "agent", "agree", "ahead", "alarm", "album", "alert", "alien", "align", "alike", "alive",
-  "allow", "alone", "along", "alter", "among", "anger", "angle", "angry", "apart", "apple",
-  "apply", "arena", "argue", "arise", "array", "arrow", "aside", "asset", "avoid", "awake",
-  "aware", "badly", "baker", "bases", "basic", "beach", "began", "begin", "being", "below",
-  "bench", "billy", "birth", "black", "blade", "blame", "blank", "blast", "blaze", "bleed",
-  "bless", "blind", "block", "blood", "bloom", "blown", "blues", "board", "boast", "bonus",
-  "boost", "booth", "bound", "brain", "brand", "brass", "brave", "bread", "break", "breed",
-  "brick", "bride", "brief", "bring", "broad", "broke", "brown", "brush", "buddy", "build",
-  "built", "bunch", "burst", "buyer", "cable", "calif", "camel", "canal", "candy", "canon",
-  "carry", "catch", "cause", "chain", "chair", "chaos", "charm", "chart", "chase", "cheap",
-  "check", "cheek", "cheer", "chest", "chief", "child", "china", "chose", "chuck", "chunk",
-  "civic", "civil", "claim", "clash", "class", "clean", "clear", "click", "climb", "clock",
-  "close", "cloth", "cloud", "coach", "coast", "could", "count", "court", "cover", "crack",
-  "craft", "crash", "crazy", "cream", "crime", "crisp", "cross", "crowd", "crown", "crude",
-  "curve", "cycle", "daily", "dance", "dated", "dealt", "death", "debut", "delay", "delta",
-  "dense", "depth", "doing", "doubt", "dozen", "draft", "drama", "drank", "drawn", "dream",
-  "dress", "drill", "drink", "drive", "drove", "dying", "eager", "early", "earth", "eight",
-  "elbow", "elder", "elect", "elite", "empty", "enemy", "enjoy", "enter", "entry", "equal",
-  "error", "event", "every", "exact", "exist", "extra", "faith", "false", "fault", "fiber",
-  "field", "fifth", "fifty", "fight", "final", "first", "fixed", "flash", "fleet", "flesh",
-  "float", "flood", "floor", "flour", "fluid", "focus", "force", "forth", "forty", "forum",
-  "found", "frame", "frank", "fraud", "fresh", "front", "frost", "fruit", "fully", "funny",
-  "giant", "given", "glass", "globe", "glory", "going", "grace", "grade", "grain", "grand",
-  "grant", "grass", "grave", "great", "green", "gross", "group", "grown", "guard", "guess",
-  "guest", "guide", "guilt", "habit", "happy", "harry", "harsh", "haste", "hasty", "haven",
-  "heart", "heavy", "hence", "henry", "horse", "hotel", "house", "human", "humor", "hurry",
-  "image", "index", "inner", "input", "issue", "japan", "jimmy", "joint", "jones", "judge",
-  "known", "label", "large", "laser", "later", "laugh", "layer", "learn", "lease", "least",
-  "leave", "legal", "level", "light", "limit", "links", "lives", "local", "loose", "lower",
-  "lucky", "lunch", "lying", "magic", "major", "maker", "march", "maria", "match", "maybe",
-  "mayor", "meant", "media", "metal", "might", "minor", "minus", "mixed", "model", "money",
-  "month", "moral", "motor", "mount", "mouse", "mouth", "movie", "music", "needs", "never",
-  "newly", "night", "noble", "noise", "north", "noted", "novel", "nurse", "occur", "ocean",
-  "offer", "often", "order", "organ", "other", "ought", "outer", "owner", "paint", "panel",
-  "paper", "party", "peace", "peter", "phase", "phone", "photo", "piano", "piece", "pilot",
-  "pitch", "place", "plain", "plane", "plant", "plate", "point", "pound", "power", "press",
-  "price", "pride", "prime", "print", "prior", "prize", "proof", "proud", "prove", "queen",
-  "quick", "quiet", "quite", "radio", "raise", "range", "rapid", "ratio", "reach", "react",
-  "ready", "realm", "rebel", "refer", "relax", "reply", "rider", "ridge", "right", "rigid",
-  "rival", "river", "robin", "roger", "roman", "rough", "round", "route", "royal", "rural",
-  "scale", "scene", "scope", "score", "sense", "serve", "seven", "shall", "shape", "share",
-  "sharp", "sheet", "shelf", "shell", "shift", "shine", "shirt", "shock", "shoot", "shore",
-  "short", "shown", "sight", "since", "sixth", "sixty", "sized", "skill", "sleep", "slide",
-  "small", "smart", "smile", "smith", "smoke", "snake", "snowy", "solid", "solve", "sorry",
-  "sound", "south", "space", "spare", "speak", "speed", "spend", "spent", "split", "spoke",
-  "sport", "staff", "stage", "stake", "stand", "start", "state", "steam", "steel", "stick",
-  "still", "stock", "stone", "stood", "store", "storm", "story", "strip", "stuck", "study",
-  "stuff", "style", "sugar", "suite", "super", "sweet", "swift", "swing", "sword", "table",
-  "taken", "taste", "taxes", "teach", "teams", "teeth", "terry", "texas", "thank", "theft",
-  "their", "theme", "there", "these", "thick", "thing", "think", "third", "those", "three",
-  "threw", "throw", "thumb", "tiger", "tight", "times", "tired", "title", "today", "token",
-  "total", "touch", "tough", "tower", "track", "trade", "train", "treat", "trend", "trial",
-  "tribe", "trick", "tried", "tries", "troop", "truck", "truly", "trunk", "trust", "truth",
-  "twice", "under", "undue", "union", "unity", "until", "upper", "upset", "urban", "usage",
-  "usual", "valid", "value", "video", "virus", "visit", "vital", "vocal", "voice", "waste",
-  "watch", "water", "wheel", "where", "which", "while", "white", "whole", "whose", "woman",
-  "women", "world", "worry", "worse", "worst", "worth", "would", "wound", "write", "wrong",
-  "wrote", "young", "yours", "youth", "yummy", "zebra", "zones"
-]
-
-export function getRandomWord(): string {
-  return WORDLE_WORDS[Math.floor(Math.random() * WORDLE_WORDS.length)]
+// Wordle dictionaries for 4- to 8-letter games
+// data/wordle-answers.json lists the words a game can be played on and data/wordle-guesses.json
+// the extra words only accepted as guesses, both grouped by length and then by commonness tier.
+// Five letters use the original Wordle lists (2,315 answers, 10,657 more allowed guesses, from the
+// MIT-licensed `wordle-words` package), plus any benchmark word (data/benchmark-words.json) they
+// only allow as a guess. Other lengths accept every word of the Letterpress dictionary
+// (`word-list` package), with answers drawn from its common uninflected words. Tiers come from the
+// SCOWL size a word first appears in (`wordlist-english` package): 20 or less, up to 50, or rarer.
+
+import answersJson from "@/data/wordle-answers.json"
+import guessesJson from "@/data/wordle-guesses.json"
+import type { WordleFeedback } from "./types"
+import { createSeededRandom, hashString } from "./random"
+import { DEFAULT_WORD_LENGTH, SUPPORTED_WORD_LENGTHS, computeWordleFeedback } from "./wordle-utils"
+
+// 1 = everyday word, 2 = less common, 3 = rare or obscure
+export type WordTier = 1 | 2 | 3
+
+interface Dictionary {
+  answers: string[] // sorted, for random picks and candidate lists
+  answerSet: Set<string>
+  tiers: Map<string, WordTier> // every allowed guess, answers included
+}
+
+// Words by length, then by tier
+type TieredWordFile = Record<string, Record<string, string[]>>
+
+function buildDictionaries(): Map<number, Dictionary> {
+  const answers = answersJson as TieredWordFile
+  const guesses = guessesJson as TieredWordFile
+  const dictionaries = new Map<number, Dictionary>()
+
+  SUPPORTED_WORD_LENGTHS.forEach((length) => {
+    const tiers = new Map<string, WordTier>()
+    const addWords = (file: TieredWordFile) =>
+      Object.entries(file[length] ?? {}).forEach(([tier, words]) => words.forEach((word) => tiers.set(word, Number(tier) as WordTier)))
+    addWords(guesses)
+    addWords(answers)
+    const answerWords = Object.values(answers[length] ?? {}).flat().sort()
+    dictionaries.set(length, { answers: answerWords, answerSet: new Set(answerWords), tiers })
+  })
+
+  return dictionaries
+}
+
+const DICTIONARIES = buildDictionaries()
+
+function getDictionary(length: number): Dictionary {
+  const dictionary = DICTIONARIES.get(length)
+  if (!dictionary) {
+    throw new Error(`Unsupported word length: ${length} (supported: ${SUPPORTED_WORD_LENGTHS.join(", ")})`)
+  }
+  return dictionary
+}
+
+/**
+ * Pick a random answer word, optionally only from the more common tiers
+ * Pass a seeded `random` to make the pick repeatable
+ */
+export function getRandomWord(
+  length = DEFAULT_WORD_LENGTH,
+  options: { maxTier?: WordTier; random?: () => number } = {},
+): string {
+  const words = getAllWords(length, options.maxTier)
+  const random = options.random ?? Math.random
+  return words[Math.floor(random() * words.length)]
+}
+
+/**
+ * Pick `count` distinct answer words from a seed
+ * The same seed, count and length always give the same words, so a race can be replayed
+ * without storing (or revealing) the words themselves
+ */
+export function getSeededWords(
+  seed: number,
+  count = 1,
+  length = DEFAULT_WORD_LENGTH,
+  maxTier?: WordTier,
+): string[] {
+  const random = createSeededRandom(seed)
+  const words: string[] = []
+  while (words.length < count) {
+    const word = getRandomWord(length, { maxTier, random })
+    if (!words.includes(word)) words.push(word)
+  }
+  return words
 }
 
+/**
+ * UTC date key (YYYY-MM-DD) identifying the daily word
+ */
+export function getDailyKey(date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Seed shared by everyone playing on a given day
+ */
+export function getDailySeed(dailyKey = getDailyKey()): number {
+  return hashString(`daily:${dailyKey}`)
+}
+
+/**
+ * Whether a word is accepted as a guess (any answer or guess-only word)
+ */
 export function isValidWord(word: string): boolean {
   const normalized = word.toLowerCase().trim()
-  return normalized.length === 5 && WORDLE_WORDS.includes(normalized)
+  return DICTIONARIES.get(normalized.length)?.tiers.has(normalized) ?? false
+}
+
+/**
+ * Whether a word can be picked as a game's answer
+ */
+export function isAnswerWord(word: string): boolean {
+  const normalized = word.toLowerCase().trim()
+  return DICTIONARIES.get(normalized.length)?.answerSet.has(normalized) ?? false
 }
 
-export function getAllWords(): string[] {
-  return [...WORDLE_WORDS]
+/**
+ * All answer words of a length, optionally only up to a commonness tier
+ */
+export function getAllWords(length = DEFAULT_WORD_LENGTH, maxTier?: WordTier): string[] {
+  const { answers, tiers } = getDictionary(length)
+  return maxTier ? answers.filter((word) => tiers.get(word)! <= maxTier) : [...answers]
+}
+
+/**
+ * Every word accepted as a guess for a length, answers included
+ */
+export function getAllowedGuesses(length = DEFAULT_WORD_LENGTH, maxTier?: WordTier): string[] {
+  const { tiers } = getDictionary(length)
+  return Array.from(tiers.entries())
+    .filter(([, tier]) => !maxTier || tier <= maxTier)
+    .map(([word]) => word)
+    .sort()
+}
+
+/**
+ * Check a parsed guess before it is scored
+ * Returns why the guess can't be played, or null if it is a valid new dictionary word
+ * `acceptedWords` (the game's targets) are allowed even when the dictionary lacks them
+ */
+export function findInvalidGuessReason(
+  word: string | null,
+  previousWords: Set<string>,
+  wordLength = DEFAULT_WORD_LENGTH,
+  acceptedWords: string[] = [],
+): string | null {
+  if (!word || word.length !== wordLength || !/^[a-z]+$/.test(word)) {
+    return `no ${wordLength}-letter word found`
+  }
+  if (previousWords.has(word)) {
+    return "already guessed"
+  }
+  if (!isValidWord(word) && !acceptedWords.includes(word)) {
+    return "not in word list"
+  }
+  return null
+}
+
+/**
+ * Dictionary words still consistent with every feedback row so far
+ * Searches the answer list by default, or every allowed guess with `pool: "guesses"`.
+ * Rows without feedback (invalid turns) are skipped.
+ */
+export function filterCandidates(
+  previousGuesses: Array<{ word: string; feedback: WordleFeedback[] }>,
+  wordLength = DEFAULT_WORD_LENGTH,
+  options: { pool?: "answers" | "guesses"; maxTier?: WordTier } = {},
+): string[] {
+  const words = options.pool === "guesses"
+    ? getAllowedGuesses(wordLength, options.maxTier)
+    : getAllWords(wordLength, options.maxTier)
+  const rows = previousGuesses.filter((g) => g.feedback.length === wordLength)
+
+  return words.filter((candidate) =>
+    rows.every(({ word, feedback }) =>
+      computeWordleFeedback(word, candidate).every((f, i) => f === feedback[i]),
+    ),
+  )
 }
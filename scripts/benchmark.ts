@@ -0,0 +1,646 @@
+#!/usr/bin/env bun
+/**
+ * Benchmark CLI - runs, resumes, cleans and reports on Wordle benchmarks, and races models live
+ *
+ * Usage:
+ *   bun scripts/benchmark.ts run                          # Every model against the 50 benchmark words
+ *   bun scripts/benchmark.ts run --quick                  # Quick test (5 words, 5 models)
+ *   bun scripts/benchmark.ts run --models "claude-*" --merge  # Re-run some models, keeping the others' results
+ *   bun scripts/benchmark.ts resume                       # Finish an interrupted run
+ *   bun scripts/benchmark.ts clean                        # Remove models with known bad data
+ *   bun scripts/benchmark.ts report                       # Leaderboard of a results file or stored run
+ *   bun scripts/benchmark.ts report --compare <base> [<head>]  # Regression diff against an earlier run
+ *   bun scripts/benchmark.ts race --word crane            # Race the flagship models live on one word
+ *   bun scripts/benchmark.ts list-models --providers baseline
+ *
+ * Filters:
+ *   --models a,b,claude-*   Model IDs, * matches anything
+ *   --providers a,b         Provider IDs (openrouter, baseline, ...)
+ *   --words SET             benchmark (default), quick (first 5), a .json word file, or a comma-separated list
+ *                           (not list-models)
+ *   --concurrency N         Games per model at once (run, resume; race: words at once)
+ *   --output FILE           Results file to work on (report: Markdown report, race and list-models: JSON)
+ *
+ * run and resume:
+ *   --parallel N            Models at once (default 1)
+ *   --max-guesses N         Guesses per game (0 = unlimited)
+ *   --invalid-retries N     Re-prompts per turn after an invalid word (default 2)
+ *   --trials N              Games per word and model (default 1)
+ *   --no-baselines          Skip the algorithmic solver baselines
+ *   --record FILE           Save every model stream to a cassette
+ *   --replay FILE           Re-run from a cassette without calling models
+ *   --merge (run only)      Keep results for models outside the filters
+ *
+ * report thresholds (defaults in lib/regression-report.ts):
+ *   --max-win-rate-drop N, --max-avg-guesses-increase N, --max-time-increase-pct N,
+ *   --max-cost-increase-pct N, --max-newly-failed N, --fail-on-removed, --json FILE
+ *
+ * Exits with 1 when a report crosses a regression threshold and 2 on usage errors.
+ */
+
+import { WordleEngine } from "../lib/wordle-engine"
+import { BASELINE_MODELS, DEFAULT_MODELS, isBaselineModel } from "../lib/constants"
+import { getModelProviderId } from "../lib/providers"
+import { getRandomWord } from "../lib/wordle-words"
+import { DEFAULT_MAX_GUESSES, DEFAULT_INVALID_GUESS_RETRIES, MAX_INVALID_GUESS_RETRIES } from "../lib/wordle-utils"
+import {
+  benchmarkModel,
+  buildBenchmarkResults,
+  remainingGames,
+  resolveWordSet,
+  restrictResults,
+  selectModels,
+  type BenchmarkRunInfo,
+  type GameSettings,
+} from "../lib/benchmark-runner"
+import { diffBenchmarkRuns } from "../lib/benchmark-diff"
+import {
+  DEFAULT_REGRESSION_THRESHOLDS,
+  buildRegressionReport,
+  formatRegressionMarkdown,
+  type RegressionThresholds,
+} from "../lib/regression-report"
+import { parseBenchmarkResults } from "../lib/benchmark-schema"
+import { isValidRunId, loadRunOrPublished, saveRun } from "../lib/run-store"
+import type { ModelConfig, WordleConfig, WordleGuess, WordleRaceResult } from "../lib/types"
+import type { BenchmarkModelResult, BenchmarkResults } from "../lib/benchmark-types"
+import * as fs from "fs"
+import * as path from "path"
+
+const DEFAULT_RESULTS_PATH = path.join(__dirname, "../data/benchmark-results.json")
+
+// Known bad data removed by `clean` when no filter is given
+const BAD_MODEL_IDS = [
+  "gpt-5.1-none", // Config bug: ran with thinking enabled
+  "gemini-2.5-pro", // Cached/fallback responses, 0 tokens
+  "gemini-3-pro-preview", // Cached/fallback responses, 0 tokens
+]
+
+// Raced by `race` when no model filter is given
+const FLAGSHIP_MODEL_IDS = ["claude-opus-4.6-thinking", "gpt-5.2", "gemini-3-pro-preview-thinking", "gpt-5.1-high"]
+
+// The models `run --quick` keeps, before baselines
+const QUICK_MODEL_COUNT = 5
+
+const DEFAULT_GAME_CONCURRENCY = 2
+
+// ── Arguments ────────────────────────────────────────────────
+
+const FILTER_FLAGS = ["--models", "--providers", "--words", "--output"]
+const RUN_FLAGS = [
+  "--parallel",
+  "--max-guesses",
+  "--invalid-retries",
+  "--trials",
+  "--no-baselines",
+  "--record",
+  "--replay",
+]
+const THRESHOLD_FLAGS = [
+  "--max-win-rate-drop",
+  "--max-avg-guesses-increase",
+  "--max-time-increase-pct",
+  "--max-cost-increase-pct",
+  "--max-newly-failed",
+]
+const SWITCHES = new Set(["--quick", "--merge", "--no-baselines", "--fail-on-removed"])
+
+interface Args {
+  positional: string[]
+  values: Map<string, string>
+  switches: Set<string>
+}
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(2)
+}
+
+function parseArgs(argv: string[], allowed: string[]): Args {
+  const args: Args = { positional: [], values: new Map(), switches: new Set() }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (!arg.startsWith("--")) {
+      args.positional.push(arg)
+      continue
+    }
+    if (!allowed.includes(arg)) fail(`Unknown option for this command: ${arg}`)
+    if (SWITCHES.has(arg)) {
+      args.switches.add(arg)
+      continue
+    }
+    const value = argv[++i]
+    if (value === undefined || value.startsWith("--")) fail(`${arg} needs a value`)
+    args.values.set(arg, value)
+  }
+  return args
+}
+
+function readList(args: Args, name: string): string[] | undefined {
+  const raw = args.values.get(name)
+  return raw?.split(",").map((item) => item.trim()).filter(Boolean)
+}
+
+function readInteger(args: Args, name: string, fallback: number, min: number, max = Infinity): number {
+  const raw = args.values.get(name)
+  if (raw === undefined) return fallback
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < min || value > max) {
+    fail(`${name} must be an integer${max < Infinity ? ` from ${min} to ${max}` : ` of at least ${min}`}`)
+  }
+  return value
+}
+
+function readThreshold(args: Args, name: string, fallback: number): number {
+  const raw = args.values.get(name)
+  if (raw === undefined) return fallback
+  const value = Number(raw)
+  if (!Number.isFinite(value) || value < 0) fail(`${name} must be a non-negative number`)
+  return value
+}
+
+// Usage errors from the lib helpers (unknown model, bad word file) exit like any other usage error
+function orFail<T>(load: () => T): T {
+  try {
+    return load()
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error))
+  }
+}
+
+function writeJson(filePath: string, data: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2))
+}
+
+// ── Models, words and results ────────────────────────────────
+
+// Every model the benchmark knows, baselines last
+function selectFromCatalog(args: Args, includeBaselines = true): ModelConfig[] {
+  const catalog = includeBaselines ? [...DEFAULT_MODELS, ...BASELINE_MODELS] : DEFAULT_MODELS
+  return orFail(() => selectModels(catalog, { modelIds: readList(args, "--models"), providers: readList(args, "--providers") }))
+}
+
+function readResultsFile(filePath: string): BenchmarkResults {
+  if (!fs.existsSync(filePath)) fail(`No results file at ${filePath}`)
+  return orFail(() => parseBenchmarkResults(JSON.parse(fs.readFileSync(filePath, "utf-8")), filePath))
+}
+
+// A results file, or a run ID from the run history store ("published" = data/benchmark-results.json)
+function loadResults(source: string): BenchmarkResults {
+  if (fs.existsSync(source)) return readResultsFile(source)
+  if (isValidRunId(source)) return orFail(() => loadRunOrPublished(source))
+  fail(`No results file or stored run: ${source}`)
+}
+
+// Results limited to the --models, --providers and --words filters
+function filterResults(results: BenchmarkResults, args: Args): BenchmarkResults {
+  const modelIds = readList(args, "--models")
+  const providers = readList(args, "--providers")
+  const words = args.values.has("--words") ? orFail(() => resolveWordSet(args.values.get("--words"))) : undefined
+  if (!modelIds && !providers && !words) return results
+
+  const kept = modelIds || providers ? orFail(() => selectModels(resultModels(results), { modelIds, providers })) : undefined
+  return restrictResults(results, { modelIds: kept?.map((m) => m.id), words })
+}
+
+// Result models with the provider they ran on, taken from their config (baselines are flagged in the results)
+function resultModels(results: BenchmarkResults): { id: string; provider?: string }[] {
+  const catalog = new Map([...DEFAULT_MODELS, ...BASELINE_MODELS].map((m) => [m.id, m]))
+  return results.models.map((m) => ({ id: m.id, provider: m.baseline ? "baseline" : catalog.get(m.id)?.provider }))
+}
+
+function readGameSettings(args: Args, fallback: Partial<GameSettings & { trials: number }> = {}) {
+  const settings: GameSettings = {
+    maxGuesses: readInteger(args, "--max-guesses", fallback.maxGuesses ?? DEFAULT_MAX_GUESSES, 0),
+    invalidGuessRetries: readInteger(
+      args,
+      "--invalid-retries",
+      fallback.invalidGuessRetries ?? DEFAULT_INVALID_GUESS_RETRIES,
+      0,
+      MAX_INVALID_GUESS_RETRIES
+    ),
+  }
+  return { settings, trials: readInteger(args, "--trials", fallback.trials ?? 1, 1) }
+}
+
+// Cassettes (lib/cassettes.ts): --record FILE saves every model stream, --replay FILE plays them back
+function configureCassettes(args: Args) {
+  const record = args.values.get("--record")
+  const replay = args.values.get("--replay")
+  if (record && replay) fail("--record and --replay can't be used together")
+  if (!record && !replay) return
+  process.env.CASSETTE_MODE = record ? "record" : "replay"
+  process.env.CASSETTE_PATH = record ?? replay
+  // Replayed benchmarks re-score as fast as possible unless CASSETTE_SPEED says otherwise
+  if (replay) process.env.CASSETTE_SPEED ??= "0"
+}
+
+function printLeaderboard(results: BenchmarkResults, limit = results.leaderboard.length) {
+  console.log("LEADERBOARD:")
+  console.log("-".repeat(70))
+  results.leaderboard.slice(0, limit).forEach((entry) => {
+    const rating = entry.rating !== undefined ? ` | Rating: ${entry.rating.toFixed(0)}` : ""
+    console.log(
+      `  ${String(entry.rank).padStart(2)}. ${entry.modelName.padEnd(35)} Score: ${entry.score.toFixed(1)} | ` +
+        `Win: ${entry.winRate.toFixed(1)}% | Guesses: ${entry.avgGuesses.toFixed(2)}${rating}`
+    )
+  })
+}
+
+// ── run and resume ───────────────────────────────────────────
+
+interface BenchmarkPlan {
+  models: ModelConfig[]
+  words: string[]
+  settings: GameSettings
+  trials: number
+  existing: BenchmarkModelResult[] // results kept from the output file
+  outputPath: string
+  concurrency: number
+  parallel: number
+}
+
+async function runPlan(plan: BenchmarkPlan, label: string) {
+  const { models, words, settings, trials, outputPath } = plan
+  const modelResults = [...plan.existing]
+  const startTime = Date.now()
+  const run = (partial: boolean): BenchmarkRunInfo => ({ startTime, settings, trials, partial })
+
+  console.log("\n" + "=".repeat(70))
+  console.log(`  WORDLE AI BENCHMARK${label}`)
+  console.log(`  ${words.length} words x ${models.length} models${trials > 1 ? ` x ${trials} trials` : ""}, ${settings.maxGuesses > 0 ? settings.maxGuesses : "unlimited"} guesses`)
+  console.log("=".repeat(70) + "\n")
+
+  const playedGames = (model: ModelConfig) => modelResults.find((m) => m.id === model.id)?.games ?? []
+  const pending = models.filter((model) => remainingGames(words, trials, playedGames(model)).length > 0)
+  console.log(`Models to benchmark: ${models.length}`)
+  console.log(`Already completed: ${models.length - pending.length}`)
+  console.log(`Remaining: ${pending.length}`)
+  console.log()
+
+  const setResult = (result: BenchmarkModelResult) => {
+    const index = modelResults.findIndex((m) => m.id === result.id)
+    if (index >= 0) modelResults[index] = result
+    else modelResults.push(result)
+  }
+
+  const queue = [...pending]
+  const worker = async () => {
+    while (queue.length > 0) {
+      const model = queue.shift()!
+      const initialGames = playedGames(model)
+      const prefix = plan.parallel > 1 ? `  [${model.name}]` : " "
+      console.log(`\n[${models.indexOf(model) + 1}/${models.length}] Benchmarking: ${model.name}`)
+      if (initialGames.length > 0) console.log(`  [Resuming from ${initialGames.length} completed games]`)
+
+      try {
+        const result = await benchmarkModel(model, {
+          words,
+          trials,
+          settings,
+          concurrency: plan.concurrency,
+          initialGames,
+          onGameStart: (word, trial) => {
+            console.log(`${prefix} [Starting] Word: "${word}"${trials > 1 ? ` (trial ${trial + 1}/${trials})` : ""}...`)
+          },
+          onGameComplete: (game, { completed, total }, partialResult) => {
+            const status = game.solved ? `SOLVED in ${game.guessCount}` : "FAILED"
+            console.log(`${prefix}   -> [${completed}/${total}] ${game.word}: ${status} (${game.timeMs}ms, ${game.tokens} tokens)`)
+            setResult(partialResult)
+            writeJson(outputPath, buildBenchmarkResults(modelResults, words, run(true)))
+          },
+        })
+        setResult(result)
+
+        const { stats } = result
+        console.log(`\n  Summary for ${model.name}:`)
+        console.log(`    Win Rate: ${stats.winRate.toFixed(1)}%${stats.winRateCI ? ` (95% CI ${stats.winRateCI[0].toFixed(1)}-${stats.winRateCI[1].toFixed(1)}%)` : ""}`)
+        console.log(`    Avg Guesses: ${stats.avgGuesses.toFixed(2)}`)
+        console.log(`    Median Time: ${stats.medianTimeMs.toFixed(0)}ms`)
+        console.log(`    Total Cost: $${stats.totalCost.toFixed(4)}`)
+      } catch (error) {
+        console.error(`Failed to benchmark ${model.name}:`, error)
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(plan.parallel, pending.length)) }, worker))
+
+  const results = buildBenchmarkResults(modelResults, words, run(false))
+  writeJson(outputPath, results)
+  const runId = saveRun(results)
+
+  console.log("\n" + "=".repeat(70))
+  console.log("  BENCHMARK COMPLETE")
+  console.log("=".repeat(70))
+  console.log(`\nResults saved to: ${outputPath}`)
+  console.log(`Run stored as: data/runs/${runId}.json`)
+  console.log(`Total time: ${(results.metadata.runDurationMs / 1000 / 60).toFixed(1)} minutes`)
+  console.log(`Total cost: $${results.metadata.totalCost.toFixed(4)}`)
+  console.log()
+  printLeaderboard(results, 10)
+}
+
+async function runCommand(args: Args) {
+  const quick = args.switches.has("--quick")
+  const merge = args.switches.has("--merge")
+  const outputPath = args.values.get("--output") ?? DEFAULT_RESULTS_PATH
+  const { settings, trials } = readGameSettings(args)
+  const words = orFail(() => resolveWordSet(args.values.get("--words") ?? (quick ? "quick" : "benchmark")))
+
+  // Solver baselines are free and instant, so they run unless --no-baselines is passed
+  let models = selectFromCatalog(args, !args.switches.has("--no-baselines"))
+  if (quick) {
+    const llms = models.filter((m) => !isBaselineModel(m)).slice(0, QUICK_MODEL_COUNT)
+    models = models.filter((m) => llms.includes(m) || isBaselineModel(m))
+  }
+  if (models.length === 0) fail("No models match the filters")
+
+  // --merge keeps the other models' results, which only makes sense for a run with the same words and settings
+  let existing: BenchmarkModelResult[] = []
+  if (merge && fs.existsSync(outputPath)) {
+    const previous = readResultsFile(outputPath)
+    const mismatch = describeMismatch(previous, words, settings, trials)
+    if (mismatch) fail(`Can't merge into ${outputPath}: ${mismatch}`)
+    existing = previous.models.filter((m) => !models.some((model) => model.id === m.id))
+  }
+
+  configureCassettes(args)
+  await runPlan(
+    {
+      models,
+      words,
+      settings,
+      trials,
+      existing,
+      outputPath,
+      concurrency: readInteger(args, "--concurrency", DEFAULT_GAME_CONCURRENCY, 1),
+      parallel: readInteger(args, "--parallel", 1, 1),
+    },
+    (quick ? " (QUICK TEST)" : "") + (merge ? " (MERGED)" : "")
+  )
+}
+
+function describeMismatch(
+  results: BenchmarkResults,
+  words: string[],
+  settings: GameSettings,
+  trials: number
+): string | undefined {
+  const { metadata } = results
+  if ((metadata.maxGuesses ?? DEFAULT_MAX_GUESSES) !== settings.maxGuesses) {
+    return `it was run with ${metadata.maxGuesses ?? DEFAULT_MAX_GUESSES} max guesses, not ${settings.maxGuesses}`
+  }
+  if ((metadata.invalidGuessRetries ?? DEFAULT_INVALID_GUESS_RETRIES) !== settings.invalidGuessRetries) {
+    return `it was run with ${metadata.invalidGuessRetries ?? DEFAULT_INVALID_GUESS_RETRIES} invalid-guess retries, not ${settings.invalidGuessRetries}`
+  }
+  if ((metadata.trialsPerWord ?? 1) !== trials) {
+    return `it was run with ${metadata.trialsPerWord ?? 1} trials per word, not ${trials}`
+  }
+  if (results.words.length !== words.length || results.words.some((w) => !words.includes(w))) {
+    return `it was run on ${results.words.length} different words`
+  }
+  return undefined
+}
+
+async function resumeCommand(args: Args) {
+  const outputPath = args.values.get("--output") ?? DEFAULT_RESULTS_PATH
+  const previous = readResultsFile(outputPath)
+
+  // Settings and words come from the run being resumed; flags that disagree with it are an error
+  const { settings, trials } = readGameSettings(args, {
+    maxGuesses: previous.metadata.maxGuesses ?? DEFAULT_MAX_GUESSES,
+    invalidGuessRetries: previous.metadata.invalidGuessRetries ?? DEFAULT_INVALID_GUESS_RETRIES,
+    trials: previous.metadata.trialsPerWord ?? 1,
+  })
+  const words = args.values.has("--words") ? orFail(() => resolveWordSet(args.values.get("--words"))) : previous.words
+  const mismatch = describeMismatch(previous, words, settings, trials)
+  if (mismatch) fail(`Can't resume ${outputPath}: ${mismatch}. Start a fresh run instead.`)
+
+  const models = selectFromCatalog(args, !args.switches.has("--no-baselines"))
+  if (models.length === 0) fail("No models match the filters")
+  console.log(`\nResuming ${outputPath}: found ${previous.models.length} existing model results`)
+
+  configureCassettes(args)
+  await runPlan(
+    {
+      models,
+      words,
+      settings,
+      trials,
+      existing: previous.models,
+      outputPath,
+      concurrency: readInteger(args, "--concurrency", DEFAULT_GAME_CONCURRENCY, 1),
+      parallel: readInteger(args, "--parallel", 1, 1),
+    },
+    " (RESUMED)"
+  )
+}
+
+// ── clean ────────────────────────────────────────────────────
+
+// Removes the models the filters select (the known bad data by default) and, with --words, every other word
+function cleanCommand(args: Args) {
+  const outputPath = args.values.get("--output") ?? DEFAULT_RESULTS_PATH
+  const results = readResultsFile(outputPath)
+  const modelIds = readList(args, "--models")
+  const providers = readList(args, "--providers")
+
+  const removed = modelIds || providers
+    ? orFail(() => selectModels(resultModels(results), { modelIds, providers })).map((m) => m.id)
+    : BAD_MODEL_IDS.filter((id) => results.models.some((m) => m.id === id))
+  const words = args.values.has("--words") ? orFail(() => resolveWordSet(args.values.get("--words"))) : undefined
+
+  const cleaned = restrictResults(results, {
+    modelIds: results.models.filter((m) => !removed.includes(m.id)).map((m) => m.id),
+    words,
+  })
+  writeJson(outputPath, cleaned)
+
+  console.log("Removed model data:")
+  results.models
+    .filter((m) => removed.includes(m.id))
+    .forEach((m) => console.log(`  - ${m.name} (${m.id}): ${m.stats.gamesPlayed} games, ${m.stats.winRate}% win rate`))
+  if (words) console.log(`Kept ${cleaned.words.length} of ${results.words.length} words`)
+  console.log(`\nRemaining: ${cleaned.models.length} models, ${cleaned.metadata.totalGames} games`)
+}
+
+// ── report ───────────────────────────────────────────────────
+
+// The leaderboard of one run, or with --compare the regression diff from a base run to it
+function reportCommand(args: Args) {
+  if (args.positional.length > 1) fail("report takes at most one results file or run ID")
+  const head = filterResults(loadResults(args.positional[0] ?? DEFAULT_RESULTS_PATH), args)
+  const baseSource = args.values.get("--compare")
+
+  if (!baseSource) {
+    const { metadata } = head
+    console.log(`Run ${metadata.runId ?? metadata.runDate} (${metadata.version}): ${metadata.totalModels} models, ${metadata.wordCount} words, ${metadata.totalGames} games, $${metadata.totalCost.toFixed(4)}`)
+    console.log()
+    printLeaderboard(head)
+    const outputPath = args.values.get("--output")
+    if (outputPath) {
+      writeJson(outputPath, head.leaderboard)
+      console.log(`\nLeaderboard saved to: ${outputPath}`)
+    }
+    return
+  }
+
+  const thresholds: RegressionThresholds = {
+    maxWinRateDrop: readThreshold(args, "--max-win-rate-drop", DEFAULT_REGRESSION_THRESHOLDS.maxWinRateDrop),
+    maxAvgGuessesIncrease: readThreshold(args, "--max-avg-guesses-increase", DEFAULT_REGRESSION_THRESHOLDS.maxAvgGuessesIncrease),
+    maxMedianTimeIncreasePct: readThreshold(args, "--max-time-increase-pct", DEFAULT_REGRESSION_THRESHOLDS.maxMedianTimeIncreasePct),
+    maxCostIncreasePct: readThreshold(args, "--max-cost-increase-pct", DEFAULT_REGRESSION_THRESHOLDS.maxCostIncreasePct),
+    maxNewlyFailedWords: readThreshold(args, "--max-newly-failed", DEFAULT_REGRESSION_THRESHOLDS.maxNewlyFailedWords),
+    failOnRemovedModels: args.switches.has("--fail-on-removed") || DEFAULT_REGRESSION_THRESHOLDS.failOnRemovedModels,
+  }
+  const base = filterResults(loadResults(baseSource), args)
+  const report = buildRegressionReport(diffBenchmarkRuns(base, head), thresholds)
+  const markdown = formatRegressionMarkdown(report)
+
+  const markdownPath = args.values.get("--output")
+  const jsonPath = args.values.get("--json")
+  if (markdownPath) {
+    fs.mkdirSync(path.dirname(markdownPath), { recursive: true })
+    fs.writeFileSync(markdownPath, markdown)
+    console.log(`Markdown report saved to: ${markdownPath}`)
+  } else {
+    console.log(markdown)
+  }
+  if (jsonPath) {
+    writeJson(jsonPath, report)
+    console.log(`JSON report saved to: ${jsonPath}`)
+  }
+
+  if (report.regressions.length > 0) {
+    console.error(`\n${report.regressions.length} regression(s) found`)
+    process.exit(1)
+  }
+}
+
+// ── race ─────────────────────────────────────────────────────
+
+async function raceWord(models: ModelConfig[], targetWord: string, settings: GameSettings): Promise<WordleRaceResult> {
+  const name = (modelId: string) => models.find((m) => m.id === modelId)?.name || modelId
+  const config: WordleConfig = {
+    id: `race-${targetWord}-${Date.now()}`,
+    name: "CLI Race",
+    models,
+    targetWord,
+    wordLength: 5,
+    maxGuesses: settings.maxGuesses,
+    invalidGuessRetries: settings.invalidGuessRetries,
+    createdAt: Date.now(),
+  }
+
+  const engine = new WordleEngine(config, {
+    onModelStart: (modelId, guessIndex) => {
+      console.log(`  [${name(modelId)}] Starting guess #${guessIndex + 1}...`)
+    },
+    onGuessComplete: (guess: WordleGuess) => {
+      const feedback = guess.feedback.map((f) => (f === "correct" ? "🟩" : f === "present" ? "🟨" : "⬛")).join("")
+      console.log(`  [${name(guess.modelId)}] Guess #${guess.guessIndex + 1}: ${guess.word.toUpperCase()} ${feedback} (${guess.e2eMs.toFixed(0)}ms)`)
+    },
+    onModelComplete: (modelId, gameState) => {
+      if (gameState.solved) {
+        console.log(`  [${name(modelId)}] SOLVED in ${gameState.solvedAtGuess} guesses!`)
+      } else {
+        console.log(`  [${name(modelId)}] FAILED after ${gameState.guesses.length} guesses`)
+      }
+    },
+  })
+
+  const result = await engine.start()
+
+  console.log()
+  console.log("=".repeat(60))
+  console.log(`  RESULTS: ${targetWord.toUpperCase()}`)
+  console.log("=".repeat(60))
+  result.modelResults.forEach((r) => {
+    const status = r.solved ? `Solved in ${r.guessCount} guesses` : `Failed (closeness: ${r.closenessScore?.toFixed(1) || "N/A"})`
+    const time = r.timeToSolveMs ? `${(r.timeToSolveMs / 1000).toFixed(1)}s` : "N/A"
+    const cost = r.totalCost ? `$${r.totalCost.toFixed(6)}` : "N/A"
+    console.log(`  #${r.rank} ${r.modelName}`)
+    console.log(`     ${status} | Time: ${time} | Cost: ${cost}`)
+  })
+  console.log(result.winner ? `\n  WINNER: ${name(result.winner)}` : "\n  No winner - all models failed!")
+  console.log("=".repeat(60))
+  console.log()
+  return result
+}
+
+// Races the selected models (the flagships by default) on each word, printing every guess as it lands
+async function raceCommand(args: Args) {
+  const filtered = args.values.has("--models") || args.values.has("--providers")
+  const models = filtered
+    ? selectFromCatalog(args)
+    : orFail(() => selectModels(DEFAULT_MODELS, { modelIds: FLAGSHIP_MODEL_IDS }))
+  if (models.length === 0) fail("No models match the filters")
+
+  const { settings } = readGameSettings(args)
+  const wordSpec = args.values.get("--word") ?? args.values.get("--words")
+  const words = wordSpec ? orFail(() => resolveWordSet(wordSpec)) : [getRandomWord()]
+
+  console.log("=".repeat(60))
+  console.log("  WORDLE AI RACE")
+  console.log("=".repeat(60))
+  console.log(`  Words: ${words.length === 1 ? words[0] : `${words.length} words`}`)
+  console.log(`  Models: ${models.map((m) => m.name).join(", ")}`)
+  console.log("=".repeat(60))
+  console.log()
+
+  configureCassettes(args)
+  const results: WordleRaceResult[] = []
+  const queue = [...words]
+  const worker = async () => {
+    while (queue.length > 0) results.push(await raceWord(models, queue.shift()!, settings))
+  }
+  await Promise.all(Array.from({ length: Math.min(readInteger(args, "--concurrency", 1, 1), words.length) }, worker))
+
+  const outputPath = args.values.get("--output")
+  if (outputPath) {
+    writeJson(outputPath, results)
+    console.log(`Race results saved to: ${outputPath}`)
+  }
+}
+
+// ── list-models ──────────────────────────────────────────────
+
+function listModelsCommand(args: Args) {
+  const models = selectFromCatalog(args, !args.switches.has("--no-baselines"))
+  models.forEach((m) => {
+    console.log(`${m.id.padEnd(34)} ${m.name.padEnd(38)} ${getModelProviderId(m).padEnd(12)} ${m.modelString}`)
+  })
+  console.log(`\n${models.length} models`)
+
+  const outputPath = args.values.get("--output")
+  if (outputPath) {
+    writeJson(outputPath, models)
+    console.log(`Model list saved to: ${outputPath}`)
+  }
+}
+
+// ── Main ─────────────────────────────────────────────────────
+
+const COMMANDS: Record<string, { flags: string[]; run: (args: Args) => void | Promise<void> }> = {
+  run: { flags: [...FILTER_FLAGS, ...RUN_FLAGS, "--concurrency", "--quick", "--merge"], run: runCommand },
+  resume: { flags: [...FILTER_FLAGS, ...RUN_FLAGS, "--concurrency"], run: resumeCommand },
+  clean: { flags: FILTER_FLAGS, run: cleanCommand },
+  report: { flags: [...FILTER_FLAGS, ...THRESHOLD_FLAGS, "--compare", "--json", "--fail-on-removed"], run: reportCommand },
+  race: { flags: [...FILTER_FLAGS, "--concurrency", "--word", "--max-guesses", "--invalid-retries", "--record", "--replay"], run: raceCommand },
+  "list-models": { flags: ["--models", "--providers", "--output", "--no-baselines"], run: listModelsCommand },
+}
+
+const [commandName, ...rest] = process.argv.slice(2)
+const command = COMMANDS[commandName]
+if (!command) {
+  fail(`Usage: bun scripts/benchmark.ts <${Object.keys(COMMANDS).join("|")}> [options]`)
+}
+
+const args = parseArgs(rest, command.flags)
+if (args.positional.length > 0 && commandName !== "report") fail(`${commandName} takes no positional arguments`)
+
+Promise.resolve(command.run(args)).catch((error) => {
+  console.error(error)
+  process.exit(1)
+})